@@ -0,0 +1,76 @@
+/**
+ * Backfill script: explodes the vStaking APY history stored in each token's
+ * latest `metadata.history` into one bifrost_snapshots document per past day.
+ * Days that already have a document (e.g. from the live crawl) are left
+ * untouched, so it is safe to re-run.
+ *
+ * Same job as GET /bifrost/backfill/vstaking, but works offline from the data
+ * already in MongoDB (run a vStaking crawl first if the collection is empty).
+ *
+ * Run:
+ *   npx ts-node -r tsconfig-paths/register scripts/backfill-vstaking-history.ts
+ */
+
+import * as dotenv from 'dotenv';
+import { MongoClient } from 'mongodb';
+import * as path from 'path';
+import { explodeVStakingHistory } from '../src/modules/bifrost/helpers/history-backfill';
+import { ProtocolSnapshot } from '../src/shared/entities/protocol-snapshot.entity';
+
+dotenv.config({ path: path.resolve(__dirname, '../.env') });
+
+async function main() {
+    const uri = process.env.MONGODB_URI;
+    if (!uri) {
+        console.error('ERROR: MONGODB_URI is not set in .env');
+        process.exit(1);
+    }
+
+    const client = new MongoClient(uri);
+    await client.connect();
+    console.log('Connected to MongoDB');
+
+    const collection = client.db().collection<ProtocolSnapshot>('bifrost_snapshots');
+
+    // Latest document with history per (network, token)
+    const latest = await collection.aggregate<ProtocolSnapshot>([
+        { $match: { poolType: 'vstaking', 'metadata.history.0': { $exists: true } } },
+        { $sort: { snapshotDate: -1 } },
+        { $group: { _id: { network: '$network', assetSymbol: '$assetSymbol' }, doc: { $first: '$$ROOT' } } },
+        { $replaceRoot: { newRoot: '$doc' } },
+    ]).toArray();
+
+    let historyDays = 0;
+    let inserted = 0;
+    for (const snapshot of latest) {
+        const docs = explodeVStakingHistory(snapshot);
+        historyDays += docs.length;
+        if (!docs.length) continue;
+
+        const result = await collection.bulkWrite(
+            docs.map(doc => ({
+                updateOne: {
+                    filter: {
+                        network: doc.network,
+                        poolType: doc.poolType,
+                        assetSymbol: doc.assetSymbol,
+                        snapshotDate: doc.snapshotDate,
+                    },
+                    update: { $setOnInsert: doc },
+                    upsert: true,
+                },
+            })),
+            { ordered: false },
+        );
+        inserted += result.upsertedCount;
+        console.log(`${snapshot.network}/${snapshot.assetSymbol}: ${result.upsertedCount} new of ${docs.length} days`);
+    }
+
+    await client.close();
+    console.log(`Done: ${inserted} documents inserted, ${historyDays - inserted} days already present`);
+}
+
+main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+});
@@ -5,10 +5,18 @@ import { SharedModule } from './shared/shared.module';
 import { BifrostModule } from './modules/bifrost/bifrost.module';
 import { MoonwellModule } from './modules/moonwell/moonwell.module';
 import { HydrationModule } from './modules/hydration/hydration.module';
+import { AcalaModule } from './modules/acala/acala.module';
+import { StellaSwapModule } from './modules/stellaswap/stellaswap.module';
 import { PoolsModule } from './modules/pools/pools.module';
+import { BacktestModule } from './modules/backtest/backtest.module';
+import { XcmModule } from './modules/xcm/xcm.module';
+import { OptimizerModule } from './modules/optimizer/optimizer.module';
 import { SchedulerModule } from './modules/scheduler/scheduler.module';
-import { BifrostSnapshot, MoonwellSnapshot, HydrationSnapshot } from './shared/entities/protocol-snapshot.entity';
+import { BifrostSnapshot, MoonwellSnapshot, HydrationSnapshot, AcalaSnapshot, StellaSwapSnapshot } from './shared/entities/protocol-snapshot.entity';
 import { CrawlLog } from './shared/entities/crawl-log.entity';
+import { Strategy } from './modules/backtest/entities/strategy.entity';
+import { Simulation } from './modules/backtest/entities/simulation.entity';
+import { VTokenRateSnapshot } from './modules/bifrost/entities/vtoken-rate.entity';
 
 @Module({
     imports: [
@@ -23,7 +31,7 @@ import { CrawlLog } from './shared/entities/crawl-log.entity';
             useFactory: (config: ConfigService) => ({
                 type: 'mongodb',
                 url: config.get<string>('MONGODB_URI'),
-                entities: [BifrostSnapshot, MoonwellSnapshot, HydrationSnapshot, CrawlLog],
+                entities: [BifrostSnapshot, MoonwellSnapshot, HydrationSnapshot, AcalaSnapshot, StellaSwapSnapshot, CrawlLog, Strategy, Simulation, VTokenRateSnapshot],
                 synchronize: true, // Only for development
             }),
         }),
@@ -34,9 +42,14 @@ import { CrawlLog } from './shared/entities/crawl-log.entity';
         BifrostModule,
         MoonwellModule,
         HydrationModule,
+        AcalaModule,
+        StellaSwapModule,
 
         // ── Data-Serving Modules ──────────────────────────────────────────────
         PoolsModule,  // GET /pools* — aggregated pool data for Main BE
+        BacktestModule,  // POST /backtest/* — strategy simulation over stored snapshots
+        XcmModule,       // GET /xcm/fees — cross-chain transfer fee table
+        OptimizerModule, // POST /optimize — mean-variance portfolio optimizer
 
         // ── Scheduler ────────────────────────────────────────────────────────
         SchedulerModule,  // Cron: crawl all protocols every 10 min, daily upsert
@@ -0,0 +1,93 @@
+import { Controller, Get, Logger } from '@nestjs/common';
+import { AcalaService } from './acala.service';
+
+@Controller('acala')
+export class AcalaController {
+    private readonly logger = new Logger(AcalaController.name);
+
+    constructor(private readonly acalaService: AcalaService) { }
+
+    /**
+     * GET /acala/crawl/dex
+     *
+     * Reads every enabled Acala DEX pair on chain: reserves, USD prices, TVL
+     * and liquidity-incentive APR.
+     */
+    @Get('crawl/dex')
+    async crawlDex() {
+        this.logger.log('📥 Manual trigger: Acala DEX crawl');
+        const result = await this.acalaService.crawlDex();
+        return {
+            success: true,
+            message: 'Acala DEX pools crawled successfully',
+            endpoint: result.endpoint,
+            duration: `${result.duration}ms`,
+            itemsFound: result.itemsFound,
+            data: result.data,
+        };
+    }
+
+    /**
+     * GET /acala/crawl/homa
+     *
+     * Reads Homa liquid staking (LDOT): staking APY, exchange rate and TVL.
+     */
+    @Get('crawl/homa')
+    async crawlHoma() {
+        this.logger.log('📥 Manual trigger: Acala Homa crawl');
+        const result = await this.acalaService.crawlHoma();
+        return {
+            success: true,
+            message: 'Acala Homa liquid staking crawled successfully',
+            endpoint: result.endpoint,
+            duration: `${result.duration}ms`,
+            itemsFound: result.itemsFound,
+            data: result.data,
+        };
+    }
+
+    /**
+     * GET /acala/crawl/euphrates
+     *
+     * Reads every Euphrates pool: staked TVL, incentive APR and, for pools
+     * held as LDOT, the underlying Homa APY.
+     */
+    @Get('crawl/euphrates')
+    async crawlEuphrates() {
+        this.logger.log('📥 Manual trigger: Acala Euphrates crawl');
+        const result = await this.acalaService.crawlEuphrates();
+        return {
+            success: true,
+            message: 'Acala Euphrates pools crawled successfully',
+            endpoint: result.endpoint,
+            duration: `${result.duration}ms`,
+            itemsFound: result.itemsFound,
+            data: result.data,
+        };
+    }
+
+    @Get('crawl/all')
+    async crawlAll() {
+        this.logger.log('📥 Manual trigger: Full Acala crawl (DEX + Homa + Euphrates)');
+        const result = await this.acalaService.crawlAll();
+        return {
+            success: true,
+            message: 'All Acala data crawled successfully',
+            dex: {
+                duration: `${result.dex.duration}ms`,
+                itemsFound: result.dex.itemsFound,
+                data: result.dex.data,
+            },
+            homa: {
+                duration: `${result.homa.duration}ms`,
+                itemsFound: result.homa.itemsFound,
+                data: result.homa.data,
+            },
+            euphrates: {
+                duration: `${result.euphrates.duration}ms`,
+                itemsFound: result.euphrates.itemsFound,
+                data: result.euphrates.data,
+            },
+        };
+    }
+}
@@ -0,0 +1,29 @@
+import { Module } from '@nestjs/common';
+import { AcalaService } from './acala.service';
+import { AcalaController } from './acala.controller';
+import { AcalaDexCrawler } from './crawlers/dex.crawler';
+import { AcalaHomaCrawler } from './crawlers/homa.crawler';
+import { AcalaEuphratesCrawler } from './crawlers/euphrates.crawler';
+
+/**
+ * AcalaModule — Acala parachain indexer (DEX pools, Homa liquid staking
+ * and Euphrates staking pools).
+ *
+ * The crawlers read chain storage over WebSocket RPC (BasePolkadotCrawler),
+ * failing over through `rpcEndpoints` in config/pools.yaml. Euphrates pool
+ * state lives in an EVM+ contract and is read over Acala's EVM JSON-RPC.
+ *
+ * PoolConfigService and the AcalaSnapshot repository are provided globally
+ * by SharedModule.
+ */
+@Module({
+    controllers: [AcalaController],
+    providers: [
+        AcalaDexCrawler,
+        AcalaHomaCrawler,
+        AcalaEuphratesCrawler,
+        AcalaService,
+    ],
+    exports: [AcalaService],
+})
+export class AcalaModule { }
@@ -0,0 +1,120 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { MongoRepository } from 'typeorm';
+import { AcalaDexCrawler } from './crawlers/dex.crawler';
+import { AcalaHomaCrawler } from './crawlers/homa.crawler';
+import { AcalaEuphratesCrawler } from './crawlers/euphrates.crawler';
+import { CrawlResult } from '../../shared/crawlers/base-api.crawler';
+import { AcalaSnapshot, Protocol, Network, PoolType } from '../../shared/entities/protocol-snapshot.entity';
+import { ActivityLogService } from '../../shared/services/activity-log.service';
+import { ProtocolRegistryService } from '../../shared/services/protocol-registry.service';
+import { getUtcDateKey } from '../../shared/utils/date.util';
+
+export interface AcalaCrawlAllResult {
+    dex: CrawlResult<AcalaSnapshot>;
+    homa: CrawlResult<AcalaSnapshot>;
+    euphrates: CrawlResult<AcalaSnapshot>;
+}
+
+@Injectable()
+export class AcalaService implements OnModuleInit {
+    private readonly logger = new Logger(AcalaService.name);
+
+    constructor(
+        @InjectRepository(AcalaSnapshot)
+        private readonly repository: MongoRepository<AcalaSnapshot>,
+        private readonly dexCrawler: AcalaDexCrawler,
+        private readonly homaCrawler: AcalaHomaCrawler,
+        private readonly euphratesCrawler: AcalaEuphratesCrawler,
+        private readonly activityLog: ActivityLogService,
+        private readonly registry: ProtocolRegistryService,
+    ) { }
+
+    onModuleInit() {
+        this.registry.register({
+            protocol: Protocol.ACALA,
+            label: 'Acala',
+            repository: this.repository,
+            crawls: [{ label: 'Acala', run: () => this.crawlAll() }],
+            summaryFields: { priceUsd: 'priceUsd', poolCategory: 'poolCategory' },
+        });
+    }
+
+    async crawlDex(): Promise<CrawlResult<AcalaSnapshot>> {
+        this.logger.log('🔄 Starting Acala DEX crawl...');
+        return this.activityLog.track(
+            { protocol: Protocol.ACALA, network: Network.ACALA, poolType: PoolType.DEX },
+            async () => {
+                const result = (await this.dexCrawler.crawl()) as CrawlResult<AcalaSnapshot>;
+
+                if (result.data && result.data.length > 0) {
+                    await this.upsertSnapshots(result.data);
+                    this.logger.log(`💾 Persisted ${result.data.length} Acala DEX snapshots`);
+                }
+                return result;
+            },
+        );
+    }
+
+    async crawlHoma(): Promise<CrawlResult<AcalaSnapshot>> {
+        this.logger.log('🔄 Starting Acala Homa crawl...');
+        return this.activityLog.track(
+            { protocol: Protocol.ACALA, network: Network.ACALA, poolType: PoolType.VSTAKING },
+            async () => {
+                const result = (await this.homaCrawler.crawl()) as CrawlResult<AcalaSnapshot>;
+
+                if (result.data && result.data.length > 0) {
+                    await this.upsertSnapshots(result.data);
+                    this.logger.log(`💾 Persisted ${result.data.length} Acala Homa snapshots`);
+                }
+                return result;
+            },
+        );
+    }
+
+    async crawlEuphrates(): Promise<CrawlResult<AcalaSnapshot>> {
+        this.logger.log('🔄 Starting Acala Euphrates crawl...');
+        return this.activityLog.track(
+            { protocol: Protocol.ACALA, network: Network.ACALA, poolType: PoolType.FARMING },
+            async () => {
+                const result = (await this.euphratesCrawler.crawl()) as CrawlResult<AcalaSnapshot>;
+
+                if (result.data && result.data.length > 0) {
+                    await this.upsertSnapshots(result.data);
+                    this.logger.log(`💾 Persisted ${result.data.length} Acala Euphrates snapshots`);
+                }
+                return result;
+            },
+        );
+    }
+
+    async crawlAll(): Promise<AcalaCrawlAllResult> {
+        this.logger.log('🔄 Starting full Acala crawl (DEX + Homa + Euphrates) in parallel...');
+        const [dex, homa, euphrates] = await Promise.all([
+            this.crawlDex(),
+            this.crawlHoma(),
+            this.crawlEuphrates(),
+        ]);
+        this.logger.log(`✅ Full Acala crawl done — DEX: ${dex.duration}ms, Homa: ${homa.duration}ms, Euphrates: ${euphrates.duration}ms`);
+        return { dex, homa, euphrates };
+    }
+
+    private async upsertSnapshots(snapshots: AcalaSnapshot[]): Promise<void> {
+        const dateKey = getUtcDateKey();
+        const now = new Date();
+        for (const snapshot of snapshots) {
+            snapshot.snapshotDate = dateKey;
+            snapshot.updatedAt = now;
+            await this.repository.findOneAndUpdate(
+                {
+                    network: snapshot.network,
+                    poolType: snapshot.poolType,
+                    assetSymbol: snapshot.assetSymbol,
+                    snapshotDate: dateKey,
+                },
+                { $set: snapshot },
+                { upsert: true }
+            );
+        }
+    }
+}
@@ -0,0 +1,169 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ApiPromise } from '@polkadot/api';
+import { BasePolkadotCrawler } from '../../../shared/crawlers/base-polkadot.crawler';
+import { PoolConfigService } from '../../../shared/services/pool-config.service';
+import { Protocol, Network, PoolType, ProtocolSnapshot } from '../../../shared/entities/protocol-snapshot.entity';
+import {
+    ACALA_BLOCK_TIME_SECONDS,
+    ACALA_DEFAULT_STABLES,
+    ACALA_RPC_ENDPOINTS,
+    RawAcalaDexPool,
+} from '../types/acala.types';
+import { AcalaCurrencyResolver, currencyKey, fromBalance, oraclePriceUsd } from '../helpers/acala-chain';
+import { derivePoolPrices } from '../helpers/pool-pricing';
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+// ─── Crawler ─────────────────────────────────────────────────────────────────
+
+/**
+ * AcalaDexCrawler — reads every enabled Acala DEX pair from chain storage.
+ *
+ *   - reserves:  `dex.liquidityPool`
+ *   - prices:    `acalaOracle.values` where published, $1 for configured
+ *                stables, otherwise implied by pool reserves (see pool-pricing)
+ *   - APR:       liquidity incentives (`incentives.incentiveRewardAmounts`,
+ *                paid every `accumulatePeriod` blocks) over pool TVL
+ *
+ * Trading-fee APR is not included — Acala does not store volume on chain.
+ * Each pair becomes one ProtocolSnapshot with assetSymbol "A/B".
+ */
+@Injectable()
+export class AcalaDexCrawler extends BasePolkadotCrawler<RawAcalaDexPool> {
+    protected readonly logger = new Logger(AcalaDexCrawler.name);
+    protected readonly protocol = Protocol.ACALA;
+    protected readonly network = Network.ACALA;
+    protected readonly poolType = PoolType.DEX;
+    protected readonly defaultEndpoints = ACALA_RPC_ENDPOINTS;
+
+    constructor(private readonly poolConfig: PoolConfigService) {
+        super();
+    }
+
+    protected endpoints(): string[] {
+        const configured = this.poolConfig.getRpcEndpoints('acala', this.network, this.poolType);
+        return configured.length ? configured : this.defaultEndpoints;
+    }
+
+    protected async queryChain(api: ApiPromise): Promise<RawAcalaDexPool[]> {
+        const resolver = new AcalaCurrencyResolver(api);
+
+        const [poolEntries, statusEntries, rewardEntries] = await Promise.all([
+            api.query.dex.liquidityPool.entries(),
+            api.query.dex.tradingPairStatuses.entries(),
+            api.query.incentives.incentiveRewardAmounts.entries(),
+        ]);
+        const accumulatePeriod = Number(api.consts.incentives.accumulatePeriod.toString());
+        const periodsPerYear = SECONDS_PER_YEAR / (accumulatePeriod * ACALA_BLOCK_TIME_SECONDS);
+
+        const enabled = new Set(
+            statusEntries
+                .filter(([, status]) => String(status.toJSON()).toLowerCase() === 'enabled')
+                .map(([key]) => this.pairKey(key.args[0].toJSON() as unknown[])),
+        );
+
+        // 1. Reserves per enabled pair
+        const pools: RawAcalaDexPool[] = [];
+        const poolByPair = new Map<string, RawAcalaDexPool>();
+        for (const [key, value] of poolEntries) {
+            const pair = key.args[0].toJSON() as unknown[];
+            const pairKey = this.pairKey(pair);
+            if (enabled.size && !enabled.has(pairKey)) continue;
+
+            const reserves = value.toJSON() as unknown[];
+            const tokens = await Promise.all(pair.map(async (id, i) => {
+                const currency = await resolver.resolve(id);
+                return { ...currency, reserve: fromBalance(reserves[i], currency.decimals) };
+            }));
+            if (tokens.some(t => !(t.reserve > 0))) continue;
+
+            const pool: RawAcalaDexPool = { tokens, rewardsPerYearUsd: 0, rewards: [] };
+            pools.push(pool);
+            poolByPair.set(pairKey, pool);
+        }
+        this.logger.log(`🔍 Found ${pools.length} enabled pools with liquidity`);
+
+        // 2. Prices
+        const prices = await this.resolvePrices(api, pools);
+        for (const pool of pools) {
+            for (const token of pool.tokens) token.priceUsd = prices.get(token.symbol);
+        }
+
+        // 3. Liquidity incentives, keyed by the pool's DexShare pair
+        for (const [key, amount] of rewardEntries) {
+            const [poolId, rewardCurrency] = key.args.map(arg => arg.toJSON()) as [Record<string, any>, unknown];
+            const dexShare = poolId?.['dex']?.['dexShare'] as unknown[] | undefined;
+            if (!dexShare) continue;
+
+            const pool = poolByPair.get(this.pairKey(dexShare));
+            if (!pool) continue;
+
+            const reward = await resolver.resolve(rewardCurrency);
+            const perYear = fromBalance(amount.toString(), reward.decimals) * periodsPerYear;
+            if (!(perYear > 0)) continue;
+
+            pool.rewards.push({ symbol: reward.symbol, perYear });
+            pool.rewardsPerYearUsd += perYear * (prices.get(reward.symbol) ?? 0);
+        }
+
+        return pools;
+    }
+
+    protected toSnapshot(raw: RawAcalaDexPool): ProtocolSnapshot {
+        const now = new Date();
+        const tvlUsd = raw.tokens.every(t => t.priceUsd != null)
+            ? raw.tokens.reduce((sum, t) => sum + t.reserve * t.priceUsd!, 0)
+            : undefined;
+        const rewardApy = tvlUsd > 0 ? (raw.rewardsPerYearUsd / tvlUsd) * 100 : undefined;
+
+        return {
+            protocol: this.protocol,
+            network: this.network,
+            poolType: this.poolType,
+            assetSymbol: raw.tokens.map(t => t.symbol).join('/'),
+            rewardApy,
+            totalApy: rewardApy,
+            tvlUsd,
+            dataTimestamp: now,
+            crawledAt: now,
+            metadata: {
+                poolCategory: 'Xyk',
+                tokens: raw.tokens.map(t => ({
+                    id: t.key,
+                    symbol: t.symbol,
+                    decimals: t.decimals,
+                    reserve: t.reserve,
+                    priceUsd: t.priceUsd,
+                })),
+                rewards: raw.rewards,
+            },
+        } as ProtocolSnapshot;
+    }
+
+    // ─── Helpers ──────────────────────────────────────────────────────────────
+
+    /** Order-independent key of a currency pair. */
+    private pairKey(pair: unknown[]): string {
+        return pair.map(currencyKey).sort().join('|');
+    }
+
+    private async resolvePrices(api: ApiPromise, pools: RawAcalaDexPool[]): Promise<Map<string, number>> {
+        const seeds = new Map<string, number>();
+        const symbols = [...new Set(pools.flatMap(p => p.tokens.map(t => t.symbol)))];
+        for (const symbol of symbols) {
+            const price = await oraclePriceUsd(api, symbol);
+            if (price != null) seeds.set(symbol, price);
+        }
+
+        const stables = this.poolConfig.get<{ stables?: string[] }>('acala', this.network, this.poolType).stables
+            ?? ACALA_DEFAULT_STABLES;
+        for (const symbol of stables) {
+            if (!seeds.has(symbol)) seeds.set(symbol, 1);
+        }
+
+        const prices = derivePoolPrices(pools, seeds);
+        const unpriced = symbols.filter(s => !prices.has(s));
+        this.logger.log(`💰 Prices: ${seeds.size} seeded, ${prices.size - seeds.size} pool-implied, ${unpriced.length} unpriced`);
+        return prices;
+    }
+}
@@ -0,0 +1,200 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ApiPromise } from '@polkadot/api';
+import { BasePolkadotCrawler } from '../../../shared/crawlers/base-polkadot.crawler';
+import { DEFAULT_HTTP_POLICY } from '../../../shared/crawlers/base-api.crawler';
+import { fetchWithRetry } from '../../../shared/crawlers/http-retry';
+import { PoolConfigService } from '../../../shared/services/pool-config.service';
+import { Protocol, Network, PoolType, ProtocolSnapshot } from '../../../shared/entities/protocol-snapshot.entity';
+import {
+    decodeAddressArray,
+    decodeString,
+    decodeWords,
+    encodeCall,
+    ethCallRequest,
+    wordToAddress,
+    wordToBigInt,
+} from '../../../shared/utils/evm-call.util';
+import {
+    ACALA_DOT_EQUIVALENTS,
+    ACALA_EVM_RPC_URL,
+    ACALA_RPC_ENDPOINTS,
+    AcalaEuphratesConfig,
+    EUPHRATES_CONTRACT,
+    RawEuphratesPool,
+} from '../types/acala.types';
+import { HomaState, homaStakingApy, oraclePriceUsd, readHoma } from '../helpers/acala-chain';
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+const ZERO_ADDRESS = `0x${'0'.repeat(40)}`;
+
+interface Erc20Info {
+    symbol: string;
+    decimals: number;
+}
+
+// ─── Crawler ─────────────────────────────────────────────────────────────────
+
+/**
+ * AcalaEuphratesCrawler — Euphrates liquid-staking incentive pools.
+ *
+ * Reads the Euphrates contract over Acala's EVM+ JSON-RPC (`eth_call`):
+ *
+ *   - pools:     `poolIndex()` ids, `shareTypes(id)` staked token,
+ *                `convertInfos(id)` token the stake is converted into
+ *   - staked:    `totalShares(id)`
+ *   - rewards:   `rewardTypes(id)` × `rewardRules(id, token)` — per-second
+ *                rate, ignored once `endTime` has passed
+ *
+ * Prices and the Homa yield of LDOT come from chain storage over the
+ * substrate RPC. rewardApy = incentives in USD per year / staked USD;
+ * supplyApy = Homa APY when the stake is held as LDOT.
+ */
+@Injectable()
+export class AcalaEuphratesCrawler extends BasePolkadotCrawler<RawEuphratesPool> {
+    protected readonly logger = new Logger(AcalaEuphratesCrawler.name);
+    protected readonly protocol = Protocol.ACALA;
+    protected readonly network = Network.ACALA;
+    protected readonly poolType = PoolType.FARMING;
+    protected readonly defaultEndpoints = ACALA_RPC_ENDPOINTS;
+
+    constructor(private readonly poolConfig: PoolConfigService) {
+        super();
+    }
+
+    protected endpoints(): string[] {
+        const configured = this.poolConfig.getRpcEndpoints('acala', this.network, this.poolType);
+        return configured.length ? configured : this.defaultEndpoints;
+    }
+
+    protected async queryChain(api: ApiPromise): Promise<RawEuphratesPool[]> {
+        const config = this.poolConfig.get<AcalaEuphratesConfig>('acala', this.network, this.poolType);
+        const rpcUrl = config.evmRpcUrl ?? ACALA_EVM_RPC_URL;
+        const contract = config.contract ?? EUPHRATES_CONTRACT;
+        const call = (signature: string, args?: Array<number | string>) => this.ethCall(rpcUrl, contract, signature, args);
+
+        const [homa, dotPrice, poolCount] = await Promise.all([
+            readHoma(api),
+            oraclePriceUsd(api, 'DOT'),
+            call('poolIndex()').then(data => Number(wordToBigInt(decodeWords(data)[0]))),
+        ]);
+        this.logger.log(`⛓️ Euphrates ${contract}: ${poolCount} pools`);
+
+        const tokens = new Map<string, Erc20Info>();
+        const tokenInfo = async (address: string): Promise<Erc20Info> => {
+            if (!tokens.has(address)) {
+                const [symbol, decimals] = await Promise.all([
+                    this.ethCall(rpcUrl, address, 'symbol()').then(decodeString),
+                    this.ethCall(rpcUrl, address, 'decimals()').then(data => Number(wordToBigInt(decodeWords(data)[0]))),
+                ]);
+                tokens.set(address, { symbol, decimals });
+            }
+            return tokens.get(address)!;
+        };
+        const prices = new Map<string, number | undefined>();
+        const priceOf = async (symbol: string): Promise<number | undefined> => {
+            const key = symbol.toUpperCase();
+            if (!prices.has(key)) prices.set(key, await this.priceUsd(api, key, dotPrice, homa));
+            return prices.get(key);
+        };
+
+        const now = Math.floor(Date.now() / 1000);
+        const pools: RawEuphratesPool[] = [];
+        for (let poolId = 0; poolId < poolCount; poolId++) {
+            const [shareAddress, convertedAddress, totalSharesRaw, rewardAddresses] = await Promise.all([
+                call('shareTypes(uint256)', [poolId]).then(data => wordToAddress(decodeWords(data)[0])),
+                call('convertInfos(uint256)', [poolId]).then(data => wordToAddress(decodeWords(data)[0])),
+                call('totalShares(uint256)', [poolId]).then(data => wordToBigInt(decodeWords(data)[0])),
+                call('rewardTypes(uint256)', [poolId]).then(decodeAddressArray),
+            ]);
+            if (shareAddress === ZERO_ADDRESS) continue;
+
+            const share = await tokenInfo(shareAddress);
+            const converted = convertedAddress !== ZERO_ADDRESS ? await tokenInfo(convertedAddress) : undefined;
+            const heldSymbol = (converted ?? share).symbol.toUpperCase();
+
+            const rewards: RawEuphratesPool['rewards'] = [];
+            for (const rewardAddress of rewardAddresses) {
+                const [rate, endTime] = decodeWords(await call('rewardRules(uint256,address)', [poolId, rewardAddress]))
+                    .map(wordToBigInt);
+                if (!rate || Number(endTime) <= now) continue;
+                const reward = await tokenInfo(rewardAddress);
+                rewards.push({
+                    symbol: reward.symbol,
+                    perYear: (Number(rate) / 10 ** reward.decimals) * SECONDS_PER_YEAR,
+                    priceUsd: await priceOf(reward.symbol),
+                });
+            }
+
+            const pool: RawEuphratesPool = {
+                poolId,
+                shareSymbol: share.symbol,
+                convertedSymbol: converted?.symbol,
+                totalShares: Number(totalSharesRaw) / 10 ** share.decimals,
+                sharePriceUsd: await priceOf(share.symbol),
+                rewards,
+                rewardsPerYearUsd: rewards.reduce((sum, r) => sum + r.perYear * (r.priceUsd ?? 0), 0),
+                underlyingApy: heldSymbol === 'LDOT' && homa
+                    ? homaStakingApy(homa.rewardRatePerEra, homa.commissionRate)
+                    : undefined,
+            };
+            for (const r of rewards.filter(r => r.priceUsd == null)) {
+                this.logger.warn(`⚠️ Euphrates pool ${poolId}: no price for reward ${r.symbol} — left out of APR`);
+            }
+            this.logger.log(`✅ Euphrates pool ${poolId}: ${pool.totalShares.toFixed(0)} ${share.symbol}${converted ? ` → ${converted.symbol}` : ''}`);
+            pools.push(pool);
+        }
+        return pools;
+    }
+
+    protected toSnapshot(raw: RawEuphratesPool): ProtocolSnapshot {
+        const now = new Date();
+        const tvlUsd = raw.sharePriceUsd != null ? raw.totalShares * raw.sharePriceUsd : undefined;
+        const rewardApy = tvlUsd > 0 ? (raw.rewardsPerYearUsd / tvlUsd) * 100 : undefined;
+        const parts = [raw.underlyingApy, rewardApy].filter((v): v is number => v != null);
+
+        return {
+            protocol: this.protocol,
+            network: this.network,
+            poolType: this.poolType,
+            // Pools staking the same token differ by what they convert it into
+            assetSymbol: raw.convertedSymbol ? `${raw.shareSymbol}-${raw.convertedSymbol}` : raw.shareSymbol,
+            supplyApy: raw.underlyingApy,
+            rewardApy,
+            totalApy: parts.length ? parts.reduce((sum, v) => sum + v, 0) : undefined,
+            tvlUsd,
+            dataTimestamp: now,
+            crawledAt: now,
+            metadata: {
+                product: 'Euphrates',
+                poolCategory: 'Euphrates',
+                poolId: raw.poolId,
+                shareToken: raw.shareSymbol,
+                convertedToken: raw.convertedSymbol,
+                totalShares: raw.totalShares,
+                priceUsd: raw.sharePriceUsd,
+                rewards: raw.rewards,
+            },
+        } as ProtocolSnapshot;
+    }
+
+    /** DOT-pegged tokens at the DOT price, LDOT via the Homa rate, others from the oracle. */
+    private async priceUsd(
+        api: ApiPromise,
+        symbol: string,
+        dotPrice: number | undefined,
+        homa: HomaState | null,
+    ): Promise<number | undefined> {
+        if (ACALA_DOT_EQUIVALENTS.includes(symbol)) return dotPrice;
+        if (symbol === 'LDOT') return dotPrice != null && homa ? dotPrice * homa.exchangeRate : undefined;
+        return oraclePriceUsd(api, symbol);
+    }
+
+    private async ethCall(rpcUrl: string, to: string, signature: string, args?: Array<number | string>): Promise<string> {
+        const response = await fetchWithRetry(rpcUrl, ethCallRequest(to, encodeCall(signature, args)), DEFAULT_HTTP_POLICY, this.logger);
+        const json = (await response.json()) as { result?: string; error?: { message: string } };
+        if (json.error || !json.result) {
+            throw new Error(`eth_call ${signature} on ${to} failed: ${json.error?.message ?? 'empty result'}`);
+        }
+        return json.result;
+    }
+}
@@ -0,0 +1,83 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ApiPromise } from '@polkadot/api';
+import { BasePolkadotCrawler } from '../../../shared/crawlers/base-polkadot.crawler';
+import { PoolConfigService } from '../../../shared/services/pool-config.service';
+import { Protocol, Network, PoolType, ProtocolSnapshot } from '../../../shared/entities/protocol-snapshot.entity';
+import { ACALA_RPC_ENDPOINTS, POLKADOT_ERAS_PER_DAY, RawAcalaHoma } from '../types/acala.types';
+import { homaStakingApy, oraclePriceUsd, readHoma } from '../helpers/acala-chain';
+
+// ─── Crawler ─────────────────────────────────────────────────────────────────
+
+/**
+ * AcalaHomaCrawler — Homa liquid staking (DOT → LDOT), the base yield that
+ * Euphrates builds on (see AcalaEuphratesCrawler for its incentives).
+ *
+ *   - staked, issuance, exchange rate: see `readHoma`
+ *   - APY: `homa.estimatedRewardRatePerEra` net of `homa.commissionRate`,
+ *          compounded daily
+ *
+ * Emits a single LDOT snapshot.
+ */
+@Injectable()
+export class AcalaHomaCrawler extends BasePolkadotCrawler<RawAcalaHoma> {
+    protected readonly logger = new Logger(AcalaHomaCrawler.name);
+    protected readonly protocol = Protocol.ACALA;
+    protected readonly network = Network.ACALA;
+    protected readonly poolType = PoolType.VSTAKING;
+    protected readonly defaultEndpoints = ACALA_RPC_ENDPOINTS;
+
+    constructor(private readonly poolConfig: PoolConfigService) {
+        super();
+    }
+
+    protected endpoints(): string[] {
+        const configured = this.poolConfig.getRpcEndpoints('acala', this.network, this.poolType);
+        return configured.length ? configured : this.defaultEndpoints;
+    }
+
+    protected async queryChain(api: ApiPromise): Promise<RawAcalaHoma[]> {
+        const [state, dotPrice] = await Promise.all([readHoma(api), oraclePriceUsd(api, 'DOT')]);
+        if (!state) {
+            this.logger.warn('⚠️ LDOT issuance is zero — skipping Homa snapshot');
+            return [];
+        }
+
+        const homa: RawAcalaHoma = {
+            liquidSymbol: 'LDOT',
+            stakingSymbol: 'DOT',
+            ...state,
+            bondingDuration: Number(api.consts.homa.bondingDuration?.toString() ?? NaN) || undefined,
+            stakingPriceUsd: dotPrice,
+        };
+        this.logger.log(`✅ Homa: ${state.totalStaked.toFixed(0)} DOT staked, 1 LDOT = ${homa.exchangeRate.toFixed(4)} DOT`);
+        return [homa];
+    }
+
+    protected toSnapshot(raw: RawAcalaHoma): ProtocolSnapshot {
+        const now = new Date();
+        const supplyApy = homaStakingApy(raw.rewardRatePerEra, raw.commissionRate);
+
+        return {
+            protocol: this.protocol,
+            network: this.network,
+            poolType: this.poolType,
+            assetSymbol: raw.liquidSymbol,
+            supplyApy,
+            totalApy: supplyApy,
+            tvlUsd: raw.stakingPriceUsd != null ? raw.totalStaked * raw.stakingPriceUsd : undefined,
+            dataTimestamp: now,
+            crawledAt: now,
+            metadata: {
+                product: 'Homa',
+                stakingToken: raw.stakingSymbol,
+                exchangeRate: raw.exchangeRate,
+                totalStaked: raw.totalStaked,
+                liquidIssuance: raw.liquidIssuance,
+                rewardRatePerEra: raw.rewardRatePerEra,
+                commissionRate: raw.commissionRate,
+                priceUsd: raw.stakingPriceUsd != null ? raw.exchangeRate * raw.stakingPriceUsd : undefined,
+                redemptionDays: raw.bondingDuration != null ? raw.bondingDuration / POLKADOT_ERAS_PER_DAY : undefined,
+            },
+        } as ProtocolSnapshot;
+    }
+}
@@ -0,0 +1,134 @@
+import { ApiPromise } from '@polkadot/api';
+import { ACALA_TOKEN_DECIMALS, AcalaCurrency, POLKADOT_ERAS_PER_DAY } from '../types/acala.types';
+
+/** FixedU128 → number (18 decimals). */
+export function fromFixedU128(raw: unknown): number {
+    return Number(BigInt(String(raw ?? 0))) / 1e18;
+}
+
+/** Raw balance → token units. */
+export function fromBalance(raw: unknown, decimals: number): number {
+    return Number(BigInt(String(raw ?? 0))) / 10 ** decimals;
+}
+
+/**
+ * Canonical key of a CurrencyId's JSON form, e.g. `{"token":"ACA"}`.
+ * toJSON() already camel-cases variant names, so keys compare reliably.
+ */
+export function currencyKey(currencyJson: unknown): string {
+    return JSON.stringify(currencyJson);
+}
+
+/**
+ * Resolves CurrencyIds to symbol + decimals. Native tokens use the static
+ * table; foreign assets, ERC20s and stable-asset pool tokens are read from
+ * `assetRegistry.assetMetadatas`. Results are memoised per instance.
+ */
+export class AcalaCurrencyResolver {
+    private readonly cache = new Map<string, AcalaCurrency>();
+
+    constructor(private readonly api: ApiPromise) { }
+
+    async resolve(currencyJson: unknown): Promise<AcalaCurrency> {
+        const key = currencyKey(currencyJson);
+        const cached = this.cache.get(key);
+        if (cached) return cached;
+
+        const currency = await this.lookup(key, currencyJson as Record<string, unknown>);
+        this.cache.set(key, currency);
+        return currency;
+    }
+
+    private async lookup(key: string, id: Record<string, unknown>): Promise<AcalaCurrency> {
+        if (typeof id?.['token'] === 'string') {
+            const symbol = id['token'] as string;
+            return { key, symbol, decimals: ACALA_TOKEN_DECIMALS[symbol] ?? 12 };
+        }
+        if (id?.['liquidCrowdloan'] != null) {
+            return { key, symbol: 'LCDOT', decimals: ACALA_TOKEN_DECIMALS['DOT'] };
+        }
+
+        const registryId =
+            id?.['foreignAsset'] != null ? { ForeignAssetId: id['foreignAsset'] }
+                : id?.['erc20'] != null ? { Erc20: id['erc20'] }
+                    : id?.['stableAssetPoolToken'] != null ? { StableAssetId: id['stableAssetPoolToken'] }
+                        : null;
+        if (registryId) {
+            const meta = (await this.api.query.assetRegistry.assetMetadatas(registryId)).toHuman() as
+                { symbol?: string; decimals?: string } | null;
+            if (meta?.symbol) {
+                return { key, symbol: meta.symbol, decimals: Number(String(meta.decimals ?? '12').replace(/,/g, '')) };
+            }
+        }
+
+        const [variant, value] = Object.entries(id ?? {})[0] ?? ['unknown', ''];
+        return { key, symbol: `${variant}-${String(value)}`, decimals: 12 };
+    }
+}
+
+/** Oracle price (USD per whole token) from `acalaOracle.values`, if published. */
+export async function oraclePriceUsd(api: ApiPromise, symbol: string): Promise<number | undefined> {
+    try {
+        const value = (await api.query.acalaOracle.values({ Token: symbol })).toJSON() as
+            { value?: string | number } | null;
+        const price = value?.value != null ? fromFixedU128(value.value) : 0;
+        return price > 0 ? price : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+// ─── Homa ────────────────────────────────────────────────────────────────────
+
+/** Homa (DOT → LDOT) state, in whole tokens and fractions. */
+export interface HomaState {
+    /** DOT bonded on the relay chain + waiting in the bond pool. */
+    totalStaked: number;
+    /** LDOT issuance + void liquid. */
+    liquidIssuance: number;
+    /** DOT per LDOT. */
+    exchangeRate: number;
+    rewardRatePerEra: number;
+    commissionRate: number;
+}
+
+/**
+ *   - staked:        Σ `homa.stakingLedgers[*].bonded` + `homa.toBondPool`
+ *   - issuance:      LDOT `tokens.totalIssuance` + `homa.totalVoidLiquid`
+ *   - exchange rate: staked / issuance
+ *
+ * Null while LDOT issuance is zero.
+ */
+export async function readHoma(api: ApiPromise): Promise<HomaState | null> {
+    const decimals = ACALA_TOKEN_DECIMALS['DOT'];
+    const [toBondPool, totalVoidLiquid, ledgers, issuance, rewardRate, commission] = await Promise.all([
+        api.query.homa.toBondPool(),
+        api.query.homa.totalVoidLiquid(),
+        api.query.homa.stakingLedgers.entries(),
+        api.query.tokens.totalIssuance({ Token: 'LDOT' }),
+        api.query.homa.estimatedRewardRatePerEra(),
+        api.query.homa.commissionRate(),
+    ]);
+
+    const bonded = ledgers.reduce((sum, [, ledger]) => {
+        const json = ledger.toJSON() as { bonded?: string | number } | null;
+        return sum + fromBalance(json?.bonded ?? 0, decimals);
+    }, 0);
+    const totalStaked = bonded + fromBalance(toBondPool.toString(), decimals);
+    const liquidIssuance = fromBalance(issuance.toString(), decimals) + fromBalance(totalVoidLiquid.toString(), decimals);
+    if (!(liquidIssuance > 0)) return null;
+
+    return {
+        totalStaked,
+        liquidIssuance,
+        exchangeRate: totalStaked / liquidIssuance,
+        rewardRatePerEra: fromFixedU128(rewardRate.toString()),
+        commissionRate: fromFixedU128(commission.toString()),
+    };
+}
+
+/** Homa staking APY in percent: the per-era reward rate net of commission, compounded every era. */
+export function homaStakingApy(rewardRatePerEra: number, commissionRate: number): number {
+    const netRatePerEra = rewardRatePerEra * (1 - commissionRate);
+    return ((1 + netRatePerEra) ** (365 * POLKADOT_ERAS_PER_DAY) - 1) * 100;
+}
@@ -0,0 +1,39 @@
+/**
+ * Pool-implied USD prices for tokens without an oracle feed.
+ *
+ * Starting from seed prices (oracle + $1 stables), repeatedly prices the
+ * unpriced side of a pool from its priced side via the reserve ratio
+ * (constant-product spot price). Each round uses the pool with the deepest
+ * priced reserve, so thin pools never override deep ones.
+ */
+export interface PricedPool {
+    tokens: Array<{ symbol: string; reserve: number }>;
+}
+
+export function derivePoolPrices(pools: PricedPool[], seeds: Map<string, number>): Map<string, number> {
+    const prices = new Map(seeds);
+
+    for (;;) {
+        let best: { symbol: string; price: number; depthUsd: number } | null = null;
+
+        for (const pool of pools) {
+            if (pool.tokens.length !== 2) continue;
+            const [a, b] = pool.tokens;
+            if (!(a.reserve > 0 && b.reserve > 0)) continue;
+
+            const known = prices.has(a.symbol) && !prices.has(b.symbol) ? [a, b]
+                : prices.has(b.symbol) && !prices.has(a.symbol) ? [b, a]
+                    : null;
+            if (!known) continue;
+
+            const [priced, unpriced] = known;
+            const depthUsd = priced.reserve * prices.get(priced.symbol)!;
+            if (!best || depthUsd > best.depthUsd) {
+                best = { symbol: unpriced.symbol, price: depthUsd / unpriced.reserve, depthUsd };
+            }
+        }
+
+        if (!best) return prices;
+        prices.set(best.symbol, best.price);
+    }
+}
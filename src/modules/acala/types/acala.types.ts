@@ -0,0 +1,108 @@
+/**
+ * Acala on-chain types and configuration.
+ *
+ * Source: Acala parachain storage via @polkadot/api (dex, incentives, homa,
+ * acalaOracle, assetRegistry pallets). Balances are raw integers — divide by
+ * 10^decimals. Rates (FixedU128) carry 18 decimals.
+ */
+
+// ─── Currencies ──────────────────────────────────────────────────────────────
+
+/** Resolved CurrencyId: `key` is the canonical JSON of the on-chain enum. */
+export interface AcalaCurrency {
+    key: string;
+    symbol: string;
+    decimals: number;
+}
+
+// ─── Raw DEX Pool ────────────────────────────────────────────────────────────
+
+export interface RawAcalaDexPool {
+    tokens: Array<AcalaCurrency & { reserve: number; priceUsd?: number }>;
+    /** Incentive rewards per year, USD (sum over reward currencies). */
+    rewardsPerYearUsd: number;
+    rewards: Array<{ symbol: string; perYear: number }>;
+}
+
+// ─── Raw Homa (liquid staking) ───────────────────────────────────────────────
+
+export interface RawAcalaHoma {
+    /** Liquid token symbol, e.g. LDOT. */
+    liquidSymbol: string;
+    /** Staking token symbol, e.g. DOT. */
+    stakingSymbol: string;
+    /** Staking tokens bonded on the relay chain + waiting in the bond pool. */
+    totalStaked: number;
+    /** LDOT issuance + void liquid. */
+    liquidIssuance: number;
+    /** Staking tokens per liquid token. */
+    exchangeRate: number;
+    /** Estimated reward rate per era, before commission (fraction). */
+    rewardRatePerEra: number;
+    /** Homa commission on rewards (fraction). */
+    commissionRate: number;
+    /** Unbonding period in eras. */
+    bondingDuration?: number;
+    stakingPriceUsd?: number;
+}
+
+// ─── Raw Euphrates pool ──────────────────────────────────────────────────────
+
+export interface RawEuphratesPool {
+    poolId: number;
+    /** Token staked into the pool, e.g. DOT or LCDOT. */
+    shareSymbol: string;
+    /** Token the stake is converted into and held as, e.g. LDOT or TDOT. */
+    convertedSymbol?: string;
+    /** Staked amount, in share tokens. */
+    totalShares: number;
+    sharePriceUsd?: number;
+    /** Active incentive streams, whole tokens per year. */
+    rewards: Array<{ symbol: string; perYear: number; priceUsd?: number }>;
+    rewardsPerYearUsd: number;
+    /** Yield of the held token itself (Homa APY for LDOT), percent. */
+    underlyingApy?: number;
+}
+
+export type AcalaEuphratesConfig = {
+    /** Acala EVM+ JSON-RPC (eth_call). */
+    evmRpcUrl?: string;
+    /** Euphrates staking contract. */
+    contract?: string;
+};
+
+// ─── Config ──────────────────────────────────────────────────────────────────
+
+/** Fallback when `acala.acala.*.rpcEndpoints` is not configured. */
+export const ACALA_RPC_ENDPOINTS = [
+    'wss://acala-rpc.aca-api.network',
+    'wss://acala-rpc.dwellir.com',
+    'wss://acala-polkadot.api.onfinality.io/public-ws',
+];
+
+/** Acala produces a block every 12 seconds. */
+export const ACALA_BLOCK_TIME_SECONDS = 12;
+
+/** Polkadot eras last 24 hours. */
+export const POLKADOT_ERAS_PER_DAY = 1;
+
+/** Decimals of native `Token` currencies (no registry entry on chain). */
+export const ACALA_TOKEN_DECIMALS: Record<string, number> = {
+    ACA: 12,
+    AUSD: 12,
+    DOT: 10,
+    LDOT: 10,
+    TAP: 12,
+};
+
+/** Default stablecoins priced at $1 when no oracle price exists. */
+export const ACALA_DEFAULT_STABLES = ['AUSD', 'USDT', 'USDC'];
+
+/** Fallback when `acala.acala.farming.evmRpcUrl` is not configured. */
+export const ACALA_EVM_RPC_URL = 'https://eth-rpc-acala.aca-api.network';
+
+/** Euphrates (UpgradeableStakingLSTV2) on Acala EVM+. */
+export const EUPHRATES_CONTRACT = '0x7Fe92EC600F15cD25253b421bc151c51b0276b7D';
+
+/** Euphrates share/converted tokens that track DOT 1:1 (priced at DOT). */
+export const ACALA_DOT_EQUIVALENTS = ['DOT', 'LCDOT', 'TDOT'];
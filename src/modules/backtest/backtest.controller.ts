@@ -0,0 +1,49 @@
+import { Body, Controller, Logger, Post, UsePipes, ValidationPipe } from '@nestjs/common';
+import { BacktestService } from './backtest.service';
+import { MonteCarloService } from './monte-carlo.service';
+import { SimulateDto } from './dto/simulate.dto';
+import { MonteCarloDto } from './dto/monte-carlo.dto';
+
+@Controller('backtest')
+@UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+export class BacktestController {
+    private readonly logger = new Logger(BacktestController.name);
+
+    constructor(
+        private readonly backtestService: BacktestService,
+        private readonly monteCarloService: MonteCarloService,
+    ) { }
+
+    /**
+     * POST /backtest/simulate
+     *
+     * Replays a weighted allocation over the stored daily snapshots and returns
+     * the daily equity curve plus final value, total return, annualized APY,
+     * max drawdown and Sharpe ratio.
+     *
+     * Body: { initialCapital, from, to, allocations: [{ protocol, network, poolType, assetSymbol, weight }] }
+     */
+    @Post('simulate')
+    async simulate(@Body() dto: SimulateDto) {
+        this.logger.log(`POST /backtest/simulate — ${dto.allocations.length} allocations`);
+        const data = await this.backtestService.simulate(dto);
+        return { success: true, data };
+    }
+
+    /**
+     * POST /backtest/monte-carlo
+     *
+     * Projects a buy-and-hold allocation `horizonDays` forward over `paths`
+     * APY paths drawn from stored history, and returns P5/P50/P95 bands for
+     * the final value, total return and max drawdown. Results are
+     * reproducible via the returned `seed`.
+     *
+     * Body: { initialCapital, allocations, horizonDays?, paths?, method?, blockSize?, lookbackDays?, seed? }
+     */
+    @Post('monte-carlo')
+    async monteCarlo(@Body() dto: MonteCarloDto) {
+        this.logger.log(`POST /backtest/monte-carlo — ${dto.allocations.length} allocations`);
+        const data = await this.monteCarloService.run(dto);
+        return { success: true, data };
+    }
+}
@@ -0,0 +1,45 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { BacktestService } from './backtest.service';
+import { BacktestController } from './backtest.controller';
+import { SnapshotSeriesService } from './snapshot-series.service';
+import { StrategiesService } from './strategies.service';
+import { MonteCarloService } from './monte-carlo.service';
+import { VTokenExitService } from './vtoken-exit.service';
+import { StrategiesController } from './strategies.controller';
+import { SimulationsService } from './simulations.service';
+import { SimulationsController } from './simulations.controller';
+import { Strategy } from './entities/strategy.entity';
+import { Simulation } from './entities/simulation.entity';
+import { PoolsModule } from '../pools/pools.module';
+import { HydrationModule } from '../hydration/hydration.module';
+import { XcmModule } from '../xcm/xcm.module';
+import { HydrationSnapshot } from '../../shared/entities/protocol-snapshot.entity';
+
+/**
+ * BacktestModule — replays stored daily snapshots to simulate strategies.
+ *
+ * Also projects them forward with Monte Carlo runs over the stored APY
+ * history. Reads every registered protocol snapshot collection (via
+ * ProtocolRegistryService); saved strategies live in the `strategies`
+ * collection and every simulation run in `simulations`.
+ */
+@Module({
+    imports: [
+        TypeOrmModule.forFeature([HydrationSnapshot, Strategy, Simulation]),
+        PoolsModule,
+        HydrationModule,  // IL and swap-cost models for DEX legs
+        XcmModule,        // XcmFeeService for cross-network transfers
+    ],
+    controllers: [BacktestController, StrategiesController, SimulationsController],
+    providers: [
+        BacktestService,
+        SnapshotSeriesService,
+        StrategiesService,
+        SimulationsService,
+        MonteCarloService,
+        VTokenExitService,
+    ],
+    exports: [BacktestService, StrategiesService],
+})
+export class BacktestModule { }
@@ -0,0 +1,185 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { SnapshotSeriesService } from './snapshot-series.service';
+import { SimulationsService } from './simulations.service';
+import { VTokenExitService } from './vtoken-exit.service';
+import { ImpermanentLossService } from '../hydration/impermanent-loss.service';
+import { XcmFeeService } from '../xcm/xcm-fee.service';
+import { XcmTransferQuote } from '../xcm/types/xcm.types';
+import { SwapCostService } from '../hydration/swap-cost.service';
+import { PoolLiquidity, estimateSwapCost } from '../hydration/helpers/swap-cost';
+import {
+    AllocationLeg,
+    LegEntryCost,
+    SimulationInput,
+    SimulationParams,
+    SimulationResult,
+    SwitchingCostFn,
+} from './types/backtest.types';
+import { Strategy } from './entities/strategy.entity';
+import { replayAllocations } from './helpers/simulator';
+import { resolvePolicy } from './helpers/rebalance';
+import { hashDataset } from './helpers/dataset-hash';
+import { maxLockedCapital } from './helpers/vtoken-exit';
+import { toAllocationLegs, transferAssetOf } from './helpers/allocations';
+import { computeMetrics } from './helpers/performance-metrics';
+import { enumerateDateKeys, getUtcDateKey } from '../../shared/utils/date.util';
+import { Protocol, PoolType } from '../../shared/entities/protocol-snapshot.entity';
+
+@Injectable()
+export class BacktestService {
+    private readonly logger = new Logger(BacktestService.name);
+
+    constructor(
+        private readonly seriesService: SnapshotSeriesService,
+        private readonly impermanentLossService: ImpermanentLossService,
+        private readonly xcmFeeService: XcmFeeService,
+        private readonly swapCostService: SwapCostService,
+        private readonly simulationsService: SimulationsService,
+        private readonly vTokenExitService: VTokenExitService,
+    ) { }
+
+    /**
+     * Replays a weighted allocation over the stored daily snapshots between
+     * `from` and `to`, compounding each leg daily at its effective APY and
+     * rebalancing according to `dto.rebalance`. Every run is stored (see
+     * SimulationsService) and its id returned as `simulationId`.
+     */
+    async simulate(dto: SimulationParams): Promise<SimulationResult> {
+        return this.run(dto);
+    }
+
+    /** Re-runs a saved strategy's allocations over a new date range. */
+    async simulateStrategy(
+        strategy: Strategy,
+        params: Omit<SimulationParams, 'allocations'>,
+    ): Promise<SimulationResult> {
+        return this.run({ ...params, allocations: strategy.allocations }, strategy._id?.toHexString());
+    }
+
+    private async run(dto: SimulationParams, strategyId?: string): Promise<SimulationResult> {
+        this.validateRange(dto.from, dto.to);
+        const legs = toAllocationLegs(dto.allocations);
+
+        const startDate = getUtcDateKey(dto.from);
+        const endDate = getUtcDateKey(dto.to);
+        const dates = enumerateDateKeys(dto.from, dto.to);
+
+        this.logger.log(`🧪 Simulating ${legs.length} legs over ${dates.length} days (${startDate} → ${endDate})`);
+
+        const series = await Promise.all(
+            legs.map(async leg => {
+                const legSeries = await this.seriesService.loadApySeries(leg, startDate, endDate);
+                if (leg.protocol === Protocol.HYDRATION && leg.poolType === PoolType.DEX) {
+                    legSeries.ilByDate = await this.impermanentLossService.getIlByDate(
+                        leg.assetSymbol, startDate, endDate, { network: leg.network },
+                    );
+                }
+                return legSeries;
+            }),
+        );
+
+        const transfers = this.planEntryTransfers(legs, dto.initialCapital, dto.sourceNetwork);
+        const entryCosts: LegEntryCost[] = transfers.map(t => ({
+            feeUsd: t?.feeUsd ?? 0,
+            delayDays: (t?.delayMinutes ?? 0) / (24 * 60),
+        }));
+
+        const rebalancePolicy = resolvePolicy(dto.rebalance);
+        const exitMode = dto.exitMode ?? 'instant';
+        const liquidity = rebalancePolicy.mode !== 'none' || exitMode === 'market'
+            ? await this.swapCostService.loadLiquidity(startDate, endDate)
+            : [];
+        const switchingCost = rebalancePolicy.mode === 'none' ? undefined : this.switchingCostModel(liquidity);
+        const exitCost = await this.vTokenExitService.buildExitCost(legs, exitMode, startDate, endDate, liquidity);
+
+        const { equityCurve, legs: legResults, rebalances, exits } = replayAllocations(
+            series, dates, dto.initialCapital, { entryCosts, rebalance: rebalancePolicy, switchingCost, exitCost },
+        );
+        const switchingCostsTotal = rebalances.reduce((sum, r) => sum + r.costUsd, 0);
+        if (rebalances.length) {
+            this.logger.log(`🔁 ${rebalances.length} rebalances (${rebalancePolicy.mode}), switching costs ${switchingCostsTotal.toFixed(2)}`);
+        }
+
+        const result: SimulationResult = {
+            ...(strategyId && { strategyId }),
+            datasetHash: hashDataset(series),
+            startDate,
+            endDate,
+            days: dates.length,
+            initialCapital: dto.initialCapital,
+            legs: legResults,
+            transfers: transfers.filter((t): t is XcmTransferQuote => t != null),
+            rebalancePolicy,
+            rebalances,
+            exitMode,
+            exits,
+            equityCurve,
+            results: computeMetrics(equityCurve, dto.initialCapital, {
+                impermanentLoss: legResults.reduce((sum, l) => sum + l.impermanentLoss, 0),
+                xcmFeesTotal: legResults.reduce((sum, l) => sum + l.xcmFees, 0),
+                swapFeesTotal: legResults.reduce((sum, l) => sum + l.swapFees, 0),
+                switchingCostsTotal,
+                rebalanceCount: rebalances.length,
+                exitCostsTotal: legResults.reduce((sum, l) => sum + l.exitCosts, 0),
+                maxLockedCapital: maxLockedCapital(exits),
+            }),
+        };
+
+        const input: SimulationInput = {
+            initialCapital: dto.initialCapital,
+            from: startDate,
+            to: endDate,
+            allocations: legs,
+            ...(dto.sourceNetwork && { sourceNetwork: dto.sourceNetwork }),
+            rebalance: rebalancePolicy,
+            exitMode,
+        };
+        result.simulationId = await this.simulationsService.record(input, result);
+        return result;
+    }
+
+    /**
+     * XCM transfer needed to fund each leg from the source network, or null
+     * when the leg already lives there (or no source network was given).
+     */
+    private planEntryTransfers(
+        legs: AllocationLeg[],
+        initialCapital: number,
+        sourceNetwork?: string,
+    ): Array<XcmTransferQuote | null> {
+        return legs.map(leg => {
+            if (!sourceNetwork || leg.network === sourceNetwork) return null;
+            return this.xcmFeeService.quote(
+                sourceNetwork,
+                leg.network,
+                transferAssetOf(leg),
+                initialCapital * leg.weight,
+            );
+        });
+    }
+
+    /**
+     * Cost of moving capital between two legs: an XCM hop when they live on
+     * different networks, plus a DEX swap when the transferred assets differ
+     * (priced from Hydration pool liquidity on that day).
+     */
+    private switchingCostModel(liquidity: PoolLiquidity[]): SwitchingCostFn {
+        return (from, to, amountUsd, date) => {
+            const xcm = from.network !== to.network
+                ? this.xcmFeeService.quote(from.network, to.network, transferAssetOf(to), amountUsd)
+                : null;
+            const swap = estimateSwapCost(liquidity, transferAssetOf(from), transferAssetOf(to), amountUsd, date);
+            return {
+                xcmFeeUsd: xcm?.feeUsd ?? 0,
+                swapFeeUsd: swap.feeUsd,
+                delayDays: (xcm?.delayMinutes ?? 0) / (24 * 60),
+            };
+        };
+    }
+
+    private validateRange(from: Date, to: Date): void {
+        if (from.getTime() > to.getTime()) {
+            throw new BadRequestException('`from` must be on or before `to`');
+        }
+    }
+}
@@ -0,0 +1,65 @@
+import {
+    IsOptional, IsNumber, IsInt, IsIn, IsArray, Min, Max, ArrayMinSize, ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { AllocationDto } from './simulate.dto';
+import { MonteCarloMethod } from '../types/backtest.types';
+
+/** Body of POST /backtest/strategies/:id/monte-carlo — allocations come from the strategy. */
+export class RunMonteCarloDto {
+    @Type(() => Number)
+    @IsNumber()
+    @Min(1)
+    initialCapital: number;
+
+    /** Days of stored history the APY paths are drawn from. */
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(14)
+    @Max(1825)
+    lookbackDays?: number = 365;
+
+    /** Length of each simulated future, in days. */
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    @Max(730)
+    horizonDays?: number = 90;
+
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(10)
+    @Max(10000)
+    paths?: number = 1000;
+
+    /** 'bootstrap' resamples history blocks; 'ar1' fits a mean-reverting model. */
+    @IsOptional()
+    @IsIn(['bootstrap', 'ar1'])
+    method?: MonteCarloMethod = 'bootstrap';
+
+    /** bootstrap only: consecutive history days per resampled block. */
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    @Max(90)
+    blockSize?: number = 7;
+
+    /** Pass the `seed` of an earlier result to reproduce it exactly. */
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(0)
+    seed?: number;
+}
+
+export class MonteCarloDto extends RunMonteCarloDto {
+    @IsArray()
+    @ArrayMinSize(1)
+    @ValidateNested({ each: true })
+    @Type(() => AllocationDto)
+    allocations: AllocationDto[];
+}
@@ -0,0 +1,93 @@
+import {
+    IsOptional, IsString, IsNumber, IsInt, IsIn, IsEnum, IsDate, IsArray, Min, Max, ArrayMinSize, ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { Protocol } from '../../../shared/entities/protocol-snapshot.entity';
+import { ExitMode, RebalanceFrequency, RebalanceMode } from '../types/backtest.types';
+
+export class AllocationDto {
+    @IsEnum(Protocol)
+    protocol: Protocol;
+
+    @IsString()
+    network: string;
+
+    @IsString()
+    poolType: string;
+
+    @IsString()
+    assetSymbol: string;
+
+    @Type(() => Number)
+    @IsNumber()
+    @Min(0)
+    @Max(1)
+    weight: number;
+}
+
+export class RebalancePolicyDto {
+    @IsIn(['none', 'calendar', 'drift', 'chase'])
+    mode: RebalanceMode;
+
+    @IsOptional()
+    @IsIn(['daily', 'weekly', 'monthly'])
+    frequency?: RebalanceFrequency;
+
+    /** drift mode: absolute weight deviation that triggers a rebalance (0.05 = 5 pts). */
+    @IsOptional()
+    @Type(() => Number)
+    @IsNumber()
+    @Min(0)
+    @Max(1)
+    driftThreshold?: number;
+
+    /** chase mode: how many of the best-yielding legs to hold. */
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    topN?: number;
+
+    /** chase mode: minimum APY gain (percentage points) worth switching for. */
+    @IsOptional()
+    @Type(() => Number)
+    @IsNumber()
+    @Min(0)
+    minApyImprovement?: number;
+}
+
+export class SimulateDto {
+    @Type(() => Number)
+    @IsNumber()
+    @Min(1)
+    initialCapital: number;
+
+    @Type(() => Date)
+    @IsDate()
+    from: Date;
+
+    @Type(() => Date)
+    @IsDate()
+    to: Date;
+
+    @IsArray()
+    @ArrayMinSize(1)
+    @ValidateNested({ each: true })
+    @Type(() => AllocationDto)
+    allocations: AllocationDto[];
+
+    /** Network the capital starts on, e.g. "polkadot". Omit to skip entry XCM fees. */
+    @IsOptional()
+    @IsString()
+    sourceNetwork?: string;
+
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => RebalancePolicyDto)
+    rebalance?: RebalancePolicyDto;
+
+    /** How vStaking legs are exited: 'instant' (default), 'redeem' or 'market'. */
+    @IsOptional()
+    @IsIn(['instant', 'redeem', 'market'])
+    exitMode?: ExitMode;
+}
@@ -0,0 +1,27 @@
+import { IsOptional, IsString, IsInt, IsArray, Min, Max, ArrayMinSize, ArrayMaxSize } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+
+export class SimulationQueryDto {
+    @IsOptional()
+    @IsString()
+    strategyId?: string;
+
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    @Max(200)
+    limit?: number = 50;
+}
+
+export class CompareSimulationsDto {
+    /** Comma-separated simulation ids: ?ids=a,b,c */
+    @Transform(({ value }) => (Array.isArray(value) ? value : String(value).split(','))
+        .map((id: string) => id.trim())
+        .filter(Boolean))
+    @IsArray()
+    @IsString({ each: true })
+    @ArrayMinSize(2)
+    @ArrayMaxSize(10)
+    ids: string[];
+}
@@ -0,0 +1,71 @@
+import {
+    IsString, IsOptional, IsIn, IsArray, IsNumber, IsDate, Min, ArrayMinSize, ValidateNested, MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { AllocationDto, RebalancePolicyDto } from './simulate.dto';
+import { ExitMode } from '../types/backtest.types';
+
+export class CreateStrategyDto {
+    @IsString()
+    @MaxLength(120)
+    name: string;
+
+    @IsOptional()
+    @IsString()
+    description?: string;
+
+    @IsArray()
+    @ArrayMinSize(1)
+    @ValidateNested({ each: true })
+    @Type(() => AllocationDto)
+    allocations: AllocationDto[];
+}
+
+export class UpdateStrategyDto {
+    @IsOptional()
+    @IsString()
+    @MaxLength(120)
+    name?: string;
+
+    /** `null` or `""` clears the description. */
+    @IsOptional()
+    @IsString()
+    description?: string | null;
+
+    @IsOptional()
+    @IsArray()
+    @ArrayMinSize(1)
+    @ValidateNested({ each: true })
+    @Type(() => AllocationDto)
+    allocations?: AllocationDto[];
+}
+
+/** Body of POST /backtest/strategies/:id/simulate — allocations come from the strategy. */
+export class RunStrategyDto {
+    @Type(() => Number)
+    @IsNumber()
+    @Min(1)
+    initialCapital: number;
+
+    @Type(() => Date)
+    @IsDate()
+    from: Date;
+
+    @Type(() => Date)
+    @IsDate()
+    to: Date;
+
+    @IsOptional()
+    @IsString()
+    sourceNetwork?: string;
+
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => RebalancePolicyDto)
+    rebalance?: RebalancePolicyDto;
+
+    /** How vStaking legs are exited: 'instant' (default), 'redeem' or 'market'. */
+    @IsOptional()
+    @IsIn(['instant', 'redeem', 'market'])
+    exitMode?: ExitMode;
+}
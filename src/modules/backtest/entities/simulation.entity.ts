@@ -0,0 +1,72 @@
+import { Entity, ObjectIdColumn, Column, CreateDateColumn } from 'typeorm';
+import { ObjectId } from 'mongodb';
+import {
+    EquityPoint,
+    ExitEvent,
+    ExitMode,
+    LegResult,
+    RebalanceEvent,
+    SimulationInput,
+    SimulationMetrics,
+} from '../types/backtest.types';
+import { XcmTransferQuote } from '../../xcm/types/xcm.types';
+
+/**
+ * Simulation — one stored backtest run.
+ *
+ * Stored in the `simulations` MongoDB collection. Keeps the full request, the
+ * daily equity curve and the headline metrics, plus `datasetHash`: a SHA-256
+ * of the APY/IL series the run replayed, so two runs can be told apart when
+ * the underlying snapshots changed between them.
+ */
+@Entity('simulations')
+export class Simulation {
+    @ObjectIdColumn()
+    _id?: ObjectId;
+
+    /** Set when the run came from POST /backtest/strategies/:id/simulate */
+    @Column({ nullable: true })
+    strategyId?: ObjectId;
+
+    @Column('simple-json')
+    input: SimulationInput;
+
+    @Column()
+    startDate: string;    // "YYYY-MM-DD"
+
+    @Column()
+    endDate: string;
+
+    @Column()
+    initialCapital: number;
+
+    @Column()
+    datasetHash: string;
+
+    @Column('simple-json')
+    results: SimulationMetrics;
+
+    @Column('simple-json')
+    legs: LegResult[];
+
+    @Column('simple-json')
+    transfers: XcmTransferQuote[];
+
+    @Column('simple-json')
+    rebalances: RebalanceEvent[];
+
+    /** Unset on runs stored before exits were recorded. */
+    @Column({ nullable: true })
+    exitMode?: ExitMode;
+
+    /** vStaking redemptions and market exits, with the capital each locked. */
+    @Column('simple-json', { nullable: true })
+    exits?: ExitEvent[];
+
+    @Column('simple-json')
+    equityCurve: EquityPoint[];
+
+    /** Automatically set by TypeORM on insert */
+    @CreateDateColumn()
+    createdAt: Date;
+}
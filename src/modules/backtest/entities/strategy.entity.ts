@@ -0,0 +1,36 @@
+import { Entity, ObjectIdColumn, Column, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+import { ObjectId } from 'mongodb';
+import { AllocationLeg } from '../types/backtest.types';
+
+/**
+ * Strategy — a saved, re-runnable portfolio definition.
+ *
+ * Stored in the `strategies` MongoDB collection. Each allocation names a pool
+ * by its snapshot key (protocol, network, poolType, assetSymbol) plus a weight;
+ * weights always sum to 1.
+ */
+@Entity('strategies')
+export class Strategy {
+    @ObjectIdColumn()
+    _id?: ObjectId;
+
+    @Column()
+    name: string;
+
+    @Column({ nullable: true })
+    description?: string;
+
+    /** Distinct networks touched by the allocations, e.g. ['bifrost', 'hydration'] */
+    @Column()
+    chains: string[];
+
+    @Column('simple-json')
+    allocations: AllocationLeg[];
+
+    /** Automatically set by TypeORM on insert */
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @UpdateDateColumn({ nullable: true })
+    updatedAt?: Date;
+}
@@ -0,0 +1,44 @@
+import { BadRequestException } from '@nestjs/common';
+import { AllocationLeg } from '../types/backtest.types';
+import { PoolType } from '../../../shared/entities/protocol-snapshot.entity';
+import { toPoolKey } from '../../../shared/utils/pool-key.util';
+
+/** Tolerance when checking that allocation weights sum to 1. */
+const WEIGHT_SUM_TOLERANCE = 1e-6;
+
+/**
+ * Normalises request allocations to plain `AllocationLeg` objects and checks
+ * that their weights sum to 1 and that no pool appears twice. Throws
+ * BadRequestException otherwise.
+ */
+export function toAllocationLegs(allocations: AllocationLeg[]): AllocationLeg[] {
+    const total = allocations.reduce((sum, a) => sum + a.weight, 0);
+    if (Math.abs(total - 1) > WEIGHT_SUM_TOLERANCE) {
+        throw new BadRequestException(`Allocation weights must sum to 1 (got ${total})`);
+    }
+    const keys = allocations.map(toPoolKey);
+    const duplicates = [...new Set(keys.filter((key, i) => keys.indexOf(key) !== i))];
+    if (duplicates.length) {
+        throw new BadRequestException(`Duplicate pools in allocations: ${duplicates.join(', ')}`);
+    }
+    return allocations.map(a => ({
+        protocol: a.protocol,
+        network: a.network,
+        poolType: a.poolType,
+        assetSymbol: a.assetSymbol,
+        weight: a.weight,
+    }));
+}
+
+/**
+ * The asset that actually crosses chains to fund a leg.
+ *
+ *   vstaking "vDOT"            → "DOT"   (base token is sent, then minted)
+ *   lending  "xcDOT"           → "DOT"
+ *   dex      "USDT/USDC/DAI"   → "USDT"  (first token of the pool)
+ *   other    "vDOT"            → "vDOT"
+ */
+export function transferAssetOf(leg: Pick<AllocationLeg, 'poolType' | 'assetSymbol'>): string {
+    const first = leg.assetSymbol.split(/[/-]/)[0].replace(/^xc/, '');
+    return leg.poolType === PoolType.VSTAKING ? first.replace(/^v(?=[A-Z])/, '') : first;
+}
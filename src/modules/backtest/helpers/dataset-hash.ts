@@ -0,0 +1,23 @@
+import { createHash } from 'crypto';
+import { LegSeries } from '../types/backtest.types';
+import { toPoolKey } from '../../../shared/utils/pool-key.util';
+
+/**
+ * SHA-256 over the exact data a simulation replayed: every leg's pool key
+ * with its APY and IL points in date order. Weights and costs are not part of
+ * it — runs share a hash when they read the same snapshots.
+ */
+export function hashDataset(series: LegSeries[]): string {
+    const sortedEntries = (m?: Map<string, number>) =>
+        m ? [...m.entries()].sort(([a], [b]) => a.localeCompare(b)) : [];
+
+    const canonical = series
+        .map(s => ({
+            pool: toPoolKey(s.leg),
+            apy: sortedEntries(s.apyByDate),
+            il: sortedEntries(s.ilByDate),
+        }))
+        .sort((a, b) => a.pool.localeCompare(b.pool));
+
+    return createHash('sha256').update(JSON.stringify(canonical)).digest('hex');
+}
@@ -0,0 +1,197 @@
+import { covarianceMatrix } from '../../optimizer/helpers/mean-variance';
+import { APY_SANITY_CAP } from '../../../shared/utils/apy.util';
+import { MonteCarloMethod, PercentileBand } from '../types/backtest.types';
+import { Rng, createRng, randomInt, randomNormal } from './random';
+
+const DAYS_PER_YEAR = 365;
+
+/**
+ * Aligned daily history of every leg: row t holds each leg's APY on day t and
+ * the day-over-day change of its IL factor (1 + IL), 1 for non-DEX legs.
+ */
+export interface HistoryMatrix {
+    apy: number[][];
+    ilRatio: number[][];
+}
+
+export interface MonteCarloOptions {
+    weights: number[];
+    initialCapital: number;
+    horizonDays: number;
+    paths: number;
+    seed: number;
+    method: MonteCarloMethod;
+    /** bootstrap only: consecutive history days drawn per block. */
+    blockSize: number;
+}
+
+export interface MonteCarloOutput {
+    finalValues: number[];
+    maxDrawdowns: number[];
+    /** Portfolio value per simulated day, one band per day. */
+    valueBands: PercentileBand[];
+}
+
+/**
+ * Runs `paths` simulated futures of a buy-and-hold allocation.
+ *
+ *   bootstrap → circular block resampling of whole history rows, so
+ *               cross-pool correlation and short-term autocorrelation survive
+ *   ar1       → per-pool mean-reverting AR(1) fitted to the APY history,
+ *               with correlated shocks (Cholesky of residual covariance);
+ *               IL factor changes are still resampled from history
+ *
+ * Each day a leg compounds at APY / 365 and is marked by its IL factor
+ * (capped at 1 — an LP position never beats holding).
+ */
+export function runMonteCarlo(history: HistoryMatrix, opts: MonteCarloOptions): MonteCarloOutput {
+    const rng = createRng(opts.seed);
+    const n = opts.weights.length;
+    const newPath = opts.method === 'ar1'
+        ? ar1Sampler(history, rng)
+        : bootstrapSampler(history, rng, opts.blockSize);
+
+    const finalValues: number[] = [];
+    const maxDrawdowns: number[] = [];
+    const valuesByDay: number[][] = Array.from({ length: opts.horizonDays }, () => []);
+
+    for (let p = 0; p < opts.paths; p++) {
+        const values = opts.weights.map(w => opts.initialCapital * w);
+        const ilFactor = new Array<number>(n).fill(1);
+        const nextRow = newPath();
+        let peak = opts.initialCapital;
+        let worst = 0;
+        let total = opts.initialCapital;
+
+        for (let day = 0; day < opts.horizonDays; day++) {
+            const row = nextRow();
+            total = 0;
+            for (let i = 0; i < n; i++) {
+                values[i] *= 1 + row.apy[i] / 100 / DAYS_PER_YEAR;
+                ilFactor[i] = Math.min(1, ilFactor[i] * row.ilRatio[i]);
+                total += values[i] * ilFactor[i];
+            }
+            valuesByDay[day].push(total);
+            peak = Math.max(peak, total);
+            worst = Math.max(worst, peak > 0 ? (peak - total) / peak : 0);
+        }
+
+        finalValues.push(total);
+        maxDrawdowns.push(worst * 100);
+    }
+
+    return {
+        finalValues,
+        maxDrawdowns,
+        valueBands: valuesByDay.map(percentileBand),
+    };
+}
+
+// ─── Statistics ───────────────────────────────────────────────────────────────
+
+/** Linear-interpolated percentile (p in 0..100) of an unsorted sample. */
+export function percentile(sample: number[], p: number): number {
+    if (!sample.length) return 0;
+    const sorted = [...sample].sort((a, b) => a - b);
+    const rank = (p / 100) * (sorted.length - 1);
+    const lo = Math.floor(rank);
+    const hi = Math.ceil(rank);
+    return sorted[lo] + (sorted[hi] - sorted[lo]) * (rank - lo);
+}
+
+export function percentileBand(sample: number[]): PercentileBand {
+    return {
+        p5: percentile(sample, 5),
+        p50: percentile(sample, 50),
+        p95: percentile(sample, 95),
+        mean: sample.reduce((s, v) => s + v, 0) / Math.max(1, sample.length),
+    };
+}
+
+// ─── Samplers ─────────────────────────────────────────────────────────────────
+
+interface Row {
+    apy: number[];
+    ilRatio: number[];
+}
+
+/** Starts a new path; the returned function yields that path's next day. */
+type PathSampler = () => () => Row;
+
+function bootstrapSampler(history: HistoryMatrix, rng: Rng, blockSize: number): PathSampler {
+    const t = history.apy.length;
+    return () => {
+        let cursor = 0;
+        let left = 0;
+        return () => {
+            if (left <= 0) {
+                cursor = randomInt(rng, t);
+                left = blockSize;
+            }
+            const index = cursor % t;
+            cursor++;
+            left--;
+            return { apy: history.apy[index], ilRatio: history.ilRatio[index] };
+        };
+    };
+}
+
+function ar1Sampler(history: HistoryMatrix, rng: Rng): PathSampler {
+    const rows = history.apy;
+    const t = rows.length;
+    const n = rows[0]?.length ?? 0;
+
+    const mean = Array.from({ length: n }, (_, i) => rows.reduce((s, r) => s + r[i], 0) / t);
+    const phi = Array.from({ length: n }, (_, i) => {
+        let num = 0;
+        let den = 0;
+        for (let k = 1; k < t; k++) {
+            num += (rows[k][i] - mean[i]) * (rows[k - 1][i] - mean[i]);
+            den += (rows[k - 1][i] - mean[i]) ** 2;
+        }
+        return den > 0 ? Math.min(0.99, Math.max(0, num / den)) : 0;
+    });
+    const residuals = rows.slice(1).map((r, k) =>
+        r.map((v, i) => v - mean[i] - phi[i] * (rows[k][i] - mean[i])),
+    );
+    const chol = cholesky(residuals.length > 1 ? covarianceMatrix(residuals) : zeros(n));
+    const last = rows[t - 1];
+
+    return () => {
+        let apy = [...last];
+        return () => {
+            const z = Array.from({ length: n }, () => randomNormal(rng));
+            apy = apy.map((prev, i) => {
+                const shock = chol[i].reduce((s, c, j) => s + c * z[j], 0);
+                const next = mean[i] + phi[i] * (prev - mean[i]) + shock;
+                return Math.min(APY_SANITY_CAP, Math.max(0, next));
+            });
+            return { apy, ilRatio: history.ilRatio[randomInt(rng, t)] };
+        };
+    };
+}
+
+function zeros(n: number): number[][] {
+    return Array.from({ length: n }, () => new Array<number>(n).fill(0));
+}
+
+/**
+ * Lower-triangular L with L·Lᵀ = cov. Non-positive pivots (constant or
+ * perfectly collinear series) are treated as zero variance.
+ */
+function cholesky(cov: number[][]): number[][] {
+    const n = cov.length;
+    const l = zeros(n);
+    for (let i = 0; i < n; i++) {
+        for (let j = 0; j <= i; j++) {
+            let sum = cov[i][j];
+            for (let k = 0; k < j; k++) sum -= l[i][k] * l[j][k];
+            if (i === j) {
+                l[i][j] = sum > 1e-12 ? Math.sqrt(sum) : 0;
+            } else {
+                l[i][j] = l[j][j] > 0 ? sum / l[j][j] : 0;
+            }
+        }
+    }
+    return l;
+}
@@ -0,0 +1,66 @@
+import { EquityPoint, SimulationCosts, SimulationMetrics } from '../types/backtest.types';
+
+const DAYS_PER_YEAR = 365;
+
+function round(value: number, decimals = 4): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+}
+
+/**
+ * Largest peak-to-trough decline of the equity curve, in percent (positive).
+ * The initial capital counts as the first peak.
+ */
+export function maxDrawdown(curve: EquityPoint[], initialCapital: number): number {
+    let peak = initialCapital;
+    let worst = 0;
+    for (const point of curve) {
+        if (point.value > peak) peak = point.value;
+        const drawdown = peak > 0 ? (peak - point.value) / peak : 0;
+        if (drawdown > worst) worst = drawdown;
+    }
+    return worst * 100;
+}
+
+/**
+ * Annualized Sharpe ratio of daily returns with a 0% risk-free rate.
+ * Returns null when the returns have no variance (ratio is undefined).
+ */
+export function sharpeRatio(curve: EquityPoint[]): number | null {
+    if (curve.length < 2) return null;
+    const returns = curve.map(p => p.dailyReturn / 100);
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+    const stdDev = Math.sqrt(variance);
+    if (stdDev === 0) return null;
+    return (mean / stdDev) * Math.sqrt(DAYS_PER_YEAR);
+}
+
+/** Headline metrics for a finished run — the `results` block of a Simulation. */
+export function computeMetrics(
+    curve: EquityPoint[],
+    initialCapital: number,
+    costs: SimulationCosts,
+): SimulationMetrics {
+    const finalValue = curve.length ? curve[curve.length - 1].value : initialCapital;
+    const growth = finalValue / initialCapital;
+    const annualizedApy = curve.length
+        ? (Math.pow(growth, DAYS_PER_YEAR / curve.length) - 1) * 100
+        : 0;
+    const sharpe = sharpeRatio(curve);
+
+    return {
+        finalValue: round(finalValue, 2),
+        totalReturn: round((growth - 1) * 100),
+        annualizedApy: round(annualizedApy),
+        maxDrawdown: round(maxDrawdown(curve, initialCapital)),
+        sharpeRatio: sharpe != null ? round(sharpe) : null,
+        impermanentLoss: round(costs.impermanentLoss, 2),
+        xcmFeesTotal: round(costs.xcmFeesTotal, 2),
+        swapFeesTotal: round(costs.swapFeesTotal, 2),
+        switchingCostsTotal: round(costs.switchingCostsTotal, 2),
+        rebalanceCount: costs.rebalanceCount,
+        exitCostsTotal: round(costs.exitCostsTotal, 2),
+        maxLockedCapital: round(costs.maxLockedCapital, 2),
+    };
+}
@@ -0,0 +1,30 @@
+/**
+ * Seeded pseudo-random numbers for reproducible simulations.
+ * Mulberry32: 32-bit state, fast, good enough for Monte Carlo resampling.
+ */
+
+export type Rng = () => number;
+
+/** Uniform [0, 1) generator; the same seed always yields the same sequence. */
+export function createRng(seed: number): Rng {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/** Uniform integer in [0, max). */
+export function randomInt(rng: Rng, max: number): number {
+    return Math.floor(rng() * max);
+}
+
+/** Standard normal draw (Box–Muller). */
+export function randomNormal(rng: Rng): number {
+    const u = 1 - rng(); // (0, 1] so log() is finite
+    const v = rng();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
@@ -0,0 +1,200 @@
+import {
+    AllocationLeg,
+    ExitCostFn,
+    ExitEvent,
+    RebalanceFrequency,
+    RebalanceMode,
+    RebalancePolicy,
+    RebalanceTrade,
+    SwitchingCostFn,
+} from '../types/backtest.types';
+import { toPoolKey } from '../../../shared/utils/pool-key.util';
+import { addDays } from './vtoken-exit';
+
+const DAYS_PER_YEAR = 365;
+
+export const DEFAULT_DRIFT_THRESHOLD = 0.05;
+export const DEFAULT_CHASE_TOP_N = 1;
+
+const DEFAULT_FREQUENCY: Record<RebalanceMode, RebalanceFrequency> = {
+    none: 'monthly',
+    calendar: 'monthly',
+    drift: 'daily',
+    chase: 'weekly',
+};
+
+/** Trades smaller than this are not worth executing. */
+const MIN_TRADE_USD = 0.01;
+
+export interface RebalanceDecision {
+    target: number[];     // target weight per leg, sums to 1
+    reason: string;
+}
+
+/** Policy with every optional field filled in — what the run actually used. */
+export function resolvePolicy(policy?: RebalancePolicy): RebalancePolicy {
+    const mode = policy?.mode ?? 'none';
+    if (mode === 'none') return { mode };
+    return {
+        mode,
+        frequency: policy?.frequency ?? DEFAULT_FREQUENCY[mode],
+        ...(mode === 'drift' && { driftThreshold: policy?.driftThreshold ?? DEFAULT_DRIFT_THRESHOLD }),
+        ...(mode === 'chase' && {
+            topN: policy?.topN ?? DEFAULT_CHASE_TOP_N,
+            minApyImprovement: policy?.minApyImprovement ?? 0,
+        }),
+    };
+}
+
+/** Weekly runs on UTC Mondays, monthly on the 1st. */
+export function isScheduledDay(date: string, frequency: RebalanceFrequency): boolean {
+    switch (frequency) {
+        case 'daily': return true;
+        case 'weekly': return new Date(`${date}T00:00:00Z`).getUTCDay() === 1;
+        case 'monthly': return date.endsWith('-01');
+    }
+}
+
+/**
+ * Whether the policy rebalances on `date`, and to which weights.
+ * `apys` holds each leg's current APY (undefined before its first snapshot).
+ */
+export function decideRebalance(
+    policy: RebalancePolicy,
+    date: string,
+    baseWeights: number[],
+    currentWeights: number[],
+    apys: Array<number | undefined>,
+): RebalanceDecision | null {
+    const frequency = policy.frequency ?? DEFAULT_FREQUENCY[policy.mode];
+
+    switch (policy.mode) {
+        case 'none':
+            return null;
+
+        case 'calendar':
+            return isScheduledDay(date, frequency)
+                ? { target: baseWeights, reason: `calendar (${frequency})` }
+                : null;
+
+        case 'drift': {
+            if (!isScheduledDay(date, frequency)) return null;
+            const threshold = policy.driftThreshold ?? DEFAULT_DRIFT_THRESHOLD;
+            const drift = Math.max(...currentWeights.map((w, i) => Math.abs(w - baseWeights[i])));
+            return drift > threshold
+                ? { target: baseWeights, reason: `drift ${(drift * 100).toFixed(2)}% > ${(threshold * 100).toFixed(2)}%` }
+                : null;
+        }
+
+        case 'chase': {
+            if (!isScheduledDay(date, frequency)) return null;
+            const ranked = apys
+                .map((apy, i) => ({ apy, i }))
+                .filter((x): x is { apy: number; i: number } => x.apy != null)
+                .sort((a, b) => b.apy - a.apy);
+            const top = ranked.slice(0, policy.topN ?? DEFAULT_CHASE_TOP_N);
+            if (!top.length) return null;
+
+            const held = currentWeights
+                .map((w, i) => ({ w, i }))
+                .filter(x => x.w > 1e-6);
+            const topSet = new Set(top.map(x => x.i));
+            if (held.length === topSet.size && held.every(x => topSet.has(x.i))) return null;
+
+            const heldApy = held.reduce((sum, x) => sum + x.w * (apys[x.i] ?? 0), 0);
+            const topApy = top.reduce((sum, x) => sum + x.apy, 0) / top.length;
+            const improvement = topApy - heldApy;
+            if (improvement < (policy.minApyImprovement ?? 0)) return null;
+
+            return {
+                target: baseWeights.map((_, i) => (topSet.has(i) ? 1 / top.length : 0)),
+                reason: `chase top ${top.length} (+${improvement.toFixed(2)} APY pts)`,
+            };
+        }
+    }
+}
+
+export interface TradeExecution {
+    trades: RebalanceTrade[];
+    /** Values per leg after trades and costs. */
+    values: number[];
+    xcmFees: number[];
+    swapFees: number[];
+    exitCosts: number[];
+    exits: ExitEvent[];
+}
+
+/**
+ * Moves value from legs above target to legs below it, largest gaps first.
+ * Each trade pays the switching cost (XCM + swap) and, for vStaking sellers,
+ * the exit cost out of the moved amount, plus the destination's yield
+ * forgone while the capital is in transit or unbonding.
+ */
+export function executeTrades(
+    legs: AllocationLeg[],
+    values: number[],
+    target: number[],
+    apys: Array<number | undefined>,
+    date: string,
+    switchingCost?: SwitchingCostFn,
+    exitCost?: ExitCostFn,
+): TradeExecution {
+    const total = values.reduce((sum, v) => sum + v, 0);
+    const gaps = values.map((v, i) => target[i] * total - v);
+    const sellers = gaps.map((g, i) => i).filter(i => gaps[i] < -MIN_TRADE_USD).sort((a, b) => gaps[a] - gaps[b]);
+    const buyers = gaps.map((g, i) => i).filter(i => gaps[i] > MIN_TRADE_USD).sort((a, b) => gaps[b] - gaps[a]);
+
+    const after = [...values];
+    const xcmFees = values.map(() => 0);
+    const swapFees = values.map(() => 0);
+    const exitCosts = values.map(() => 0);
+    const trades: RebalanceTrade[] = [];
+    const exits: ExitEvent[] = [];
+
+    let s = 0;
+    let b = 0;
+    while (s < sellers.length && b < buyers.length) {
+        const from = sellers[s];
+        const to = buyers[b];
+        const amount = Math.min(-gaps[from], gaps[to]);
+        gaps[from] += amount;
+        gaps[to] -= amount;
+        if (gaps[from] >= -MIN_TRADE_USD) s++;
+        if (gaps[to] <= MIN_TRADE_USD) b++;
+        if (amount < MIN_TRADE_USD) continue;
+
+        const cost = switchingCost?.(legs[from], legs[to], amount, date)
+            ?? { xcmFeeUsd: 0, swapFeeUsd: 0, delayDays: 0 };
+        const exit = exitCost?.(legs[from], amount, date) ?? null;
+        const exitCostUsd = exit?.costUsd ?? 0;
+        const net = Math.max(0, amount - cost.xcmFeeUsd - cost.swapFeeUsd - exitCostUsd);
+        const delayDays = cost.delayDays + (exit?.lockedDays ?? 0);
+        const idleCost = net * ((apys[to] ?? 0) / 100 / DAYS_PER_YEAR) * delayDays;
+
+        after[from] -= amount;
+        after[to] += net - idleCost;
+        xcmFees[to] += cost.xcmFeeUsd;
+        swapFees[to] += cost.swapFeeUsd;
+        exitCosts[from] += exitCostUsd;
+        if (exit) {
+            exits.push({
+                ...exit,
+                date,
+                pool: toPoolKey(legs[from]),
+                reason: 'rebalance',
+                availableDate: addDays(date, Math.ceil(exit.lockedDays)),
+            });
+        }
+        trades.push({
+            from: toPoolKey(legs[from]),
+            to: toPoolKey(legs[to]),
+            amountUsd: amount,
+            xcmFeeUsd: cost.xcmFeeUsd,
+            swapFeeUsd: cost.swapFeeUsd,
+            exitCostUsd,
+            idleCostUsd: idleCost,
+        });
+    }
+
+    return { trades, values: after, xcmFees, swapFees, exitCosts, exits };
+}
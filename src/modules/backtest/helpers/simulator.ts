@@ -0,0 +1,188 @@
+import {
+    EquityPoint,
+    ExitCostFn,
+    ExitEvent,
+    LegEntryCost,
+    LegResult,
+    LegSeries,
+    RebalanceEvent,
+    RebalancePolicy,
+    SwitchingCostFn,
+} from '../types/backtest.types';
+import { toPoolKey } from '../../../shared/utils/pool-key.util';
+import { decideRebalance, executeTrades } from './rebalance';
+import { addDays } from './vtoken-exit';
+
+const DAYS_PER_YEAR = 365;
+
+export interface ReplayOptions {
+    /** Per-leg transfer fee and delay paid before the leg starts earning. */
+    entryCosts?: LegEntryCost[];
+    /** Defaults to buy-and-hold. */
+    rebalance?: RebalancePolicy;
+    /** Prices trades between legs. Without it rebalancing is free. */
+    switchingCost?: SwitchingCostFn;
+    /** Prices leaving vStaking legs. Without it every position exits instantly at par. */
+    exitCost?: ExitCostFn;
+}
+
+export interface ReplayOutput {
+    equityCurve: EquityPoint[];
+    legs: LegResult[];
+    rebalances: RebalanceEvent[];
+    exits: ExitEvent[];
+}
+
+const round = (v: number, decimals = 4) => Math.round(v * 10 ** decimals) / 10 ** decimals;
+
+/**
+ * Replays an allocation over a daily APY series.
+ *
+ * Each leg starts with `initialCapital × weight` and compounds once per day at
+ * that day's APY (APY / 365). Days without a snapshot reuse the last known APY;
+ * days before the first snapshot in range accrue nothing.
+ *
+ * DEX legs with an `ilByDate` series are marked to market as
+ * accrued × (1 + IL), with IL carried forward across missing days.
+ *
+ * `entryCosts[i]` deducts leg i's transfer fee up front and delays its first
+ * accrual by the transfer time (partial days accrue pro rata).
+ *
+ * With a rebalance policy the portfolio is checked at the end of every day
+ * except the first and last. A rebalance realises each DEX leg's IL to date
+ * (later IL is measured from the new entry) and moves value between legs via
+ * `executeTrades`, paying the switching costs out of the moved capital.
+ *
+ * With `exitCost`, every position is exited on the last day: market exits
+ * reduce the final value, redemptions keep it at par but lock the capital
+ * past the end of the run (see the returned `exits`).
+ */
+export function replayAllocations(
+    series: LegSeries[],
+    dates: string[],
+    initialCapital: number,
+    options: ReplayOptions = {},
+): ReplayOutput {
+    const { entryCosts = [], rebalance, switchingCost, exitCost } = options;
+    const legs = series.map(s => s.leg);
+    const baseWeights = legs.map(l => l.weight);
+
+    const entryFees = series.map((_, i) => entryCosts[i]?.feeUsd ?? 0);
+    const delays = series.map((_, i) => entryCosts[i]?.delayDays ?? 0);
+    const values = series.map((s, i) => Math.max(0, initialCapital * s.leg.weight - entryFees[i]));
+    const lastApy: Array<number | undefined> = series.map(() => undefined);
+    const lastIl = series.map(() => 0);
+    const ilAnchor = series.map(() => 0);
+    const realizedIl = series.map(() => 0);
+    const xcmFees = [...entryFees];
+    const swapFees = series.map(() => 0);
+    const exitCosts = series.map(() => 0);
+    const daysWithData = series.map(() => 0);
+    const daysWithoutData = series.map(() => 0);
+
+    // Value after IL since the last (re-)entry
+    const marked = (i: number) => values[i] * (1 + lastIl[i]) / (1 + ilAnchor[i]);
+
+    const equityCurve: EquityPoint[] = [];
+    const rebalances: RebalanceEvent[] = [];
+    const exits: ExitEvent[] = [];
+    let previousTotal = initialCapital;
+
+    dates.forEach((date, day) => {
+        series.forEach((s, i) => {
+            const il = s.ilByDate?.get(date);
+            if (il != null) lastIl[i] = il;
+
+            const apy = s.apyByDate.get(date);
+            if (apy != null) {
+                lastApy[i] = apy;
+                daysWithData[i]++;
+            }
+            if (lastApy[i] == null) {
+                daysWithoutData[i]++;
+                return;
+            }
+            const activeFraction = Math.min(1, Math.max(0, day + 1 - delays[i]));
+            values[i] *= 1 + (lastApy[i]! / 100 / DAYS_PER_YEAR) * activeFraction;
+        });
+
+        let current = series.map((_, i) => marked(i));
+        let total = current.reduce((sum, v) => sum + v, 0);
+
+        if (rebalance && day > 0 && day < dates.length - 1 && total > 0) {
+            const weights = current.map(v => v / total);
+            const decision = decideRebalance(rebalance, date, baseWeights, weights, lastApy);
+            if (decision) {
+                const execution = executeTrades(
+                    legs, current, decision.target, lastApy, date, switchingCost, exitCost,
+                );
+                if (execution.trades.length) {
+                    series.forEach((_, i) => {
+                        realizedIl[i] += values[i] - current[i];
+                        values[i] = execution.values[i];
+                        ilAnchor[i] = lastIl[i];
+                        xcmFees[i] += execution.xcmFees[i];
+                        swapFees[i] += execution.swapFees[i];
+                        exitCosts[i] += execution.exitCosts[i];
+                    });
+                    exits.push(...execution.exits);
+
+                    const before = total;
+                    current = execution.values;
+                    total = current.reduce((sum, v) => sum + v, 0);
+                    rebalances.push({
+                        date,
+                        reason: decision.reason,
+                        trades: execution.trades,
+                        costUsd: before - total,
+                        weightsBefore: toWeightMap(series, weights),
+                        weightsAfter: toWeightMap(series, current.map(v => (total > 0 ? v / total : 0))),
+                    });
+                }
+            }
+        }
+
+        if (exitCost && day === dates.length - 1) {
+            series.forEach((s, i) => {
+                if (current[i] <= 0) return;
+                const exit = exitCost(s.leg, current[i], date);
+                if (!exit) return;
+                values[i] *= Math.max(0, current[i] - exit.costUsd) / current[i];
+                exitCosts[i] += exit.costUsd;
+                exits.push({
+                    ...exit,
+                    date,
+                    pool: toPoolKey(s.leg),
+                    reason: 'final',
+                    availableDate: addDays(date, Math.ceil(exit.lockedDays)),
+                });
+            });
+            total = series.reduce((sum, _, i) => sum + marked(i), 0);
+        }
+
+        equityCurve.push({
+            date,
+            value: total,
+            dailyReturn: previousTotal > 0 ? (total / previousTotal - 1) * 100 : 0,
+        });
+        previousTotal = total;
+    });
+
+    const legResults: LegResult[] = series.map((s, i) => ({
+        ...s.leg,
+        initialValue: initialCapital * s.leg.weight,
+        finalValue: marked(i),
+        daysWithData: daysWithData[i],
+        daysWithoutData: daysWithoutData[i],
+        impermanentLoss: realizedIl[i] + values[i] - marked(i),
+        xcmFees: xcmFees[i],
+        swapFees: swapFees[i],
+        exitCosts: exitCosts[i],
+    }));
+
+    return { equityCurve, legs: legResults, rebalances, exits };
+}
+
+function toWeightMap(series: LegSeries[], weights: number[]): Record<string, number> {
+    return Object.fromEntries(series.map((s, i) => [toPoolKey(s.leg), round(weights[i])]));
+}
@@ -0,0 +1,73 @@
+import { ExitEvent } from '../types/backtest.types';
+import { enumerateDateKeys } from '../../../shared/utils/date.util';
+
+const DAYS_PER_YEAR = 365;
+
+/**
+ * Estimated redemption ratio (base tokens per vToken) from the market ratio
+ * alone: a vToken's redemption value only ever grows, at the staking APY,
+ * and the DEX price trades at or below it. So the fair ratio is the upper
+ * envelope of the market ratio accrued forward at the staking APY:
+ *
+ *   fair(t) = max(fair(t−1) · (1 + APY/365), market(t))
+ *
+ * The result assumes the market traded at par at least once in the window;
+ * a longer warm-up window gives a better estimate.
+ */
+export function fairRatioEnvelope(
+    dates: string[],
+    marketRatio: Map<string, number>,
+    apyByDate: Map<string, number>,
+): Map<string, number> {
+    const fair = new Map<string, number>();
+    let current: number | undefined;
+    let apy = 0;
+    for (const date of dates) {
+        apy = apyByDate.get(date) ?? apy;
+        if (current != null) current *= 1 + apy / 100 / DAYS_PER_YEAR;
+        const market = marketRatio.get(date);
+        if (market != null && (current == null || market > current)) current = market;
+        if (current != null) fair.set(date, current);
+    }
+    return fair;
+}
+
+/** Market discount vs fair (fraction ≥ 0) per date with both ratios known. */
+export function marketDiscounts(
+    marketRatio: Map<string, number>,
+    fairRatio: Map<string, number>,
+): Map<string, number> {
+    const discounts = new Map<string, number>();
+    for (const [date, market] of marketRatio) {
+        const fair = fairRatio.get(date);
+        if (fair && fair > 0) discounts.set(date, Math.max(0, 1 - market / fair));
+    }
+    return discounts;
+}
+
+/** "YYYY-MM-DD" + n days. */
+export function addDays(dateKey: string, days: number): string {
+    const d = new Date(`${dateKey}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + days);
+    return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Largest capital locked in exits at any one time: an exit locks its net
+ * proceeds from its date until (excluding) its `availableDate`.
+ */
+export function maxLockedCapital(exits: ExitEvent[]): number {
+    const locking = exits.filter(e => e.availableDate > e.date);
+    if (!locking.length) return 0;
+    const first = locking.reduce((min, e) => (e.date < min ? e.date : min), locking[0].date);
+    const last = locking.reduce((max, e) => (e.availableDate > max ? e.availableDate : max), locking[0].availableDate);
+
+    let peak = 0;
+    for (const day of enumerateDateKeys(new Date(first), new Date(last))) {
+        const locked = locking
+            .filter(e => e.date <= day && day < e.availableDate)
+            .reduce((sum, e) => sum + e.amountUsd - e.costUsd, 0);
+        peak = Math.max(peak, locked);
+    }
+    return peak;
+}
@@ -0,0 +1,164 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { SnapshotSeriesService } from './snapshot-series.service';
+import { ImpermanentLossService } from '../hydration/impermanent-loss.service';
+import { toPoolKey } from '../../shared/utils/pool-key.util';
+import { AllocationLeg, MonteCarloParams, MonteCarloResult, PercentileBand } from './types/backtest.types';
+import { Strategy } from './entities/strategy.entity';
+import { toAllocationLegs } from './helpers/allocations';
+import { HistoryMatrix, percentileBand, runMonteCarlo } from './helpers/monte-carlo';
+import { enumerateDateKeys, getUtcDateKey } from '../../shared/utils/date.util';
+import { Protocol, PoolType } from '../../shared/entities/protocol-snapshot.entity';
+
+/** Fewer overlapping history days than this can't support a distribution. */
+const MIN_HISTORY_DAYS = 14;
+
+const round = (v: number, decimals = 4) => Math.round(v * 10 ** decimals) / 10 ** decimals;
+const roundBand = (b: PercentileBand, decimals = 2): PercentileBand => ({
+    p5: round(b.p5, decimals),
+    p50: round(b.p50, decimals),
+    p95: round(b.p95, decimals),
+    mean: round(b.mean, decimals),
+});
+
+/**
+ * MonteCarloService — projects a buy-and-hold allocation forward by drawing
+ * many APY paths from each pool's stored daily history (see `runMonteCarlo`).
+ */
+@Injectable()
+export class MonteCarloService {
+    private readonly logger = new Logger(MonteCarloService.name);
+
+    constructor(
+        private readonly seriesService: SnapshotSeriesService,
+        private readonly impermanentLossService: ImpermanentLossService,
+    ) { }
+
+    async run(params: MonteCarloParams): Promise<MonteCarloResult> {
+        const legs = toAllocationLegs(params.allocations);
+        const seed = params.seed ?? Math.floor(Math.random() * 2 ** 31);
+        const method = params.method ?? 'bootstrap';
+        const paths = params.paths ?? 1000;
+        const horizonDays = params.horizonDays ?? 90;
+        const blockSize = params.blockSize ?? 7;
+
+        const to = new Date();
+        const from = new Date(to);
+        from.setUTCDate(from.getUTCDate() - (params.lookbackDays ?? 365));
+        const { dates, history, observations } = await this.loadHistory(legs, getUtcDateKey(from), getUtcDateKey(to));
+
+        this.logger.log(
+            `🎲 Monte Carlo: ${legs.length} legs, ${paths} paths × ${horizonDays} days ` +
+            `(${method}, ${dates.length} history days, seed ${seed})`,
+        );
+
+        const output = runMonteCarlo(history, {
+            weights: legs.map(l => l.weight),
+            initialCapital: params.initialCapital,
+            horizonDays,
+            paths,
+            seed,
+            method,
+            blockSize,
+        });
+
+        return {
+            seed,
+            method,
+            ...(method === 'bootstrap' && { blockSize }),
+            paths,
+            horizonDays,
+            initialCapital: params.initialCapital,
+            history: {
+                from: dates[0],
+                to: dates[dates.length - 1],
+                days: dates.length,
+                pools: legs.map((leg, i) => {
+                    const column = history.apy.map(r => r[i]);
+                    const mean = column.reduce((s, v) => s + v, 0) / column.length;
+                    const variance = column.reduce((s, v) => s + (v - mean) ** 2, 0) / Math.max(1, column.length - 1);
+                    return {
+                        pool: toPoolKey(leg),
+                        weight: leg.weight,
+                        observations: observations[i],
+                        meanApy: round(mean),
+                        apyStdDev: round(Math.sqrt(variance)),
+                    };
+                }),
+            },
+            finalValue: roundBand(percentileBand(output.finalValues)),
+            totalReturn: roundBand(percentileBand(
+                output.finalValues.map(v => (v / params.initialCapital - 1) * 100),
+            ), 4),
+            maxDrawdown: roundBand(percentileBand(output.maxDrawdowns), 4),
+            valueBands: output.valueBands.map((band, i) => ({ day: i + 1, ...roundBand(band) })),
+        };
+    }
+
+    /** Runs a saved strategy's allocations. */
+    async runStrategy(
+        strategy: Strategy,
+        params: Omit<MonteCarloParams, 'allocations'>,
+    ): Promise<MonteCarloResult> {
+        const result = await this.run({ ...params, allocations: strategy.allocations });
+        return { strategyId: strategy._id?.toHexString(), ...result };
+    }
+
+    // ─── History ──────────────────────────────────────────────────────────────
+
+    /**
+     * Aligns every leg's APY (and, for Hydration DEX legs, IL) history on a
+     * common daily grid: starts on the latest first-observation date among
+     * the legs and forward-fills gaps.
+     */
+    private async loadHistory(
+        legs: AllocationLeg[],
+        fromKey: string,
+        toKey: string,
+    ): Promise<{ dates: string[]; history: HistoryMatrix; observations: number[] }> {
+        const series = await Promise.all(legs.map(async leg => {
+            const apyByDate = await this.seriesService.loadHistoricalApy(leg, fromKey, toKey);
+            const ilByDate = leg.protocol === Protocol.HYDRATION && leg.poolType === PoolType.DEX
+                ? await this.impermanentLossService.getIlByDate(leg.assetSymbol, fromKey, toKey, { network: leg.network })
+                : new Map<string, number>();
+            return { apyByDate, ilByDate };
+        }));
+
+        const missing = legs.filter((_, i) => series[i].apyByDate.size === 0).map(toPoolKey);
+        if (missing.length) {
+            throw new BadRequestException(`No APY history between ${fromKey} and ${toKey} for: ${missing.join(', ')}`);
+        }
+
+        const start = series.reduce((latest, s) => {
+            const first = [...s.apyByDate.keys()].sort()[0];
+            return first > latest ? first : latest;
+        }, fromKey);
+        const dates = enumerateDateKeys(new Date(start), new Date(toKey));
+        if (dates.length < MIN_HISTORY_DAYS) {
+            throw new BadRequestException(
+                `Only ${dates.length} days of overlapping history (need ${MIN_HISTORY_DAYS}) — widen lookbackDays`,
+            );
+        }
+
+        const lastApy = series.map(s => s.apyByDate.get(start) ?? 0);
+        const lastIlFactor = series.map(() => 1);
+        const history: HistoryMatrix = { apy: [], ilRatio: [] };
+        for (const date of dates) {
+            history.apy.push(series.map((s, i) => {
+                const apy = s.apyByDate.get(date);
+                if (apy != null) lastApy[i] = apy;
+                return lastApy[i];
+            }));
+            history.ilRatio.push(series.map((s, i) => {
+                const il = s.ilByDate.get(date);
+                if (il == null) return 1;
+                const factor = 1 + il;
+                const ratio = lastIlFactor[i] > 0 ? factor / lastIlFactor[i] : 1;
+                lastIlFactor[i] = factor;
+                return ratio;
+            }));
+        }
+
+        const observations = series.map(s => dates.filter(d => s.apyByDate.has(d)).length);
+        return { dates, history, observations };
+    }
+}
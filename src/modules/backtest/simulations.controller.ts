@@ -0,0 +1,43 @@
+import { Controller, Get, Logger, Param, Query, UsePipes, ValidationPipe } from '@nestjs/common';
+import { SimulationsService } from './simulations.service';
+import { CompareSimulationsDto, SimulationQueryDto } from './dto/simulation-query.dto';
+
+@Controller('backtest/simulations')
+@UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+export class SimulationsController {
+    private readonly logger = new Logger(SimulationsController.name);
+
+    constructor(private readonly simulationsService: SimulationsService) { }
+
+    /**
+     * GET /backtest/simulations?strategyId=&limit=
+     *
+     * Stored runs, newest first, without equity curves.
+     */
+    @Get()
+    async findAll(@Query() query: SimulationQueryDto) {
+        this.logger.log(`GET /backtest/simulations — filter: ${JSON.stringify(query)}`);
+        const data = await this.simulationsService.findAll(query);
+        return { success: true, count: data.length, data };
+    }
+
+    /**
+     * GET /backtest/simulations/compare?ids=a,b
+     *
+     * Aligned equity curves and side-by-side metrics of 2–10 stored runs.
+     */
+    @Get('compare')
+    async compare(@Query() query: CompareSimulationsDto) {
+        this.logger.log(`GET /backtest/simulations/compare?ids=${query.ids.join(',')}`);
+        const data = await this.simulationsService.compare(query.ids);
+        return { success: true, data };
+    }
+
+    /** GET /backtest/simulations/:id — the full stored run. */
+    @Get(':id')
+    async findOne(@Param('id') id: string) {
+        this.logger.log(`GET /backtest/simulations/${id}`);
+        const data = await this.simulationsService.findOne(id);
+        return { success: true, data };
+    }
+}
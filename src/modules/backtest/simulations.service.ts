@@ -0,0 +1,125 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { MongoRepository } from 'typeorm';
+import { ObjectId } from 'mongodb';
+import { Simulation } from './entities/simulation.entity';
+import {
+    ComparisonPoint,
+    SimulationComparison,
+    SimulationInput,
+    SimulationResult,
+} from './types/backtest.types';
+
+/** Fields returned by the list endpoint — everything but the heavy arrays. */
+const SUMMARY_FIELDS: Array<keyof Simulation> = [
+    '_id', 'strategyId', 'input', 'startDate', 'endDate', 'initialCapital', 'datasetHash', 'results', 'createdAt',
+];
+
+@Injectable()
+export class SimulationsService {
+    private readonly logger = new Logger(SimulationsService.name);
+
+    constructor(
+        @InjectRepository(Simulation)
+        private readonly repository: MongoRepository<Simulation>,
+    ) { }
+
+    /** Stores a finished run and returns its id. */
+    async record(input: SimulationInput, result: SimulationResult): Promise<string> {
+        const simulation = this.repository.create({
+            strategyId: result.strategyId ? new ObjectId(result.strategyId) : undefined,
+            input,
+            startDate: result.startDate,
+            endDate: result.endDate,
+            initialCapital: result.initialCapital,
+            datasetHash: result.datasetHash,
+            results: result.results,
+            legs: result.legs,
+            transfers: result.transfers,
+            rebalances: result.rebalances,
+            exitMode: result.exitMode,
+            exits: result.exits,
+            equityCurve: result.equityCurve,
+        });
+        const saved = await this.repository.save(simulation);
+        this.logger.log(`💾 Stored simulation ${saved._id} (${result.startDate} → ${result.endDate})`);
+        return saved._id!.toHexString();
+    }
+
+    /** Newest first, without equity curves. */
+    async findAll(filter: { strategyId?: string; limit?: number }): Promise<Simulation[]> {
+        const where: Record<string, unknown> = {};
+        if (filter.strategyId) {
+            if (!ObjectId.isValid(filter.strategyId)) {
+                throw new BadRequestException(`Invalid strategyId "${filter.strategyId}"`);
+            }
+            where.strategyId = new ObjectId(filter.strategyId);
+        }
+        return this.repository.find({
+            where,
+            select: SUMMARY_FIELDS,
+            order: { createdAt: 'DESC' } as any,
+            take: filter.limit ?? 50,
+        });
+    }
+
+    async findOne(id: string): Promise<Simulation> {
+        const simulation = ObjectId.isValid(id)
+            ? await this.repository.findOneBy({ _id: new ObjectId(id) })
+            : null;
+        if (!simulation) {
+            throw new NotFoundException(`Simulation ${id} not found`);
+        }
+        return simulation;
+    }
+
+    /**
+     * Lines up several stored runs: metrics side by side, and equity curves on
+     * the union of their dates. `growth` (value / initial capital) makes runs
+     * with different capital comparable.
+     */
+    async compare(ids: string[]): Promise<SimulationComparison> {
+        const unique = [...new Set(ids)];
+        if (unique.length < 2) {
+            throw new BadRequestException('Provide at least 2 distinct simulation ids');
+        }
+        const runs = await Promise.all(unique.map(id => this.findOne(id)));
+
+        const metricNames = [...new Set(runs.flatMap(r => Object.keys(r.results ?? {})))];
+        const metrics: SimulationComparison['metrics'] = {};
+        for (const name of metricNames) {
+            metrics[name] = Object.fromEntries(runs.map((r, i) => {
+                const value = (r.results as unknown as Record<string, unknown>)[name];
+                return [unique[i], typeof value === 'number' ? value : null];
+            }));
+        }
+
+        const curves = runs.map(r => new Map(r.equityCurve.map(p => [p.date, p.value])));
+        const dates = [...new Set(curves.flatMap(c => [...c.keys()]))].sort();
+        const equityCurves: ComparisonPoint[] = dates.map(date => ({
+            date,
+            values: Object.fromEntries(runs.map((_, i) => [unique[i], curves[i].get(date) ?? null])),
+            growth: Object.fromEntries(runs.map((r, i) => {
+                const value = curves[i].get(date);
+                return [unique[i], value != null ? value / r.initialCapital : null];
+            })),
+        }));
+
+        return {
+            ids: unique,
+            sameDataset: new Set(runs.map(r => r.datasetHash)).size === 1,
+            runs: runs.map((r, i) => ({
+                id: unique[i],
+                strategyId: r.strategyId?.toHexString(),
+                startDate: r.startDate,
+                endDate: r.endDate,
+                initialCapital: r.initialCapital,
+                datasetHash: r.datasetHash,
+                input: r.input,
+                createdAt: r.createdAt,
+            })),
+            metrics,
+            equityCurves,
+        };
+    }
+}
@@ -0,0 +1,85 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { MongoRepository } from 'typeorm';
+import { BaseProtocolSnapshot } from '../../shared/entities/protocol-snapshot.entity';
+import { ProtocolRegistryService } from '../../shared/services/protocol-registry.service';
+import { getEffectiveApy, APY_SANITY_CAP } from '../../shared/utils/apy.util';
+import { getUtcDateKey } from '../../shared/utils/date.util';
+import { AllocationLeg, LegSeries } from './types/backtest.types';
+
+/**
+ * SnapshotSeriesService — reads the stored daily snapshots that the backtest
+ * engine replays. One document per pool per UTC day (keyed by `snapshotDate`).
+ */
+@Injectable()
+export class SnapshotSeriesService {
+    constructor(private readonly registry: ProtocolRegistryService) { }
+
+    /**
+     * Returns the daily snapshots for one pool between two date keys (inclusive),
+     * ordered by snapshotDate ascending.
+     */
+    async findDailySnapshots(
+        pool: Omit<AllocationLeg, 'weight'>,
+        fromKey: string,
+        toKey: string,
+    ): Promise<BaseProtocolSnapshot[]> {
+        const repo = this.repoFor(pool.protocol);
+        return repo.find({
+            where: {
+                protocol: pool.protocol,
+                network: pool.network,
+                poolType: pool.poolType,
+                assetSymbol: pool.assetSymbol,
+                snapshotDate: { $gte: fromKey, $lte: toKey },
+            },
+            order: { snapshotDate: 'ASC' } as any,
+        });
+    }
+
+    /** Builds the capped effective-APY series for a leg. */
+    async loadApySeries(leg: AllocationLeg, fromKey: string, toKey: string): Promise<LegSeries> {
+        const docs = await this.findDailySnapshots(leg, fromKey, toKey);
+        const apyByDate = new Map<string, number>();
+        this.addSnapshotApys(apyByDate, docs);
+        return { leg, apyByDate };
+    }
+
+    /**
+     * Longest daily APY history available for a leg: the crawled
+     * `metadata.history` (Bifrost vStaking / farming keep the full API history
+     * there) overlaid with the `snapshotDate` series, which wins on overlap.
+     */
+    async loadHistoricalApy(leg: AllocationLeg, fromKey: string, toKey: string): Promise<Map<string, number>> {
+        const docs = await this.findDailySnapshots(leg, fromKey, toKey);
+        const apyByDate = new Map<string, number>();
+
+        const latestWithHistory = [...docs].reverse().find(d => Array.isArray(d.metadata?.['history']));
+        const history = (latestWithHistory?.metadata?.['history'] ?? []) as Array<{ date: number; avgApy?: number }>;
+        for (const item of history) {
+            const key = getUtcDateKey(new Date(item.date));
+            const apy = Number(item.avgApy);
+            if (key < fromKey || key > toKey || !Number.isFinite(apy) || apy < 0) continue;
+            apyByDate.set(key, Math.min(apy, APY_SANITY_CAP));
+        }
+
+        this.addSnapshotApys(apyByDate, docs);
+        return apyByDate;
+    }
+
+    private addSnapshotApys(apyByDate: Map<string, number>, docs: BaseProtocolSnapshot[]): void {
+        for (const doc of docs) {
+            const apy = getEffectiveApy(doc);
+            if (apy != null && doc.snapshotDate) {
+                apyByDate.set(doc.snapshotDate, Math.min(apy, APY_SANITY_CAP));
+            }
+        }
+    }
+
+    private repoFor(protocol: string): MongoRepository<BaseProtocolSnapshot> {
+        const registration = this.registry.get(protocol);
+        if (!registration) {
+            throw new BadRequestException(`No snapshot data is indexed for protocol "${protocol}"`);
+        }
+        return registration.repository;
+    }
+}
@@ -0,0 +1,91 @@
+import {
+    Body, Controller, Delete, Get, Logger, Param, Post, Put, UsePipes, ValidationPipe,
+} from '@nestjs/common';
+import { StrategiesService } from './strategies.service';
+import { BacktestService } from './backtest.service';
+import { MonteCarloService } from './monte-carlo.service';
+import { CreateStrategyDto, RunStrategyDto, UpdateStrategyDto } from './dto/strategy.dto';
+import { RunMonteCarloDto } from './dto/monte-carlo.dto';
+
+@Controller('backtest/strategies')
+@UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+export class StrategiesController {
+    private readonly logger = new Logger(StrategiesController.name);
+
+    constructor(
+        private readonly strategiesService: StrategiesService,
+        private readonly backtestService: BacktestService,
+        private readonly monteCarloService: MonteCarloService,
+    ) { }
+
+    /** GET /backtest/strategies — all saved strategies, newest first. */
+    @Get()
+    async findAll() {
+        this.logger.log('GET /backtest/strategies');
+        const data = await this.strategiesService.findAll();
+        return { success: true, count: data.length, data };
+    }
+
+    /** GET /backtest/strategies/:id */
+    @Get(':id')
+    async findOne(@Param('id') id: string) {
+        this.logger.log(`GET /backtest/strategies/${id}`);
+        const data = await this.strategiesService.findOne(id);
+        return { success: true, data };
+    }
+
+    /**
+     * POST /backtest/strategies
+     *
+     * Body: { name, description?, allocations: [{ protocol, network, poolType, assetSymbol, weight }] }
+     * Weights must sum to 1 and every pool must exist in /pools.
+     */
+    @Post()
+    async create(@Body() dto: CreateStrategyDto) {
+        this.logger.log(`POST /backtest/strategies — "${dto.name}"`);
+        const data = await this.strategiesService.create(dto);
+        return { success: true, data };
+    }
+
+    /** PUT /backtest/strategies/:id — partial update; allocations are re-validated. */
+    @Put(':id')
+    async update(@Param('id') id: string, @Body() dto: UpdateStrategyDto) {
+        this.logger.log(`PUT /backtest/strategies/${id}`);
+        const data = await this.strategiesService.update(id, dto);
+        return { success: true, data };
+    }
+
+    /** DELETE /backtest/strategies/:id */
+    @Delete(':id')
+    async remove(@Param('id') id: string) {
+        this.logger.log(`DELETE /backtest/strategies/${id}`);
+        await this.strategiesService.remove(id);
+        return { success: true, id };
+    }
+
+    /**
+     * POST /backtest/strategies/:id/simulate
+     *
+     * Re-runs a saved strategy. Body: { initialCapital, from, to }
+     */
+    @Post(':id/simulate')
+    async simulate(@Param('id') id: string, @Body() dto: RunStrategyDto) {
+        this.logger.log(`POST /backtest/strategies/${id}/simulate`);
+        const strategy = await this.strategiesService.findOne(id);
+        const data = await this.backtestService.simulateStrategy(strategy, dto);
+        return { success: true, data };
+    }
+
+    /**
+     * POST /backtest/strategies/:id/monte-carlo
+     *
+     * Monte Carlo projection of a saved strategy. Body: { initialCapital, horizonDays?, paths?, seed?, … }
+     */
+    @Post(':id/monte-carlo')
+    async monteCarlo(@Param('id') id: string, @Body() dto: RunMonteCarloDto) {
+        this.logger.log(`POST /backtest/strategies/${id}/monte-carlo`);
+        const strategy = await this.strategiesService.findOne(id);
+        const data = await this.monteCarloService.runStrategy(strategy, dto);
+        return { success: true, data };
+    }
+}
@@ -0,0 +1,84 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { MongoRepository } from 'typeorm';
+import { ObjectId } from 'mongodb';
+import { Strategy } from './entities/strategy.entity';
+import { UpdateStrategyDto } from './dto/strategy.dto';
+import { AllocationLeg, StrategyInput } from './types/backtest.types';
+import { toAllocationLegs } from './helpers/allocations';
+import { PoolsService } from '../pools/pools.service';
+import { toPoolKey } from '../../shared/utils/pool-key.util';
+
+@Injectable()
+export class StrategiesService {
+    private readonly logger = new Logger(StrategiesService.name);
+
+    constructor(
+        @InjectRepository(Strategy)
+        private readonly repository: MongoRepository<Strategy>,
+        private readonly poolsService: PoolsService,
+    ) { }
+
+    async findAll(): Promise<Strategy[]> {
+        return this.repository.find({ order: { createdAt: 'DESC' } as any });
+    }
+
+    async findOne(id: string): Promise<Strategy> {
+        const strategy = ObjectId.isValid(id)
+            ? await this.repository.findOneBy({ _id: new ObjectId(id) })
+            : null;
+        if (!strategy) {
+            throw new NotFoundException(`Strategy ${id} not found`);
+        }
+        return strategy;
+    }
+
+    async create(dto: StrategyInput): Promise<Strategy> {
+        const allocations = await this.validateAllocations(dto.allocations);
+        const strategy = this.repository.create({
+            name: dto.name,
+            description: dto.description,
+            chains: this.chainsOf(allocations),
+            allocations,
+        });
+        const saved = await this.repository.save(strategy);
+        this.logger.log(`💾 Saved strategy "${saved.name}" (${saved._id})`);
+        return saved;
+    }
+
+    async update(id: string, dto: UpdateStrategyDto): Promise<Strategy> {
+        const strategy = await this.findOne(id);
+        if (dto.name != null) strategy.name = dto.name;
+        if (dto.description !== undefined) strategy.description = dto.description || null;
+        if (dto.allocations) {
+            strategy.allocations = await this.validateAllocations(dto.allocations);
+            strategy.chains = this.chainsOf(strategy.allocations);
+        }
+        return this.repository.save(strategy);
+    }
+
+    async remove(id: string): Promise<void> {
+        const strategy = await this.findOne(id);
+        await this.repository.deleteOne({ _id: strategy._id });
+        this.logger.log(`🗑️ Deleted strategy "${strategy.name}" (${id})`);
+    }
+
+    /**
+     * Weights must sum to 1, no pool may appear twice and every allocation
+     * must reference a pool that has stored snapshots (as known to
+     * PoolsService).
+     */
+    private async validateAllocations(allocations: AllocationLeg[]): Promise<AllocationLeg[]> {
+        const legs = toAllocationLegs(allocations);
+        const known = await this.poolsService.getPoolKeys();
+        const unknown = legs.map(toPoolKey).filter(key => !known.has(key));
+        if (unknown.length) {
+            throw new BadRequestException(`Unknown pools in allocations: ${unknown.join(', ')}`);
+        }
+        return legs;
+    }
+
+    private chainsOf(allocations: AllocationLeg[]): string[] {
+        return [...new Set(allocations.map(a => a.network))].sort();
+    }
+}
@@ -0,0 +1,327 @@
+import { XcmTransferQuote } from '../../xcm/types/xcm.types';
+
+/**
+ * Backtest engine types.
+ *
+ * APY values are in percentage points (5 = 5%), matching ProtocolSnapshot.
+ * Returns, drawdowns and annualized figures are also expressed in percent.
+ */
+
+// ─── Inputs ──────────────────────────────────────────────────────────────────
+
+/** One leg of a portfolio: a pool identified by its snapshot key + a weight. */
+export interface AllocationLeg {
+    protocol: string;
+    network: string;
+    poolType: string;
+    assetSymbol: string;
+    weight: number;       // 0..1, all legs sum to 1
+}
+
+/** Everything needed to run one simulation. */
+export interface SimulationParams {
+    initialCapital: number;
+    from: Date;
+    to: Date;
+    allocations: AllocationLeg[];
+    /** Network the capital starts on. Legs elsewhere pay XCM fees to get there. */
+    sourceNetwork?: string;
+    /** How the portfolio is rebalanced during the run. Default: buy-and-hold. */
+    rebalance?: RebalancePolicy;
+    /** How vStaking legs are exited (rebalances and end of run). Default 'instant'. */
+    exitMode?: ExitMode;
+}
+
+/**
+ * Exit path for vStaking positions (vDOT, vKSM…):
+ *   instant → at par, no delay (legacy behaviour)
+ *   redeem  → at par after the token's redemption period (config/pools.yaml)
+ *   market  → sold on Hydration at the vToken/base-token market discount
+ */
+export type ExitMode = 'instant' | 'redeem' | 'market';
+
+/** Cost of leaving one position. */
+export interface ExitQuote {
+    /** Path actually used — 'market' falls back to 'redeem' without price data. */
+    mode: ExitMode;
+    amountUsd: number;
+    /** Market discount + swap fee (currency units). */
+    costUsd: number;
+    /** Market discount vs the estimated redemption value (fraction). */
+    discount: number;
+    /** Days the capital is locked before it can be used again. */
+    lockedDays: number;
+}
+
+/** Null when the position is instantly liquid. */
+export type ExitCostFn = (leg: AllocationLeg, amountUsd: number, date: string) => ExitQuote | null;
+
+export type RebalanceMode = 'none' | 'calendar' | 'drift' | 'chase';
+export type RebalanceFrequency = 'daily' | 'weekly' | 'monthly';
+
+/**
+ * Rebalancing policy for a simulation.
+ *
+ *   none     → buy-and-hold (default)
+ *   calendar → back to the target weights every `frequency` (default monthly)
+ *   drift    → back to the target weights when any leg drifts more than
+ *              `driftThreshold` (absolute weight, default 0.05) from target,
+ *              checked every `frequency` (default daily)
+ *   chase    → every `frequency` (default weekly), hold the `topN` legs with the
+ *              highest current APY in equal weight; only switches when the new
+ *              set out-earns the current one by `minApyImprovement` points
+ */
+export interface RebalancePolicy {
+    mode: RebalanceMode;
+    frequency?: RebalanceFrequency;
+    driftThreshold?: number;
+    topN?: number;
+    minApyImprovement?: number;
+}
+
+/** Cost of moving capital from one leg to another. */
+export interface SwitchingCost {
+    xcmFeeUsd: number;
+    swapFeeUsd: number;
+    /** Days the capital spends in transit, earning nothing. */
+    delayDays: number;
+}
+
+export type SwitchingCostFn = (
+    from: AllocationLeg,
+    to: AllocationLeg,
+    amountUsd: number,
+    date: string,
+) => SwitchingCost;
+
+/** A simulation request as stored with its result (dates as "YYYY-MM-DD"). */
+export interface SimulationInput {
+    initialCapital: number;
+    from: string;
+    to: string;
+    allocations: AllocationLeg[];
+    sourceNetwork?: string;
+    rebalance?: RebalancePolicy;
+    exitMode?: ExitMode;
+}
+
+/** Fields needed to save a strategy (from the API or from the optimizer). */
+export interface StrategyInput {
+    name: string;
+    description?: string;
+    allocations: AllocationLeg[];
+}
+
+export type MonteCarloMethod = 'bootstrap' | 'ar1';
+
+/** Everything needed to run one Monte Carlo projection. */
+export interface MonteCarloParams {
+    initialCapital: number;
+    allocations: AllocationLeg[];
+    /** Days of stored history the APY paths are drawn from. Default 365. */
+    lookbackDays?: number;
+    /** Length of each simulated future, in days. Default 90. */
+    horizonDays?: number;
+    /** Default 1000. */
+    paths?: number;
+    /** Default 'bootstrap'. */
+    method?: MonteCarloMethod;
+    /** bootstrap only: consecutive history days per resampled block. Default 7. */
+    blockSize?: number;
+    /** Same seed + same stored history → identical result. Random when omitted. */
+    seed?: number;
+}
+
+/** Daily effective APY series for one leg, keyed by snapshotDate "YYYY-MM-DD". */
+export interface LegSeries {
+    leg: AllocationLeg;
+    apyByDate: Map<string, number>;
+    /** DEX legs only: impermanent loss vs entry as a fraction (≤ 0), by snapshotDate. */
+    ilByDate?: Map<string, number>;
+}
+
+/** One-off cost of getting a leg's capital in place before it starts earning. */
+export interface LegEntryCost {
+    feeUsd: number;
+    /** Fraction of a day (or several days) the capital spends in transit. */
+    delayDays: number;
+}
+
+// ─── Outputs ─────────────────────────────────────────────────────────────────
+
+export interface EquityPoint {
+    date: string;         // snapshotDate "YYYY-MM-DD"
+    value: number;        // portfolio value at end of day
+    dailyReturn: number;  // percent change vs previous day
+}
+
+/** Capital moved from one leg to another during a rebalance. */
+export interface RebalanceTrade {
+    from: string;         // pool key, see `toPoolKey`
+    to: string;
+    amountUsd: number;    // value taken out of `from`
+    xcmFeeUsd: number;
+    swapFeeUsd: number;
+    /** vStaking exit: market discount paid when selling `from`. */
+    exitCostUsd: number;
+    /** Yield forgone while the capital is in transit or unbonding. */
+    idleCostUsd: number;
+}
+
+export interface ExitEvent extends ExitQuote {
+    date: string;
+    pool: string;         // pool key
+    reason: 'rebalance' | 'final';
+    /** First day the capital is usable again: date + ceil(lockedDays). */
+    availableDate: string;
+}
+
+export interface RebalanceEvent {
+    date: string;
+    reason: string;
+    trades: RebalanceTrade[];
+    /** XCM + swap fees + idle cost of all trades (currency units). */
+    costUsd: number;
+    /** Weights by pool key before and after the trades. */
+    weightsBefore: Record<string, number>;
+    weightsAfter: Record<string, number>;
+}
+
+export interface LegResult extends AllocationLeg {
+    initialValue: number;
+    finalValue: number;
+    /** Days in the range that had a stored snapshot for this pool. */
+    daysWithData: number;
+    /** Days before the first snapshot — no yield accrues for these. */
+    daysWithoutData: number;
+    /** Value lost to impermanent loss at the end of the run (currency units). */
+    impermanentLoss: number;
+    /** XCM fees paid to move capital into this leg (currency units). */
+    xcmFees: number;
+    /** DEX swap fees paid to move capital into this leg (currency units). */
+    swapFees: number;
+    /** vStaking exit costs paid when leaving this leg (currency units). */
+    exitCosts: number;
+}
+
+export interface SimulationMetrics {
+    finalValue: number;
+    totalReturn: number;
+    annualizedApy: number;
+    maxDrawdown: number;
+    /** Annualized, risk-free rate 0. Null when daily returns have no variance. */
+    sharpeRatio: number | null;
+    /** Total value lost to impermanent loss across DEX legs (currency units). */
+    impermanentLoss: number;
+    /** Total XCM transfer fees paid, entry and rebalances (currency units). */
+    xcmFeesTotal: number;
+    /** Total DEX swap fees paid on rebalances (currency units). */
+    swapFeesTotal: number;
+    /** Fees plus yield forgone in transit across all rebalances (currency units). */
+    switchingCostsTotal: number;
+    rebalanceCount: number;
+    /** vStaking market-exit discounts and fees, rebalances and final exit (currency units). */
+    exitCostsTotal: number;
+    /** Largest amount locked in redemptions at any one time (currency units). */
+    maxLockedCapital: number;
+}
+
+/** Cost lines reported next to the performance metrics. */
+export interface SimulationCosts {
+    impermanentLoss: number;
+    xcmFeesTotal: number;
+    swapFeesTotal: number;
+    switchingCostsTotal: number;
+    rebalanceCount: number;
+    exitCostsTotal: number;
+    maxLockedCapital: number;
+}
+
+export interface SimulationResult {
+    /** Id of the stored run, see GET /backtest/simulations/:id */
+    simulationId?: string;
+    strategyId?: string;
+    datasetHash: string;
+    startDate: string;
+    endDate: string;
+    days: number;
+    initialCapital: number;
+    legs: LegResult[];
+    /** Cross-network transfers the run paid for. */
+    transfers: XcmTransferQuote[];
+    /** Rebalance policy applied and every rebalance it triggered. */
+    rebalancePolicy: RebalancePolicy;
+    rebalances: RebalanceEvent[];
+    exitMode: ExitMode;
+    /** Every vStaking exit, with the capital it locked and until when. */
+    exits: ExitEvent[];
+    equityCurve: EquityPoint[];
+    results: SimulationMetrics;
+}
+
+/** P5 / P50 / P95 (and mean) of a simulated quantity across all paths. */
+export interface PercentileBand {
+    p5: number;
+    p50: number;
+    p95: number;
+    mean: number;
+}
+
+export interface MonteCarloPoolHistory {
+    pool: string;         // pool key, see `toPoolKey`
+    weight: number;
+    observations: number;
+    meanApy: number;
+    apyStdDev: number;
+}
+
+export interface MonteCarloResult {
+    strategyId?: string;
+    seed: number;
+    method: MonteCarloMethod;
+    blockSize?: number;
+    paths: number;
+    horizonDays: number;
+    initialCapital: number;
+    /** The history window the paths were drawn from. */
+    history: {
+        from: string;
+        to: string;
+        days: number;
+        pools: MonteCarloPoolHistory[];
+    };
+    finalValue: PercentileBand;
+    totalReturn: PercentileBand;
+    maxDrawdown: PercentileBand;
+    /** Portfolio value band for each simulated day (day 1 … horizonDays). */
+    valueBands: Array<PercentileBand & { day: number }>;
+}
+
+// ─── Stored runs ─────────────────────────────────────────────────────────────
+
+/** One row of the aligned equity curves: value and growth (value / capital) per run id. */
+export interface ComparisonPoint {
+    date: string;
+    values: Record<string, number | null>;
+    growth: Record<string, number | null>;
+}
+
+export interface SimulationComparison {
+    ids: string[];
+    /** True when every run replayed the same snapshot data. */
+    sameDataset: boolean;
+    runs: Array<{
+        id: string;
+        strategyId?: string;
+        startDate: string;
+        endDate: string;
+        initialCapital: number;
+        datasetHash: string;
+        input: SimulationInput;
+        createdAt: Date;
+    }>;
+    /** Each metric in `SimulationMetrics`, by run id. */
+    metrics: Record<string, Record<string, number | null>>;
+    /** Union of all runs' dates; null where a run has no point that day. */
+    equityCurves: ComparisonPoint[];
+}
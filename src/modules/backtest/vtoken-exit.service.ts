@@ -0,0 +1,140 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { MongoRepository } from 'typeorm';
+import { HydrationSnapshot, PoolType } from '../../shared/entities/protocol-snapshot.entity';
+import { PoolConfigService } from '../../shared/services/pool-config.service';
+import { enumerateDateKeys } from '../../shared/utils/date.util';
+import { toPoolKey } from '../../shared/utils/pool-key.util';
+import { PoolLiquidity, estimateSwapCost } from '../hydration/helpers/swap-cost';
+import { SnapshotSeriesService } from './snapshot-series.service';
+import { AllocationLeg, ExitCostFn, ExitMode } from './types/backtest.types';
+import { transferAssetOf } from './helpers/allocations';
+import { addDays, fairRatioEnvelope, marketDiscounts } from './helpers/vtoken-exit';
+
+/** Used when pools.yaml has no redemptionDays for the token. */
+const DEFAULT_REDEMPTION_DAYS = 28;
+/** Extra history loaded before the run so the fair-ratio envelope can settle. */
+const ENVELOPE_WARMUP_DAYS = 90;
+
+/**
+ * VTokenExitService — prices leaving a Bifrost vStaking position.
+ *
+ *   redeem → at par after the redemption period from `config/pools.yaml`
+ *            (`{protocol}.{network}.vstaking.redemptionDays`)
+ *   market → sell the vToken for its base token on Hydration; the discount
+ *            is the Omnipool vToken/base price ratio vs its estimated
+ *            redemption ratio (see `fairRatioEnvelope`), plus swap fees.
+ *            Falls back to redeem on days without Hydration prices.
+ */
+@Injectable()
+export class VTokenExitService {
+    private readonly logger = new Logger(VTokenExitService.name);
+
+    constructor(
+        @InjectRepository(HydrationSnapshot)
+        private readonly hydrationRepo: MongoRepository<HydrationSnapshot>,
+        private readonly seriesService: SnapshotSeriesService,
+        private readonly poolConfig: PoolConfigService,
+    ) { }
+
+    /** Undefined when exits are instant or no leg is a vStaking position. */
+    async buildExitCost(
+        legs: AllocationLeg[],
+        mode: ExitMode,
+        fromKey: string,
+        toKey: string,
+        liquidity: PoolLiquidity[],
+    ): Promise<ExitCostFn | undefined> {
+        const vLegs = legs.filter(l => l.poolType === PoolType.VSTAKING);
+        if (mode === 'instant' || !vLegs.length) return undefined;
+
+        const redemptionDays = new Map(vLegs.map(l => [
+            toPoolKey(l),
+            this.poolConfig.getRedemptionDays(l.protocol, l.network, l.poolType, l.assetSymbol) ?? DEFAULT_REDEMPTION_DAYS,
+        ]));
+        const discounts = mode === 'market'
+            ? await this.loadDiscounts(vLegs, fromKey, toKey)
+            : new Map<string, Map<string, number>>();
+
+        return (leg, amountUsd, date) => {
+            if (leg.poolType !== PoolType.VSTAKING) return null;
+            const key = toPoolKey(leg);
+
+            const discount = mode === 'market' ? this.onOrBefore(discounts.get(key), date) : undefined;
+            if (discount != null) {
+                const swap = estimateSwapCost(liquidity, leg.assetSymbol, transferAssetOf(leg), amountUsd, date);
+                return {
+                    mode: 'market',
+                    amountUsd,
+                    costUsd: amountUsd * discount + swap.feeUsd,
+                    discount,
+                    lockedDays: 0,
+                };
+            }
+            return {
+                mode: 'redeem',
+                amountUsd,
+                costUsd: 0,
+                discount: 0,
+                lockedDays: redemptionDays.get(key) ?? DEFAULT_REDEMPTION_DAYS,
+            };
+        };
+    }
+
+    /** Market discount per date for each vStaking leg, keyed by pool key. */
+    private async loadDiscounts(
+        vLegs: AllocationLeg[],
+        fromKey: string,
+        toKey: string,
+    ): Promise<Map<string, Map<string, number>>> {
+        const warmupKey = addDays(fromKey, -ENVELOPE_WARMUP_DAYS);
+        const symbols = [...new Set(vLegs.flatMap(l => [l.assetSymbol, transferAssetOf(l)]))];
+
+        const docs = await this.hydrationRepo.find({
+            where: {
+                poolType: PoolType.DEX,
+                assetSymbol: { $in: symbols },
+                'metadata.poolCategory': 'Omnipool',
+                snapshotDate: { $gte: warmupKey, $lte: toKey },
+            } as any,
+        });
+        const prices = new Map<string, Map<string, number>>();
+        for (const doc of docs) {
+            const price = Number((doc.metadata as Record<string, any>)?.['priceUsd']);
+            if (!doc.snapshotDate || !(price > 0)) continue;
+            if (!prices.has(doc.assetSymbol)) prices.set(doc.assetSymbol, new Map());
+            prices.get(doc.assetSymbol)!.set(doc.snapshotDate, price);
+        }
+
+        const dates = enumerateDateKeys(new Date(warmupKey), new Date(toKey));
+        const result = new Map<string, Map<string, number>>();
+        for (const leg of vLegs) {
+            const vPrices = prices.get(leg.assetSymbol);
+            const basePrices = prices.get(transferAssetOf(leg));
+            if (!vPrices || !basePrices) {
+                this.logger.warn(`⚠️ No Hydration prices for ${leg.assetSymbol}/${transferAssetOf(leg)} — market exits fall back to redemption`);
+                continue;
+            }
+
+            const marketRatio = new Map<string, number>();
+            for (const [date, vPrice] of vPrices) {
+                const basePrice = basePrices.get(date);
+                if (basePrice) marketRatio.set(date, vPrice / basePrice);
+            }
+            const apyByDate = await this.seriesService.loadHistoricalApy(leg, warmupKey, toKey);
+            const fair = fairRatioEnvelope(dates, marketRatio, apyByDate);
+            result.set(toPoolKey(leg), marketDiscounts(marketRatio, fair));
+        }
+        return result;
+    }
+
+    /** Value on `date`, else the latest earlier one. */
+    private onOrBefore(byDate: Map<string, number> | undefined, date: string): number | undefined {
+        if (!byDate) return undefined;
+        let best: string | undefined;
+        for (const d of byDate.keys()) {
+            if (d <= date && (!best || d > best)) best = d;
+        }
+        return best ? byDate.get(best) : undefined;
+    }
+}
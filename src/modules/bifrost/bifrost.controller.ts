@@ -1,5 +1,5 @@
 import { Controller, Get, Logger } from '@nestjs/common';
-import { BifrostService } from './bifrost.service';
+import { BifrostService, CrawlAllPart } from './bifrost.service';
 
 @Controller('bifrost')
 export class BifrostController {
@@ -16,6 +16,7 @@ export class BifrostController {
             message: 'vStaking data crawled successfully',
             duration: `${result.duration}ms`,
             itemsFound: result.itemsFound,
+            networks: result.networks,
             data: result.data,
         };
     }
@@ -29,27 +30,84 @@ export class BifrostController {
             message: 'Farming data crawled successfully',
             duration: `${result.duration}ms`,
             itemsFound: result.itemsFound,
+            networks: result.networks,
             data: result.data,
         };
     }
 
+    /**
+     * GET /bifrost/crawl/vtoken-rates
+     *
+     * Reads vToken exchange rates, vToken supply and staked amounts from
+     * Bifrost chain state and stores today's rate snapshot per vToken.
+     */
+    @Get('crawl/vtoken-rates')
+    async crawlVTokenRates() {
+        this.logger.log('📥 Manual trigger: on-chain vToken rate crawl');
+        const result = await this.bifrostService.crawlVTokenRates();
+        return {
+            success: true,
+            message: 'vToken rates crawled successfully',
+            duration: `${result.duration}ms`,
+            itemsFound: result.itemsFound,
+            endpoint: result.endpoint,
+            data: result.data,
+        };
+    }
+
+    /**
+     * GET /bifrost/vtoken-rates
+     *
+     * Latest on-chain rate per vToken, with the realised APY (7d / 30d) next
+     * to the API's APY for the same day.
+     */
+    @Get('vtoken-rates')
+    async getVTokenRates() {
+        const data = await this.bifrostService.getVTokenRates();
+        return { success: true, count: data.length, data };
+    }
+
+    /**
+     * GET /bifrost/backfill/vstaking
+     *
+     * Turns the vStaking API history into one snapshot per token per past day.
+     * Days already crawled live are left untouched; safe to re-run.
+     */
+    @Get('backfill/vstaking')
+    async backfillVStaking() {
+        this.logger.log('📥 Manual trigger: vStaking history backfill');
+        const result = await this.bifrostService.backfillVStakingHistory();
+        return {
+            success: true,
+            message: 'vStaking history backfilled successfully',
+            duration: `${result.duration}ms`,
+            networks: result.networks,
+            tokens: result.tokens,
+            historyDays: result.historyDays,
+            inserted: result.inserted,
+            skipped: result.skipped,
+        };
+    }
+
     @Get('crawl/all')
     async crawlAll() {
         this.logger.log('📥 Manual trigger: Full crawl (vStaking + Farming)');
         const result = await this.bifrostService.crawlAll();
+        const part = ({ success, result: crawl, errorMessage }: CrawlAllPart) => crawl
+            ? {
+                success,
+                duration: `${crawl.duration}ms`,
+                itemsFound: crawl.itemsFound,
+                networks: crawl.networks,
+                data: crawl.data,
+            }
+            : { success, errorMessage };
+        const complete = result.vstaking.success && result.farming.success;
         return {
-            success: true,
-            message: 'All data crawled successfully',
-            vstaking: {
-                duration: `${result.vstaking.duration}ms`,
-                itemsFound: result.vstaking.itemsFound,
-                data: result.vstaking.data,
-            },
-            farming: {
-                duration: `${result.farming.duration}ms`,
-                itemsFound: result.farming.itemsFound,
-                data: result.farming.data,
-            },
+            success: complete,
+            message: complete ? 'All data crawled successfully' : 'Crawl finished with failures',
+            vstaking: part(result.vstaking),
+            farming: part(result.farming),
         };
     }
 }
@@ -1,20 +1,26 @@
 import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { BifrostService } from './bifrost.service';
 import { BifrostController } from './bifrost.controller';
 import { VStakingCrawler } from './crawlers/vstaking.crawler';
 import { FarmingCrawler } from './crawlers/farming.crawler';
+import { VTokenRateCrawler } from './crawlers/vtoken-rate.crawler';
+import { VTokenRateSnapshot } from './entities/vtoken-rate.entity';
 
 /**
  * BifrostModule — Bifrost parachain data indexer.
  *
  * PoolConfigService and FileLoggerUtil are provided globally by SharedModule.
- * Register SharedModule once in AppModule.
+ * Register SharedModule once in AppModule. On-chain vToken rates live in
+ * the module's own `bifrost_vtoken_rates` collection.
  */
 @Module({
+    imports: [TypeOrmModule.forFeature([VTokenRateSnapshot])],
     controllers: [BifrostController],
     providers: [
         VStakingCrawler,
         FarmingCrawler,
+        VTokenRateCrawler,
         BifrostService,
     ],
     exports: [BifrostService],
@@ -1,68 +1,186 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleInit } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { MongoRepository } from 'typeorm';
 import { VStakingCrawler } from './crawlers/vstaking.crawler';
 import { FarmingCrawler } from './crawlers/farming.crawler';
-import { CrawlResult } from '../../shared/crawlers/base-api.crawler';
-import { BifrostSnapshot, Protocol, PoolType, ProtocolSnapshot } from '../../shared/entities/protocol-snapshot.entity';
-import { ActivityLogService } from '../../shared/services/activity-log.service';
+import { VTokenRateCrawler } from './crawlers/vtoken-rate.crawler';
+import { BaseApiCrawler, CrawlResult } from '../../shared/crawlers/base-api.crawler';
+import {
+    BifrostSnapshot,
+    HydrationSnapshot,
+    Protocol,
+    Network,
+    PoolType,
+    ProtocolSnapshot,
+} from '../../shared/entities/protocol-snapshot.entity';
+import { VTokenRateSnapshot } from './entities/vtoken-rate.entity';
+import { CrawlItemFailure } from '../../shared/entities/crawl-log.entity';
+import { ActivityLogService, itemOutcomes } from '../../shared/services/activity-log.service';
+import { ProtocolRegistryService } from '../../shared/services/protocol-registry.service';
+import { PoolConfigService } from '../../shared/services/pool-config.service';
 import { getUtcDateKey } from '../../shared/utils/date.util';
+import { DailySnapshotDoc, explodeVStakingHistory } from './helpers/history-backfill';
+import { daysBetween, realizedApy } from './helpers/vtoken-rate';
+import { OMNIPOOL_PRICE_SYMBOLS } from './types/bifrost-chain.types';
+import { resolveApiBase } from './helpers/api-base';
+
+/** Outcome of one network within a multi-network Bifrost crawl. */
+export interface NetworkCrawlOutcome {
+    network: string;
+    success: boolean;
+    itemsFound: number;
+    duration: number;
+    errorMessage?: string;
+    failedItems?: CrawlItemFailure[];
+}
+
+/** Merged result over every configured network, plus the per-network breakdown. */
+export interface BifrostCrawlResult extends CrawlResult<BifrostSnapshot> {
+    networks: NetworkCrawlOutcome[];
+}
+
+/** One part of a full crawl: its result, or the error when all its networks failed. */
+export interface CrawlAllPart {
+    success: boolean;
+    result?: BifrostCrawlResult;
+    errorMessage?: string;
+}
 
 export interface CrawlAllResult {
-    vstaking: CrawlResult<ProtocolSnapshot>;
-    farming: CrawlResult<ProtocolSnapshot>;
+    vstaking: CrawlAllPart;
+    farming: CrawlAllPart;
+}
+
+export interface BackfillResult {
+    networks: string[];
+    tokens: string[];
+    /** Days found in the API history across all tokens. */
+    historyDays: number;
+    /** New daily documents created. */
+    inserted: number;
+    /** Days that already had a document (left untouched). */
+    skipped: number;
+    duration: number;
 }
 
 @Injectable()
-export class BifrostService {
+export class BifrostService implements OnModuleInit, OnApplicationBootstrap {
     private readonly logger = new Logger(BifrostService.name);
 
     constructor(
         @InjectRepository(BifrostSnapshot)
         private readonly repository: MongoRepository<BifrostSnapshot>,
+        @InjectRepository(VTokenRateSnapshot)
+        private readonly rateRepo: MongoRepository<VTokenRateSnapshot>,
+        @InjectRepository(HydrationSnapshot)
+        private readonly hydrationRepo: MongoRepository<HydrationSnapshot>,
         private readonly vstakingCrawler: VStakingCrawler,
         private readonly farmingCrawler: FarmingCrawler,
+        private readonly vTokenRateCrawler: VTokenRateCrawler,
+        private readonly poolConfig: PoolConfigService,
         private readonly activityLog: ActivityLogService,
+        private readonly registry: ProtocolRegistryService,
     ) { }
 
-    async crawlVStaking(): Promise<CrawlResult<BifrostSnapshot>> {
-        this.logger.log('🔄 Starting vStaking crawl...');
-        const result = (await this.vstakingCrawler.crawl()) as CrawlResult<BifrostSnapshot>;
-
-        if (result.data && result.data.length > 0) {
-            await this.upsertSnapshots(result.data);
-            this.logger.log(`💾 Persisted ${result.data.length} vStaking snapshots`);
-        }
-
-        await this.activityLog.recordSuccess({
+    onModuleInit() {
+        this.registry.register({
             protocol: Protocol.BIFROST,
-            network: result.network,
-            poolType: PoolType.VSTAKING,
-            itemsFound: result.itemsFound,
-            durationMs: result.duration,
+            label: 'Bifrost',
+            repository: this.repository,
+            crawls: [
+                { label: 'Bifrost', run: () => this.crawlAll() },
+                { label: 'Bifrost vToken rates', run: () => this.crawlVTokenRates() },
+            ],
+            summaryFields: { weekApy: 'weekApy', monthApy: 'monthApy', quarterApy: 'quarterApy' },
         });
+    }
 
-        return result;
+    /** Warns once about configured networks that crawls will skip. */
+    onApplicationBootstrap() {
+        for (const poolType of [PoolType.VSTAKING, PoolType.FARMING]) {
+            const skipped = this.poolConfig.getNetworks(Protocol.BIFROST, poolType)
+                .filter(network => !resolveApiBase(this.poolConfig, network, poolType));
+            for (const network of skipped) {
+                this.logger.warn(`⚠️ bifrost/${network}/${poolType} has no apiBase in config/pools.yaml — not crawled`);
+            }
+        }
+    }
+
+    async crawlVStaking(): Promise<BifrostCrawlResult> {
+        this.logger.log('🔄 Starting vStaking crawl...');
+        return this.crawlNetworks(this.vstakingCrawler, PoolType.VSTAKING, 'vStaking');
     }
 
-    async crawlFarming(): Promise<CrawlResult<BifrostSnapshot>> {
+    async crawlFarming(): Promise<BifrostCrawlResult> {
         this.logger.log('🔄 Starting Farming crawl...');
-        const result = (await this.farmingCrawler.crawl()) as CrawlResult<BifrostSnapshot>;
+        return this.crawlNetworks(this.farmingCrawler, PoolType.FARMING, 'Farming');
+    }
+
+    /**
+     * Crawls every network under `bifrost:` in pools.yaml that configures
+     * `poolType` and has an API base (see resolveApiBase), one after another. Each network is persisted and logged on
+     * its own; a failing network is recorded and skipped. Throws only when
+     * every network failed.
+     */
+    private async crawlNetworks(
+        crawler: BaseApiCrawler<unknown>,
+        poolType: PoolType,
+        label: string,
+    ): Promise<BifrostCrawlResult> {
+        const startTime = Date.now();
+        const networks = this.crawlableNetworks(poolType);
+        const outcomes: NetworkCrawlOutcome[] = [];
+        const data: BifrostSnapshot[] = [];
+        let firstError: unknown;
+
+        for (const network of networks) {
+            const networkStart = Date.now();
+            try {
+                const result = await this.activityLog.track(
+                    { protocol: Protocol.BIFROST, network, poolType },
+                    async () => {
+                        const crawled = (await crawler.crawl(network)) as CrawlResult<BifrostSnapshot>;
 
-        if (result.data && result.data.length > 0) {
-            await this.upsertSnapshots(result.data);
-            this.logger.log(`💾 Persisted ${result.data.length} Farming snapshots`);
+                        if (crawled.data && crawled.data.length > 0) {
+                            await this.upsertSnapshots(crawled.data);
+                            this.logger.log(`💾 Persisted ${crawled.data.length} ${label} snapshots on ${network}`);
+                        }
+                        return crawled;
+                    },
+                );
+
+                data.push(...result.data);
+                outcomes.push({
+                    network,
+                    success: true,
+                    itemsFound: result.itemsFound,
+                    duration: result.duration,
+                    failedItems: itemOutcomes(result).failedItems,
+                });
+            } catch (error) {
+                firstError ??= error;
+                outcomes.push({
+                    network,
+                    success: false,
+                    itemsFound: 0,
+                    duration: Date.now() - networkStart,
+                    errorMessage: error instanceof Error ? error.message : String(error),
+                });
+            }
         }
 
-        await this.activityLog.recordSuccess({
-            protocol: Protocol.BIFROST,
-            network: result.network,
-            poolType: PoolType.FARMING,
-            itemsFound: result.itemsFound,
-            durationMs: result.duration,
-        });
+        if (networks.length && outcomes.every(o => !o.success)) throw firstError;
 
-        return result;
+        return {
+            protocol: Protocol.BIFROST,
+            network: networks.join(','),
+            poolType,
+            timestamp: new Date().toISOString(),
+            duration: Date.now() - startTime,
+            itemsFound: data.length,
+            data,
+            networks: outcomes,
+        };
     }
 
     private async upsertSnapshots(snapshots: BifrostSnapshot[]): Promise<void> {
@@ -84,13 +202,181 @@ export class BifrostService {
         }
     }
 
+    // ─── On-chain vToken rates ────────────────────────────────────────────────
+
+    /**
+     * Reads vToken exchange rates from Bifrost chain state and upserts one
+     * VTokenRateSnapshot per vToken per UTC day. Each record is enriched with
+     * the realised APY over the stored rate history, the API's APY for the
+     * same day and a USD TVL; that TVL is also written to the day's vStaking
+     * snapshot when the API left it empty.
+     */
+    async crawlVTokenRates(): Promise<CrawlResult<VTokenRateSnapshot>> {
+        this.logger.log('🔄 Starting on-chain vToken rate crawl...');
+        return this.activityLog.track(
+            { protocol: Protocol.BIFROST, network: Network.BIFROST, poolType: PoolType.VSTAKING },
+            async () => {
+                const result = await this.vTokenRateCrawler.crawl();
+                const dateKey = getUtcDateKey();
+
+                for (const rate of result.data) {
+                    rate.snapshotDate = dateKey;
+                    await this.enrichVTokenRate(rate);
+                    await this.rateRepo.findOneAndUpdate(
+                        { network: rate.network, assetSymbol: rate.assetSymbol, snapshotDate: dateKey },
+                        { $set: { ...rate, updatedAt: new Date() } },
+                        { upsert: true },
+                    );
+                    if (rate.tvlUsd != null) {
+                        await this.repository.updateOne(
+                            {
+                                network: rate.network,
+                                poolType: PoolType.VSTAKING,
+                                assetSymbol: rate.assetSymbol,
+                                snapshotDate: dateKey,
+                                tvlUsd: null,
+                            },
+                            { $set: { tvlUsd: rate.tvlUsd } },
+                        );
+                    }
+                }
+                if (result.data.length) this.logger.log(`💾 Persisted ${result.data.length} vToken rate snapshots`);
+
+                return result;
+            },
+        );
+    }
+
+    /** Latest stored rate snapshot per vToken, alphabetically. */
+    async getVTokenRates(): Promise<VTokenRateSnapshot[]> {
+        const pipeline: object[] = [
+            { $sort: { snapshotDate: -1 } },
+            {
+                $group: {
+                    _id: { network: '$network', assetSymbol: '$assetSymbol' },
+                    latest: { $first: '$$ROOT' },
+                },
+            },
+            { $replaceRoot: { newRoot: '$latest' } },
+            { $sort: { assetSymbol: 1 } },
+        ];
+        return (this.rateRepo.aggregate(pipeline) as any).toArray();
+    }
+
+    private async enrichVTokenRate(rate: VTokenRateSnapshot): Promise<void> {
+        const priceSymbol = OMNIPOOL_PRICE_SYMBOLS[rate.baseSymbol] ?? rate.baseSymbol;
+        const [realized7d, realized30d, apiSnapshot, basePrice] = await Promise.all([
+            this.realizedApyOver(rate, 7),
+            this.realizedApyOver(rate, 30),
+            this.repository.findOne({
+                where: {
+                    network: rate.network,
+                    poolType: PoolType.VSTAKING,
+                    assetSymbol: rate.assetSymbol,
+                    snapshotDate: rate.snapshotDate,
+                },
+            }),
+            this.hydrationRepo.findOne({
+                where: { poolType: PoolType.DEX, assetSymbol: priceSymbol, 'metadata.poolCategory': 'Omnipool' } as any,
+                order: { snapshotDate: 'DESC' },
+            }),
+        ]);
+        rate.realizedApy7d = realized7d;
+        rate.realizedApy30d = realized30d;
+        rate.apiApy = apiSnapshot?.supplyApy;
+        const price = Number((basePrice?.metadata as Record<string, any>)?.['priceUsd']);
+        rate.tvlUsd = price > 0 ? rate.stakedAmount * price : undefined;
+        if (rate.tvlUsd == null) this.logger.warn(`⚠️ No Omnipool price for ${priceSymbol} — ${rate.assetSymbol} TVL left empty`);
+    }
+
+    /**
+     * Realised APY against the latest stored rate at least `window` days old.
+     * Undefined without one, or when the gap exceeds twice the window.
+     */
+    private async realizedApyOver(rate: VTokenRateSnapshot, window: number): Promise<number | undefined> {
+        const cutoff = getUtcDateKey(new Date(Date.now() - window * 86_400_000));
+        const past = await this.rateRepo.findOne({
+            where: { network: rate.network, assetSymbol: rate.assetSymbol, snapshotDate: { $lte: cutoff } } as any,
+            order: { snapshotDate: 'DESC' },
+        });
+        if (!past) return undefined;
+        const days = daysBetween(past.snapshotDate, rate.snapshotDate);
+        return days <= window * 2 ? realizedApy(rate.exchangeRate, past.exchangeRate, days) : undefined;
+    }
+
+    /**
+     * Fetches the full vStaking API history and writes one BifrostSnapshot per
+     * token per past UTC day. Only missing days are inserted — documents
+     * already written by the live crawl are never modified.
+     */
+    async backfillVStakingHistory(): Promise<BackfillResult> {
+        this.logger.log('🔄 Starting vStaking history backfill...');
+        const start = Date.now();
+        const networks = this.crawlableNetworks(PoolType.VSTAKING);
+        const snapshots: ProtocolSnapshot[] = [];
+        for (const network of networks) {
+            const result = await this.vstakingCrawler.crawl(network);
+            snapshots.push(...(result.data ?? []));
+        }
+
+        const docs = snapshots.flatMap(snapshot => explodeVStakingHistory(snapshot));
+        const inserted = await this.insertMissingSnapshots(docs);
+
+        const backfill: BackfillResult = {
+            networks,
+            tokens: snapshots.map(s => `${s.network}:${s.assetSymbol}`),
+            historyDays: docs.length,
+            inserted,
+            skipped: docs.length - inserted,
+            duration: Date.now() - start,
+        };
+        this.logger.log(`💾 Backfill: ${inserted} new daily snapshots, ${backfill.skipped} days already present`);
+        return backfill;
+    }
+
+    /** Insert-only upsert: `$setOnInsert` leaves existing days as they are. */
+    private async insertMissingSnapshots(docs: DailySnapshotDoc[]): Promise<number> {
+        if (!docs.length) return 0;
+        const result = await this.repository.bulkWrite(
+            docs.map(doc => ({
+                updateOne: {
+                    filter: {
+                        network: doc.network,
+                        poolType: doc.poolType,
+                        assetSymbol: doc.assetSymbol,
+                        snapshotDate: doc.snapshotDate,
+                    },
+                    update: { $setOnInsert: doc },
+                    upsert: true,
+                },
+            })),
+            { ordered: false },
+        );
+        return result.upsertedCount;
+    }
+
     async crawlAll(): Promise<CrawlAllResult> {
         this.logger.log('🔄 Starting full crawl (vStaking + Farming) in parallel...');
-        const [vstaking, farming] = await Promise.all([
+        const [vstaking, farming] = (await Promise.allSettled([
             this.crawlVStaking(),
             this.crawlFarming(),
-        ]);
-        this.logger.log(`✅ Full crawl done — vStaking: ${vstaking.duration}ms, Farming: ${farming.duration}ms`);
+        ])).map((outcome): CrawlAllPart => outcome.status === 'fulfilled'
+            ? { success: true, result: outcome.value }
+            : { success: false, errorMessage: outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason) });
+        this.logger.log(
+            `✅ Full crawl done — vStaking: ${vstaking.result ? `${vstaking.result.duration}ms` : 'failed'}, ` +
+            `Farming: ${farming.result ? `${farming.result.duration}ms` : 'failed'}`,
+        );
+        // Fail the scheduled run only when nothing was crawled at all
+        if (!vstaking.success && !farming.success) {
+            throw new Error(`vStaking: ${vstaking.errorMessage}; Farming: ${farming.errorMessage}`);
+        }
         return { vstaking, farming };
     }
+
+    /** Networks configuring `poolType` that have an API base to crawl. */
+    private crawlableNetworks(poolType: PoolType): string[] {
+        return this.poolConfig.getNetworks(Protocol.BIFROST, poolType)
+            .filter(network => resolveApiBase(this.poolConfig, network, poolType) != null);
+    }
 }
@@ -1,7 +1,10 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { BaseApiCrawler } from '../../../shared/crawlers/base-api.crawler';
+import { CrawlerOptions } from '../../../shared/crawlers/base.crawler';
 import { PoolConfigService } from '../../../shared/services/pool-config.service';
+import { CrawlItemFailure } from '../../../shared/entities/crawl-log.entity';
 import { Protocol, Network, PoolType, ProtocolSnapshot } from '../../../shared/entities/protocol-snapshot.entity';
+import { requireApiBase } from '../helpers/api-base';
 
 // ─── Bifrost API Response Types ───────────────────────────────────────────────
 
@@ -42,29 +45,26 @@ export class FarmingCrawler extends BaseApiCrawler<RawFarmingToken> {
     protected readonly network = Network.BIFROST;
     protected readonly poolType = PoolType.FARMING;
 
-    private readonly apiBase = 'https://dapi.bifrost.io/api/omni';
-
     constructor(private readonly poolConfig: PoolConfigService) {
         super();
     }
 
-    protected async fetchRaw(): Promise<RawFarmingToken[]> {
-        const tokens = this.poolConfig.getTokens('bifrost', this.network, 'farming');
+    protected httpOverrides(network: string): CrawlerOptions {
+        return this.poolConfig.getHttpOptions('bifrost', network, 'farming');
+    }
+
+    protected async fetchRaw(network: string, failures: CrawlItemFailure[]): Promise<RawFarmingToken[]> {
+        const tokens = this.poolConfig.getTokens('bifrost', network, 'farming');
+        const apiBase = requireApiBase(this.poolConfig, network, this.poolType);
         const results: RawFarmingToken[] = [];
 
         for (const token of tokens) {
             const symbol = token.replace(/^v/, ''); // vDOT → DOT
-            const url = `${this.apiBase}/${symbol}`;
-            this.logger.log(`🌐 Fetching: ${url}`);
+            const url = `${apiBase}/${symbol}`;
+            this.logger.log(`🌐 [${network}] Fetching: ${url}`);
 
             try {
-                const response = await fetch(url);
-                if (!response.ok) {
-                    this.logger.warn(`❌ HTTP ${response.status} for ${token}: ${response.statusText}`);
-                    continue;
-                }
-
-                const json = await response.json() as { result?: BifrostOmniItem[] };
+                const json = await this.fetchJson<{ result?: BifrostOmniItem[] }>(url, {}, network);
 
                 if (json.result && Array.isArray(json.result) && json.result.length > 0) {
                     const sorted = [...json.result].sort((a, b) => a.date - b.date);
@@ -79,22 +79,26 @@ export class FarmingCrawler extends BaseApiCrawler<RawFarmingToken> {
                         this.logger.log(`✅ ${token}: ${latest.avg.toFixed(2)}%`);
                     } else {
                         this.logger.warn(`⚠️ No valid avg APY for ${token}`);
+                        failures.push({ symbol: token, error: 'No valid avg APY in API response' });
                     }
                 } else {
                     this.logger.warn(`⚠️ Empty result for ${token}`);
+                    failures.push({ symbol: token, error: 'Empty result in API response' });
                 }
             } catch (error) {
-                this.logger.error(`❌ Failed ${token}: ${error instanceof Error ? error.message : String(error)}`);
+                const message = error instanceof Error ? error.message : String(error);
+                this.logger.error(`❌ Failed ${token}: ${message}`);
+                failures.push({ symbol: token, error: message });
             }
         }
 
         return results;
     }
 
-    protected toSnapshot(raw: RawFarmingToken): ProtocolSnapshot {
+    protected toSnapshot(raw: RawFarmingToken, network: string): ProtocolSnapshot {
         return {
             protocol: this.protocol,
-            network: this.network,
+            network,
             poolType: this.poolType,
             assetSymbol: raw.token,
             supplyApy: raw.latestApy,
@@ -1,7 +1,10 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { BaseApiCrawler, CrawlResult } from '../../../shared/crawlers/base-api.crawler';
+import { CrawlerOptions } from '../../../shared/crawlers/base.crawler';
 import { PoolConfigService } from '../../../shared/services/pool-config.service';
+import { CrawlItemFailure } from '../../../shared/entities/crawl-log.entity';
 import { Protocol, Network, PoolType, ProtocolSnapshot } from '../../../shared/entities/protocol-snapshot.entity';
+import { requireApiBase } from '../helpers/api-base';
 
 // ─── Bifrost API Response Types ───────────────────────────────────────────────
 
@@ -42,6 +45,8 @@ export interface VStakingItem {
  *
  * Extends BaseApiCrawler. Each vToken (vDOT, vETH, …) becomes a separate
  * ProtocolSnapshot with full APY history stored in `metadata.history`.
+ * Tokens and `apiBase` (optional for Bifrost Polkadot only) are read from the
+ * network's block under `bifrost:` in config/pools.yaml.
  */
 @Injectable()
 export class VStakingCrawler extends BaseApiCrawler<RawVStakingToken> {
@@ -50,29 +55,26 @@ export class VStakingCrawler extends BaseApiCrawler<RawVStakingToken> {
     protected readonly network = Network.BIFROST;
     protected readonly poolType = PoolType.VSTAKING;
 
-    private readonly apiBase = 'https://dapi.bifrost.io/api/omni';
-
     constructor(private readonly poolConfig: PoolConfigService) {
         super();
     }
 
-    protected async fetchRaw(): Promise<RawVStakingToken[]> {
-        const tokens = this.poolConfig.getTokens('bifrost', this.network, 'vstaking');
+    protected httpOverrides(network: string): CrawlerOptions {
+        return this.poolConfig.getHttpOptions('bifrost', network, 'vstaking');
+    }
+
+    protected async fetchRaw(network: string, failures: CrawlItemFailure[]): Promise<RawVStakingToken[]> {
+        const tokens = this.poolConfig.getTokens('bifrost', network, 'vstaking');
+        const apiBase = requireApiBase(this.poolConfig, network, this.poolType);
         const results: RawVStakingToken[] = [];
 
         for (const token of tokens) {
             const symbol = token.replace(/^v/, ''); // vDOT → DOT
-            const url = `${this.apiBase}/${symbol}`;
-            this.logger.log(`🌐 Fetching: ${url}`);
+            const url = `${apiBase}/${symbol}`;
+            this.logger.log(`🌐 [${network}] Fetching: ${url}`);
 
             try {
-                const response = await fetch(url);
-                if (!response.ok) {
-                    this.logger.warn(`❌ HTTP ${response.status} for ${token}: ${response.statusText}`);
-                    continue;
-                }
-
-                const json = await response.json() as { result?: BifrostOmniItem[] };
+                const json = await this.fetchJson<{ result?: BifrostOmniItem[] }>(url, {}, network);
 
                 if (json.result && Array.isArray(json.result) && json.result.length > 0) {
                     // Sort ascending so history[last] = most recent
@@ -81,16 +83,19 @@ export class VStakingCrawler extends BaseApiCrawler<RawVStakingToken> {
                     this.logger.log(`✅ ${token}: ${sorted.length} history items`);
                 } else {
                     this.logger.warn(`⚠️ No result array for ${token}`);
+                    failures.push({ symbol: token, error: 'No result array in API response' });
                 }
             } catch (error) {
-                this.logger.error(`❌ Failed ${token}: ${error instanceof Error ? error.message : String(error)}`);
+                const message = error instanceof Error ? error.message : String(error);
+                this.logger.error(`❌ Failed ${token}: ${message}`);
+                failures.push({ symbol: token, error: message });
             }
         }
 
         return results;
     }
 
-    protected toSnapshot(raw: RawVStakingToken): ProtocolSnapshot {
+    protected toSnapshot(raw: RawVStakingToken, network: string): ProtocolSnapshot {
         const latest = raw.history[raw.history.length - 1];
 
         const history: VStakingHistoryItem[] = raw.history.map((item) => ({
@@ -103,7 +108,7 @@ export class VStakingCrawler extends BaseApiCrawler<RawVStakingToken> {
 
         return {
             protocol: this.protocol,
-            network: this.network,
+            network,
             poolType: this.poolType,
             assetSymbol: raw.token,
             supplyApy: latest.avg,
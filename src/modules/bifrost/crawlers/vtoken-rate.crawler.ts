@@ -0,0 +1,95 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ApiPromise } from '@polkadot/api';
+import { BasePolkadotCrawler } from '../../../shared/crawlers/base-polkadot.crawler';
+import { PoolConfigService } from '../../../shared/services/pool-config.service';
+import { Protocol, Network, PoolType } from '../../../shared/entities/protocol-snapshot.entity';
+import { VTokenRateSnapshot } from '../entities/vtoken-rate.entity';
+import { BIFROST_RPC_ENDPOINTS, RawVTokenRate } from '../types/bifrost-chain.types';
+import { currencyKey, fromBalance, loadCurrencies, vTokenCurrencyOf } from '../helpers/vtoken-rate';
+
+// ─── Crawler ─────────────────────────────────────────────────────────────────
+
+/**
+ * VTokenRateCrawler — vToken exchange rates from Bifrost Polkadot chain state.
+ *
+ *   - staked:        `vtokenMinting.tokenPool(base)`
+ *   - issuance:      `tokens.totalIssuance(vToken)`
+ *   - exchange rate: staked / issuance (base tokens per vToken)
+ *
+ * Only vTokens listed under `bifrost.bifrost.vstaking.tokens` in
+ * config/pools.yaml are emitted; `rpcEndpoints:` in the same block overrides
+ * the default endpoints. Realised APY and TVL are derived by BifrostService,
+ * which has the stored history and prices.
+ */
+@Injectable()
+export class VTokenRateCrawler extends BasePolkadotCrawler<RawVTokenRate, VTokenRateSnapshot> {
+    protected readonly logger = new Logger(VTokenRateCrawler.name);
+    protected readonly protocol = Protocol.BIFROST;
+    protected readonly network = Network.BIFROST;
+    protected readonly poolType = PoolType.VSTAKING;
+    protected readonly defaultEndpoints = BIFROST_RPC_ENDPOINTS;
+
+    constructor(private readonly poolConfig: PoolConfigService) {
+        super();
+    }
+
+    protected endpoints(): string[] {
+        const configured = this.poolConfig.getRpcEndpoints('bifrost', this.network, this.poolType);
+        return configured.length ? configured : this.defaultEndpoints;
+    }
+
+    protected async queryChain(api: ApiPromise): Promise<RawVTokenRate[]> {
+        const wanted = new Set(this.poolConfig.getTokens('bifrost', this.network, this.poolType));
+        const [pools, currencies, header] = await Promise.all([
+            api.query.vtokenMinting.tokenPool.entries(),
+            loadCurrencies(api),
+            api.rpc.chain.getHeader(),
+        ]);
+        const blockNumber = header.number.toNumber();
+
+        const rates: RawVTokenRate[] = [];
+        for (const [storageKey, value] of pools) {
+            const baseJson = storageKey.args[0].toJSON();
+            const vCurrency = vTokenCurrencyOf(baseJson);
+            const base = currencies.get(currencyKey(baseJson));
+            if (!vCurrency || !base) continue;
+
+            const vTokenSymbol = currencies.get(currencyKey(vCurrency))?.symbol ?? `v${base.symbol}`;
+            if (wanted.size && !wanted.has(vTokenSymbol)) continue;
+
+            const issuance = await api.query.tokens.totalIssuance(vCurrency);
+            const vTokenIssuance = fromBalance(issuance.toString(), base.decimals);
+            const stakedAmount = fromBalance(value.toString(), base.decimals);
+            if (!(vTokenIssuance > 0)) {
+                this.logger.warn(`⚠️ ${vTokenSymbol} issuance is zero — skipping`);
+                continue;
+            }
+
+            rates.push({
+                vTokenSymbol,
+                baseSymbol: base.symbol,
+                currencyId: base.key,
+                stakedAmount,
+                vTokenIssuance,
+                exchangeRate: stakedAmount / vTokenIssuance,
+                blockNumber,
+            });
+            this.logger.log(`✅ ${vTokenSymbol}: 1 ${vTokenSymbol} = ${(stakedAmount / vTokenIssuance).toFixed(6)} ${base.symbol}`);
+        }
+        return rates;
+    }
+
+    protected toSnapshot(raw: RawVTokenRate): VTokenRateSnapshot {
+        return {
+            network: this.network,
+            assetSymbol: raw.vTokenSymbol,
+            baseSymbol: raw.baseSymbol,
+            currencyId: raw.currencyId,
+            exchangeRate: raw.exchangeRate,
+            vTokenIssuance: raw.vTokenIssuance,
+            stakedAmount: raw.stakedAmount,
+            blockNumber: raw.blockNumber,
+            crawledAt: new Date(),
+        };
+    }
+}
@@ -0,0 +1,76 @@
+import { Entity, ObjectIdColumn, Column, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+import { ObjectId } from 'mongodb';
+
+/**
+ * VTokenRateSnapshot — vToken ↔ base-token exchange rate read from Bifrost
+ * chain state, one document per vToken per UTC day.
+ *
+ * Stored in `bifrost_vtoken_rates`. Kept apart from `bifrost_snapshots`
+ * because the API crawl owns those documents (same unique key). The realised
+ * APY fields are derived from this collection's own history and sit next to
+ * the API's APY for the same day, so the two can be compared.
+ */
+@Entity('bifrost_vtoken_rates')
+@Index(['network', 'assetSymbol', 'snapshotDate'], { unique: true })
+export class VTokenRateSnapshot {
+    @ObjectIdColumn()
+    _id?: ObjectId;
+
+    @Column()
+    network: string;
+
+    /** vToken symbol, e.g. vDOT. */
+    @Column()
+    assetSymbol: string;
+
+    /** Base token symbol, e.g. DOT. */
+    @Column()
+    baseSymbol: string;
+
+    /** Canonical JSON of the base token's CurrencyId. */
+    @Column()
+    currencyId: string;
+
+    /** Base tokens per vToken. */
+    @Column()
+    exchangeRate: number;
+
+    /** vToken total issuance. */
+    @Column()
+    vTokenIssuance: number;
+
+    /** Base tokens staked through vtokenMinting. */
+    @Column()
+    stakedAmount: number;
+
+    /** stakedAmount × base token USD price (Hydration Omnipool). */
+    @Column({ nullable: true })
+    tvlUsd?: number;
+
+    /** APY implied by the exchange-rate growth over the last 7 / 30 days (%). */
+    @Column({ nullable: true })
+    realizedApy7d?: number;
+
+    @Column({ nullable: true })
+    realizedApy30d?: number;
+
+    /** `supplyApy` of the same day's API snapshot, for comparison (%). */
+    @Column({ nullable: true })
+    apiApy?: number;
+
+    @Column()
+    blockNumber: number;
+
+    /** UTC date key "YYYY-MM-DD" — stamped by BifrostService before upsert. */
+    @Column()
+    snapshotDate?: string;
+
+    @Column()
+    crawledAt: Date;
+
+    @CreateDateColumn()
+    createdAt?: Date;
+
+    @UpdateDateColumn({ nullable: true })
+    updatedAt?: Date;
+}
@@ -0,0 +1,25 @@
+import { PoolConfigService } from '../../../shared/services/pool-config.service';
+import { Network, Protocol } from '../../../shared/entities/protocol-snapshot.entity';
+
+/** Omni API of Bifrost Polkadot, used when its block sets no `apiBase`. */
+export const DEFAULT_API_BASE = 'https://dapi.bifrost.io/api/omni';
+
+/**
+ * `apiBase` of a network's Bifrost block. Only Bifrost Polkadot falls back to
+ * DEFAULT_API_BASE: for any other network it would store Polkadot data under
+ * that network, so those get undefined and are not crawled.
+ */
+export function resolveApiBase(poolConfig: PoolConfigService, network: string, poolType: string): string | undefined {
+    const apiBase = poolConfig.get(Protocol.BIFROST, network, poolType).apiBase;
+    if (apiBase) return apiBase;
+    return network === Network.BIFROST ? DEFAULT_API_BASE : undefined;
+}
+
+/** resolveApiBase for a crawl; throws when the network has no API base. */
+export function requireApiBase(poolConfig: PoolConfigService, network: string, poolType: string): string {
+    const apiBase = resolveApiBase(poolConfig, network, poolType);
+    if (!apiBase) {
+        throw new Error(`No apiBase configured for bifrost/${network}/${poolType} in config/pools.yaml`);
+    }
+    return apiBase;
+}
@@ -0,0 +1,47 @@
+import { ProtocolSnapshot } from '../../../shared/entities/protocol-snapshot.entity';
+import { getUtcDateKey } from '../../../shared/utils/date.util';
+import { VStakingHistoryItem } from '../crawlers/vstaking.crawler';
+
+/** `metadata.source` of documents created by the backfill. */
+export const HISTORY_BACKFILL_SOURCE = 'history_backfill';
+
+/** A snapshot document ready for insert, with its daily bucket key set. */
+export type DailySnapshotDoc = ProtocolSnapshot & { snapshotDate: string };
+
+/**
+ * Explodes the `metadata.history` of a vStaking snapshot into one document per
+ * UTC day (the last data point of a day wins). Today is skipped — it belongs
+ * to the live crawl.
+ */
+export function explodeVStakingHistory(
+    snapshot: Pick<ProtocolSnapshot, 'protocol' | 'network' | 'poolType' | 'assetSymbol' | 'metadata'>,
+    now: Date = new Date(),
+): DailySnapshotDoc[] {
+    const history = (snapshot.metadata?.['history'] as VStakingHistoryItem[] | undefined) ?? [];
+    const today = getUtcDateKey(now);
+
+    const byDay = new Map<string, VStakingHistoryItem>();
+    for (const item of [...history].sort((a, b) => a.date - b.date)) {
+        if (!Number.isFinite(item.avgApy)) continue;
+        const day = getUtcDateKey(new Date(item.date));
+        if (day < today) byDay.set(day, item);
+    }
+
+    return [...byDay.entries()].map(([snapshotDate, item]) => ({
+        protocol: snapshot.protocol,
+        network: snapshot.network,
+        poolType: snapshot.poolType,
+        assetSymbol: snapshot.assetSymbol,
+        snapshotDate,
+        supplyApy: item.avgApy,
+        dataTimestamp: new Date(item.date),
+        crawledAt: now,
+        updatedAt: now,
+        metadata: {
+            weekApy: item.weekApy,
+            monthApy: item.monthApy,
+            quarterApy: item.quarterApy,
+            source: HISTORY_BACKFILL_SOURCE,
+        },
+    }));
+}
@@ -0,0 +1,62 @@
+import { ApiPromise } from '@polkadot/api';
+import { BifrostCurrency } from '../types/bifrost-chain.types';
+
+const DAYS_PER_YEAR = 365;
+
+/** Raw balance → token units. */
+export function fromBalance(raw: unknown, decimals: number): number {
+    return Number(BigInt(String(raw ?? 0))) / 10 ** decimals;
+}
+
+/**
+ * Canonical key of a CurrencyId's JSON form, e.g. `{"token2":0}`.
+ * toJSON() already camel-cases variant names, so keys compare reliably.
+ */
+export function currencyKey(currencyJson: unknown): string {
+    return JSON.stringify(currencyJson);
+}
+
+/**
+ * The vToken minted against a base CurrencyId, in the same JSON form:
+ * Token2(n) → VToken2(n), Token(S) / Native(S) → VToken(S). Usable both as a
+ * query argument (enum keys decode case-insensitively) and with
+ * `currencyKey`. Null for currencies that cannot be staked.
+ */
+export function vTokenCurrencyOf(baseJson: unknown): Record<string, unknown> | null {
+    const id = baseJson as Record<string, unknown> | null;
+    if (id?.['token2'] != null) return { vToken2: id['token2'] };
+    if (id?.['token'] != null) return { vToken: id['token'] };
+    if (id?.['native'] != null) return { vToken: id['native'] };
+    return null;
+}
+
+/**
+ * Every registered currency by canonical CurrencyId key, from
+ * `assetRegistry.currencyMetadatas`.
+ */
+export async function loadCurrencies(api: ApiPromise): Promise<Map<string, BifrostCurrency>> {
+    const entries = await api.query.assetRegistry.currencyMetadatas.entries();
+    const currencies = new Map<string, BifrostCurrency>();
+    for (const [storageKey, value] of entries) {
+        const meta = value.toHuman() as { symbol?: string; decimals?: string } | null;
+        if (!meta?.symbol) continue;
+        const key = currencyKey(storageKey.args[0].toJSON());
+        currencies.set(key, { key, symbol: meta.symbol, decimals: Number(String(meta.decimals ?? '12').replace(/,/g, '')) });
+    }
+    return currencies;
+}
+
+/**
+ * Annualised yield implied by exchange-rate growth between two observations
+ * `days` apart, compounded daily (%). The exchange rate only grows with
+ * staking rewards, so this is the realised vToken APY net of Bifrost's fee.
+ */
+export function realizedApy(rateNow: number, ratePast: number, days: number): number | undefined {
+    if (!(rateNow > 0) || !(ratePast > 0) || !(days > 0)) return undefined;
+    return ((rateNow / ratePast) ** (DAYS_PER_YEAR / days) - 1) * 100;
+}
+
+/** Whole days between two "YYYY-MM-DD" keys. */
+export function daysBetween(fromKey: string, toKey: string): number {
+    return Math.round((Date.parse(`${toKey}T00:00:00Z`) - Date.parse(`${fromKey}T00:00:00Z`)) / 86_400_000);
+}
@@ -0,0 +1,48 @@
+/**
+ * Bifrost on-chain types and configuration.
+ *
+ * Source: Bifrost Polkadot parachain storage via @polkadot/api
+ * (vtokenMinting, tokens, assetRegistry pallets). Balances are raw integers —
+ * divide by 10^decimals; a vToken shares its base token's decimals.
+ */
+
+/** Public Bifrost Polkadot RPC endpoints, in order of preference. */
+export const BIFROST_RPC_ENDPOINTS = [
+    'wss://hk.p.bifrost-rpc.liebi.com/ws',
+    'wss://bifrost-polkadot.ibp.network',
+    'wss://bifrost-polkadot.dotters.network',
+];
+
+/**
+ * Bifrost base-token symbol → symbol of the same asset in the Hydration
+ * Omnipool, where vToken TVL is priced. Symbols not listed are the same on
+ * both chains.
+ */
+export const OMNIPOOL_PRICE_SYMBOLS: Record<string, string> = {
+    ETH: 'WETH',
+};
+
+/** Resolved CurrencyId: `key` is the canonical JSON of the on-chain enum. */
+export interface BifrostCurrency {
+    key: string;
+    symbol: string;
+    decimals: number;
+}
+
+// ─── Raw vToken Rate ─────────────────────────────────────────────────────────
+
+export interface RawVTokenRate {
+    /** vToken symbol, e.g. vDOT. */
+    vTokenSymbol: string;
+    /** Base token symbol, e.g. DOT. */
+    baseSymbol: string;
+    /** Canonical JSON of the base token's CurrencyId, e.g. `{"token2":0}`. */
+    currencyId: string;
+    /** Base tokens held by vtokenMinting (`tokenPool`). */
+    stakedAmount: number;
+    /** vToken total issuance. */
+    vTokenIssuance: number;
+    /** Base tokens per vToken (stakedAmount / vTokenIssuance). */
+    exchangeRate: number;
+    blockNumber: number;
+}
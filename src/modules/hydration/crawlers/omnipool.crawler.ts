@@ -1,11 +1,18 @@
-import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
-import { ApiPromise, WsProvider } from '@polkadot/api';
+import { Injectable, Logger } from '@nestjs/common';
+import { ApiPromise } from '@polkadot/api';
 import { Protocol, Network, PoolType, ProtocolSnapshot } from '../../../shared/entities/protocol-snapshot.entity';
-import { CrawlResult } from '../../../shared/crawlers/base-api.crawler';
-import { scrapeHydrationVolumes } from '../helpers/volume-scraper';
+import { BasePolkadotCrawler } from '../../../shared/crawlers/base-polkadot.crawler';
+import { PoolConfigService } from '../../../shared/services/pool-config.service';
+import {
+    TradeVolumeWindow,
+    omnipoolVolumeKey,
+    stableswapVolumeKey,
+    xykVolumeKey,
+} from '../helpers/trade-volume';
 
 // ─── Constants ───────────────────────────────────────────────────────────────
 
+/** Fallback when `hydration.hydration.dex.rpcEndpoints` is not configured. */
 const RPC_ENDPOINTS = [
     'wss://rpc.hydradx.cloud',
     'wss://hydration-rpc.n.dwellir.com',
@@ -15,7 +22,11 @@ const RPC_ENDPOINTS = [
 /** USDT asset ID on Hydration — used as USD reference for spot prices */
 const USDT_ASSET_ID = '10';
 
-const WS_TIMEOUT_MS = 60_000;
+/** 24h of 6-second blocks. Override with `volumeWindowBlocks` in pools.yaml. */
+const DEFAULT_VOLUME_WINDOW_BLOCKS = 14_400;
+
+/** Blocks read per crawl while the window fills. Override with `volumeMaxBlocksPerCrawl`. */
+const DEFAULT_VOLUME_MAX_BLOCKS_PER_CRAWL = 3_600;
 
 // ─── Crawler ─────────────────────────────────────────────────────────────────
 
@@ -26,85 +37,72 @@ const WS_TIMEOUT_MS = 60_000;
  * XYK, Aave, HSM) via WebSocket RPC. Calculates TVL from spot prices and
  * fetches farm APRs via FarmClient.
  *
- * Volume data is scraped from the Hydration UI as a best-effort supplement.
+ * Connection reuse and RPC failover come from BasePolkadotCrawler. Snapshots
+ * are assembled in `queryChain()` because an Omnipool fans out to one
+ * snapshot per asset, so `toSnapshot()` is a pass-through.
+ *
+ * 24h volume is aggregated from the chain's own swap events over a rolling
+ * window of finalized blocks (see TradeVolumeWindow), priced at the crawl's
+ * spot prices and keyed by Omnipool asset id / isolated pool id, so it does
+ * not depend on display symbols. `volume24hUsd` stays unset until the window
+ * has filled after a restart.
  */
 @Injectable()
-export class HydrationOmnipoolCrawler implements OnModuleDestroy {
-    private readonly logger = new Logger(HydrationOmnipoolCrawler.name);
-    private api: ApiPromise | null = null;
-
-    async onModuleDestroy(): Promise<void> {
-        if (this.api?.isConnected) {
-            await this.api.disconnect();
-            this.api = null;
-        }
+export class HydrationOmnipoolCrawler extends BasePolkadotCrawler<ProtocolSnapshot> {
+    protected readonly logger = new Logger(HydrationOmnipoolCrawler.name);
+    protected readonly protocol = Protocol.HYDRATION;
+    protected readonly network = Network.HYDRATION;
+    protected readonly poolType = PoolType.DEX;
+    protected readonly defaultEndpoints = RPC_ENDPOINTS;
+
+    private volumeWindow: TradeVolumeWindow | null = null;
+
+    constructor(private readonly poolConfig: PoolConfigService) {
+        super();
     }
 
-    // ─── Main entry point ────────────────────────────────────────────────────
+    protected endpoints(): string[] {
+        const configured = this.poolConfig.getRpcEndpoints('hydration', this.network, this.poolType);
+        return configured.length ? configured : this.defaultEndpoints;
+    }
 
-    async crawl(): Promise<CrawlResult<ProtocolSnapshot>> {
-        const startTime = Date.now();
-        this.logger.log('🚀 [hydration/hydration/dex] Starting SDK-based crawl');
+    // ─── Main entry point ────────────────────────────────────────────────────
 
-        let api: ApiPromise | null = null;
+    protected async queryChain(api: ApiPromise): Promise<ProtocolSnapshot[]> {
         let sdk: any = null;
 
         try {
-            // 1. Connect WebSocket
-            this.logger.log('🔗 Connecting to Hydration RPC...');
-            const wsProvider = new WsProvider(RPC_ENDPOINTS[0], 2_500, {}, WS_TIMEOUT_MS);
-            api = await ApiPromise.create({ provider: wsProvider });
-            this.api = api;
-            this.logger.log(`✅ Connected to: ${(await api.rpc.system.chain()).toString()}`);
-
-            // 2. Create SDK context + FarmClient (ESM dynamic imports)
+            // 1. Create SDK context + FarmClient (ESM dynamic imports)
             const { createSdkContext, FarmClient } = await import('@galacticcouncil/sdk');
             sdk = createSdkContext(api);
             const farmClient = new FarmClient(api);
 
-            // 3. Get all pools
+            // 2. Get all pools
             const pools: any[] = await sdk.ctx.pool.getPools();
             this.logger.log(`🔍 Found ${pools.length} pools`);
 
-            // 4. Fetch spot prices (all unique tokens → USDT)
+            // 3. Fetch spot prices (all unique tokens → USDT)
             const spotPrices = await this.fetchSpotPrices(sdk, pools);
 
-            // 5. Fetch farm APRs
+            // 4. Fetch farm APRs
             const farmAprs = await this.fetchFarmAprs(farmClient, pools);
 
-            // 6. Scrape volumes (graceful fallback)
-            const volumes = await this.fetchVolumes();
-
-            // 7. Build snapshots
-            const data = this.buildSnapshots(pools, spotPrices, farmAprs, volumes);
-            this.logger.log(`✅ Crawl complete — ${data.length} snapshots`);
-
-            const duration = Date.now() - startTime;
-            return {
-                protocol: Protocol.HYDRATION,
-                network: Network.HYDRATION,
-                poolType: PoolType.DEX,
-                timestamp: new Date().toISOString(),
-                duration,
-                itemsFound: data.length,
-                data,
-            };
-        } catch (error) {
-            this.logger.error(
-                `❌ Crawl failed: ${error instanceof Error ? error.message : String(error)}`,
-            );
-            throw error;
+            // 5. Aggregate on-chain trade volume (graceful fallback)
+            const volumes = await this.fetchVolumes(api, pools, spotPrices);
+
+            // 6. Build snapshots
+            return this.buildSnapshots(pools, spotPrices, farmAprs, volumes);
         } finally {
             if (sdk) {
                 try { sdk.destroy(); } catch { /* ignore */ }
             }
-            if (api?.isConnected) {
-                await api.disconnect();
-            }
-            this.api = null;
         }
     }
 
+    protected toSnapshot(raw: ProtocolSnapshot): ProtocolSnapshot {
+        return raw;
+    }
+
     // ─── Spot Prices ─────────────────────────────────────────────────────────
 
     private async fetchSpotPrices(
@@ -203,25 +201,64 @@ export class HydrationOmnipoolCrawler implements OnModuleDestroy {
 
     // ─── Volumes ─────────────────────────────────────────────────────────────
 
-    private async fetchVolumes(): Promise<Map<string, number>> {
-        this.logger.log('📊 Scraping 24H volumes from UI...');
+    /**
+     * USD volume per volume key over the trade window, or null while the
+     * window is still filling or could not be synced.
+     */
+    private async fetchVolumes(
+        api: ApiPromise,
+        pools: any[],
+        spotPrices: Map<string, number>,
+    ): Promise<Map<string, number> | null> {
+        this.logger.log('📊 Aggregating 24H volumes from trade events...');
+        const decimals = new Map<string, number>();
+        for (const pool of pools) {
+            pool.tokens?.forEach((t: any) => {
+                if (t.id && t.decimals != null) decimals.set(t.id, Number(t.decimals));
+            });
+        }
+
         try {
-            return await scrapeHydrationVolumes();
+            const window = this.getVolumeWindow();
+            await window.sync(api);
+            return window.volumesUsd(spotPrices, decimals);
         } catch (error) {
             this.logger.warn(
-                `⚠️ Volume scrape failed: ${error instanceof Error ? error.message : String(error)}`,
+                `⚠️ Volume aggregation failed: ${error instanceof Error ? error.message : String(error)}`,
             );
-            return new Map();
+            return null;
         }
     }
 
+    private getVolumeWindow(): TradeVolumeWindow {
+        if (!this.volumeWindow) {
+            const config = this.poolConfig.get('hydration', this.network, this.poolType);
+            this.volumeWindow = new TradeVolumeWindow(
+                Number(config.volumeWindowBlocks) || DEFAULT_VOLUME_WINDOW_BLOCKS,
+                Number(config.volumeMaxBlocksPerCrawl) || DEFAULT_VOLUME_MAX_BLOCKS_PER_CRAWL,
+                this.logger,
+            );
+        }
+        return this.volumeWindow;
+    }
+
+    /** Window volume for `key`: 0 when nothing traded, undefined without a complete window. */
+    private volumeOf(volumes: Map<string, number> | null, key: string): number | undefined {
+        return volumes ? volumes.get(key) ?? 0 : undefined;
+    }
+
+    /** Stableswap volume is keyed by pool id, XYK by pool address. */
+    private isolatedVolumeKey(pool: any): string {
+        return pool.type === 'Stableswap' ? stableswapVolumeKey(String(pool.id ?? pool.address)) : xykVolumeKey(pool.address);
+    }
+
     // ─── Build Snapshots ─────────────────────────────────────────────────────
 
     private buildSnapshots(
         pools: any[],
         spotPrices: Map<string, number>,
         farmAprs: Map<string, string>,
-        volumes: Map<string, number>,
+        volumes: Map<string, number> | null,
     ): ProtocolSnapshot[] {
         const snapshots: ProtocolSnapshot[] = [];
         const now = new Date();
@@ -241,7 +278,7 @@ export class HydrationOmnipoolCrawler implements OnModuleDestroy {
                         ? parseFloat(farmAprStr)
                         : undefined;
 
-                    const volume24hUsd = volumes.get(symbol);
+                    const volume24hUsd = this.volumeOf(volumes, omnipoolVolumeKey(token.id));
 
                     snapshots.push({
                         protocol: Protocol.HYDRATION,
@@ -283,7 +320,10 @@ export class HydrationOmnipoolCrawler implements OnModuleDestroy {
                     ? parseFloat(farmAprStr)
                     : undefined;
 
-                const volume24hUsd = volumes.get(assetSymbol);
+                // Aave and HSM pools emit no swap events of their own
+                const volume24hUsd = pool.type === 'Stableswap' || pool.type === 'Xyk'
+                    ? this.volumeOf(volumes, this.isolatedVolumeKey(pool))
+                    : undefined;
 
                 snapshots.push({
                     protocol: Protocol.HYDRATION,
@@ -297,6 +337,8 @@ export class HydrationOmnipoolCrawler implements OnModuleDestroy {
                     metadata: {
                         poolCategory: pool.type || 'Unknown',
                         poolAddress: pool.address,
+                        // Stableswap only — needed to model impermanent loss on the invariant
+                        amplification: pool.amplification != null ? Number(pool.amplification) : undefined,
                         volume24hUsd,
                         tokens: (pool.tokens || []).map((t: any) => ({
                             id: t.id,
@@ -0,0 +1,28 @@
+import { IsOptional, IsString, IsDate } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class ImpermanentLossQueryDto {
+    /** Pool asset symbol as stored, e.g. "DOT" (Omnipool) or "USDT/USDC/DAI" */
+    @IsString()
+    asset: string;
+
+    /** Defaults to "hydration". */
+    @IsOptional()
+    @IsString()
+    network?: string;
+
+    /** Omnipool, Stableswap, Xyk… — needed only when the symbol exists in several pools; defaults to the latest snapshot's. */
+    @IsOptional()
+    @IsString()
+    poolCategory?: string;
+
+    @IsOptional()
+    @Type(() => Date)
+    @IsDate()
+    from?: Date;
+
+    @IsOptional()
+    @Type(() => Date)
+    @IsDate()
+    to?: Date;
+}
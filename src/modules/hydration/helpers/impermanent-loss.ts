@@ -0,0 +1,120 @@
+/**
+ * Impermanent-loss math for Hydration pool models.
+ *
+ * Every function takes price *ratios* r = p(t) / p(entry) per token and returns
+ * the value of an LP position and of the equivalent held tokens, both
+ * normalised so that the entry value is 1. IL = lpValue / holdValue − 1 (≤ 0).
+ *
+ * Fees and farm rewards are ignored here — they are added back separately from
+ * the pool's APY when comparing hold vs LP.
+ */
+
+export interface IlPoint {
+    holdValue: number;
+    lpValue: number;
+    impermanentLoss: number;  // fraction, e.g. -0.0123 = -1.23%
+}
+
+/** Default Stableswap amplification when the snapshot doesn't carry one. */
+export const DEFAULT_STABLESWAP_AMPLIFICATION = 100;
+
+function toPoint(holdValue: number, lpValue: number): IlPoint {
+    return {
+        holdValue,
+        lpValue,
+        impermanentLoss: holdValue > 0 ? lpValue / holdValue - 1 : 0,
+    };
+}
+
+/**
+ * Equal-weight constant-product pool (XYK generalised to n tokens).
+ * Entry value is split evenly across tokens; the invariant Π x_i stays fixed.
+ *
+ *   hold = mean(r_i)          lp = Π r_i^(1/n)
+ */
+export function constantProductIl(ratios: number[]): IlPoint {
+    const n = ratios.length;
+    const hold = ratios.reduce((sum, r) => sum + r, 0) / n;
+    const lp = Math.exp(ratios.reduce((sum, r) => sum + Math.log(r), 0) / n);
+    return toPoint(hold, lp);
+}
+
+/**
+ * Single-sided Omnipool position. Hydration pairs every asset against the hub
+ * asset (H2O/LRNA), so the LP's exposure is a constant-product position of the
+ * asset vs the hub: IL depends on the asset's price ratio relative to the hub.
+ *
+ * `hubRatio` is the hub asset's price ratio over the same period.
+ */
+export function omnipoolIl(assetRatio: number, hubRatio: number): IlPoint {
+    const q = assetRatio / hubRatio;
+    const ilFactor = (2 * Math.sqrt(q)) / (1 + q);
+    return toPoint(assetRatio, assetRatio * ilFactor);
+}
+
+/**
+ * Curve-style Stableswap invariant with amplification A:
+ *
+ *   A·nⁿ·Σx + D = A·D·nⁿ + D^(n+1) / (nⁿ·Πx)
+ *
+ * Arbitrage moves the pool to the balances that minimise Σ pᵢxᵢ on the
+ * invariant surface. From the Lagrange conditions every balance has the form
+ * xᵢ = K / (λ·pᵢ − A·nⁿ) with K^(n+1) = D^(n+1)·Π(λ·pᵢ − A·nⁿ) / nⁿ, leaving a
+ * single unknown λ which is found by bisection on the invariant.
+ */
+export function stableswapBalances(prices: number[], amplification: number, d = 1): number[] {
+    const n = prices.length;
+    const nn = n ** n;
+    const ann = amplification * nn;
+    const scale = prices.reduce((sum, p) => sum + p, 0) / n;
+    const p = prices.map(v => v / scale);
+
+    const balancesFor = (lambda: number): { x: number[]; k: number } => {
+        const terms = p.map(pi => lambda * pi - ann);
+        const logK = (
+            (n + 1) * Math.log(d)
+            + terms.reduce((sum, t) => sum + Math.log(t), 0)
+            - Math.log(nn)
+        ) / (n + 1);
+        const k = Math.exp(logK);
+        return { x: terms.map(t => k / t), k };
+    };
+
+    // Decreasing in λ: +∞ as λ → A·nⁿ / min(p), −∞ as λ → ∞
+    const invariantGap = (lambda: number): number => {
+        const { x, k } = balancesFor(lambda);
+        return ann * x.reduce((sum, xi) => sum + xi, 0) + d - ann * d - k;
+    };
+
+    let lo = ann / Math.min(...p);
+    let hi = lo * 2 + n;
+    while (invariantGap(hi) > 0) hi *= 2;
+    for (let i = 0; i < 200; i++) {
+        const mid = (lo + hi) / 2;
+        if (invariantGap(mid) > 0) lo = mid;
+        else hi = mid;
+    }
+    return balancesFor((lo + hi) / 2).x;
+}
+
+/**
+ * Stableswap IL: entry balances are the arbitrage equilibrium at entry prices,
+ * current balances the equilibrium at current prices, with D held constant.
+ */
+export function stableswapIl(
+    entryPrices: number[],
+    currentPrices: number[],
+    amplification = DEFAULT_STABLESWAP_AMPLIFICATION,
+): IlPoint {
+    const entryBalances = stableswapBalances(entryPrices, amplification);
+    const currentBalances = stableswapBalances(currentPrices, amplification);
+
+    const valueAt = (prices: number[], balances: number[]) =>
+        prices.reduce((sum, p, i) => sum + p * balances[i], 0);
+
+    const entryValue = valueAt(entryPrices, entryBalances);
+    return toPoint(
+        valueAt(currentPrices, entryBalances) / entryValue,
+        valueAt(currentPrices, currentBalances) / entryValue,
+    );
+}
@@ -0,0 +1,92 @@
+/**
+ * Swap cost estimates for moving value between assets on Hydration.
+ *
+ * Costs are built from stored pool snapshots only: the fee tier implied by
+ * `metadata.poolCategory` plus a price-impact term of amount / pool TVL (the
+ * first-order slippage of a constant-product trade).
+ */
+
+/** Approximate LP + protocol fee per pool category (fraction of amount). */
+export const POOL_CATEGORY_FEE_RATE: Record<string, number> = {
+    Omnipool: 0.0025,
+    Stableswap: 0.0004,
+    Xyk: 0.003,
+};
+
+const DEFAULT_FEE_RATE = POOL_CATEGORY_FEE_RATE.Omnipool;
+const MAX_PRICE_IMPACT = 0.5;
+
+/** Daily TVL of one pool plus the tokens it holds. */
+export interface PoolLiquidity {
+    category: string;
+    tokens: string[];               // Omnipool: [assetSymbol]; others: every token symbol
+    tvlByDate: Map<string, number>;
+}
+
+export interface SwapCostQuote {
+    fromAsset: string;
+    toAsset: string;
+    amountUsd: number;
+    route: string;                  // pool category used, or 'none' for same-asset
+    feeRate: number;
+    priceImpact: number;
+    feeUsd: number;
+}
+
+/** TVL on `date`, or the closest earlier day, or the earliest known day. */
+function tvlAt(pool: PoolLiquidity, date: string): number | undefined {
+    let best: string | undefined;
+    for (const d of pool.tvlByDate.keys()) {
+        if (d <= date && (!best || d > best)) best = d;
+    }
+    if (!best) best = [...pool.tvlByDate.keys()].sort()[0];
+    return best ? pool.tvlByDate.get(best) : undefined;
+}
+
+/**
+ * Prefers an isolated pool (Stableswap/XYK) holding both assets; otherwise
+ * routes through the Omnipool, paying impact on both the sell and buy side.
+ */
+export function estimateSwapCost(
+    pools: PoolLiquidity[],
+    fromAsset: string,
+    toAsset: string,
+    amountUsd: number,
+    date: string,
+): SwapCostQuote {
+    const quote = (route: string, feeRate: number, priceImpact: number): SwapCostQuote => {
+        const impact = Math.min(priceImpact, MAX_PRICE_IMPACT);
+        return {
+            fromAsset,
+            toAsset,
+            amountUsd,
+            route,
+            feeRate,
+            priceImpact: impact,
+            feeUsd: amountUsd * (feeRate + impact),
+        };
+    };
+
+    if (fromAsset === toAsset || amountUsd <= 0) return quote('none', 0, 0);
+
+    const isolated = pools
+        .filter(p => p.category !== 'Omnipool' && p.tokens.includes(fromAsset) && p.tokens.includes(toAsset))
+        .map(p => ({ pool: p, tvl: tvlAt(p, date) ?? 0 }))
+        .sort((a, b) => b.tvl - a.tvl)[0];
+    if (isolated && isolated.tvl > 0) {
+        return quote(
+            isolated.pool.category,
+            POOL_CATEGORY_FEE_RATE[isolated.pool.category] ?? DEFAULT_FEE_RATE,
+            amountUsd / isolated.tvl,
+        );
+    }
+
+    const omnipoolTvl = (asset: string) => {
+        const pool = pools.find(p => p.category === 'Omnipool' && p.tokens[0] === asset);
+        return pool ? tvlAt(pool, date) : undefined;
+    };
+    const impact = [omnipoolTvl(fromAsset), omnipoolTvl(toAsset)]
+        .reduce<number>((sum, tvl) => sum + (tvl && tvl > 0 ? amountUsd / tvl : 0), 0);
+
+    return quote('Omnipool', POOL_CATEGORY_FEE_RATE.Omnipool, impact);
+}
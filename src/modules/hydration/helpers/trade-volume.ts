@@ -0,0 +1,213 @@
+import { Logger } from '@nestjs/common';
+import { ApiPromise } from '@polkadot/api';
+
+// ─── Trades ──────────────────────────────────────────────────────────────────
+
+/** One swap decoded from a block's events, raw (undecimalised) amounts. */
+export interface PoolTrade {
+    /** Volume keys the trade counts towards (`omnipool:<assetId>`, `stableswap:<poolId>`, `xyk:<address>`). */
+    keys: string[];
+    assetIn: string;
+    assetOut: string;
+    amountIn: bigint;
+    amountOut: bigint;
+}
+
+/** Omnipool volume is per asset: a trade counts for both sides. */
+export function omnipoolVolumeKey(assetId: string): string {
+    return `omnipool:${assetId}`;
+}
+
+/** Stableswap pools are keyed by pool id (the share asset id). */
+export function stableswapVolumeKey(poolId: string): string {
+    return `stableswap:${poolId}`;
+}
+
+/** XYK pools are keyed by pool account address. */
+export function xykVolumeKey(address: string): string {
+    return `xyk:${address}`;
+}
+
+/** LRNA — the Omnipool hub asset every Omnipool trade routes through. */
+const HUB_ASSET_ID = '1';
+
+type EventFields = Record<string, { toString(): string }>;
+
+/**
+ * Swaps in one block's `system.events`. Router trades emit the underlying
+ * pool events too, so `router.*` is ignored to avoid double counting.
+ *
+ *   - omnipool.SellExecuted / BuyExecuted   { assetIn, assetOut, amountIn, amountOut }
+ *   - stableswap.SellExecuted / BuyExecuted { poolId, assetIn, assetOut, amountIn, amountOut }
+ *   - xyk.SellExecuted  { assetIn, assetOut, amount (in), salePrice (out), pool }
+ *   - xyk.BuyExecuted   { assetIn, assetOut, amount (out), buyPrice (in), pool }
+ */
+export function decodeTrades(records: Array<{ event: { section: string; method: string; data: unknown } }>): PoolTrade[] {
+    const trades: PoolTrade[] = [];
+    for (const { event } of records) {
+        if (event.method !== 'SellExecuted' && event.method !== 'BuyExecuted') continue;
+        const data = event.data as EventFields;
+        const field = (name: string) => data[name]?.toString();
+
+        const assetIn = field('assetIn');
+        const assetOut = field('assetOut');
+        if (assetIn == null || assetOut == null) continue;
+
+        if (event.section === 'omnipool') {
+            trades.push({
+                keys: [assetIn, assetOut].filter(id => id !== HUB_ASSET_ID).map(omnipoolVolumeKey),
+                assetIn,
+                assetOut,
+                amountIn: BigInt(field('amountIn') ?? 0),
+                amountOut: BigInt(field('amountOut') ?? 0),
+            });
+        } else if (event.section === 'stableswap') {
+            trades.push({
+                keys: [stableswapVolumeKey(field('poolId'))],
+                assetIn,
+                assetOut,
+                amountIn: BigInt(field('amountIn') ?? 0),
+                amountOut: BigInt(field('amountOut') ?? 0),
+            });
+        } else if (event.section === 'xyk') {
+            const isSell = event.method === 'SellExecuted';
+            const amount = BigInt(field('amount') ?? 0);
+            const counter = BigInt(field(isSell ? 'salePrice' : 'buyPrice') ?? 0);
+            trades.push({
+                keys: [xykVolumeKey(field('pool'))],
+                assetIn,
+                assetOut,
+                amountIn: isSell ? amount : counter,
+                amountOut: isSell ? counter : amount,
+            });
+        }
+    }
+    return trades;
+}
+
+/**
+ * USD value of a trade: the sold side at its spot price, else the bought
+ * side. Undefined when neither asset is priced.
+ */
+export function tradeValueUsd(
+    trade: PoolTrade,
+    prices: Map<string, number>,
+    decimals: Map<string, number>,
+): number | undefined {
+    for (const [assetId, amount] of [[trade.assetIn, trade.amountIn], [trade.assetOut, trade.amountOut]] as const) {
+        const price = prices.get(assetId);
+        const dec = decimals.get(assetId);
+        if (price > 0 && dec != null) return (Number(amount) / 10 ** dec) * price;
+    }
+    return undefined;
+}
+
+// ─── Rolling window ──────────────────────────────────────────────────────────
+
+/** Blocks read in parallel while syncing. */
+const READ_CONCURRENCY = 20;
+
+/**
+ * TradeVolumeWindow — swaps over the last `windowBlocks` finalized blocks,
+ * kept between crawls so each crawl only reads the blocks produced since the
+ * previous one.
+ *
+ * A sync first reads new blocks, then spends what is left of
+ * `maxBlocksPerSync` extending the window backwards. A cold start therefore
+ * takes a few crawls to fill; until then `volumesUsd()` returns null rather
+ * than an understated figure. When more than `maxBlocksPerSync` blocks were
+ * missed (e.g. downtime), the window restarts from the head.
+ */
+export class TradeVolumeWindow {
+    private readonly trades = new Map<number, PoolTrade[]>();
+    /** Covered block range, inclusive; empty while `to < from`. */
+    private from = 0;
+    private to = -1;
+    private floor = 0;
+
+    constructor(
+        private readonly windowBlocks: number,
+        private readonly maxBlocksPerSync: number,
+        private readonly logger: Logger,
+    ) { }
+
+    get isComplete(): boolean {
+        return this.to >= this.from && this.from <= this.floor;
+    }
+
+    /** Blocks currently covered. */
+    get coveredBlocks(): number {
+        return Math.max(0, this.to - this.from + 1);
+    }
+
+    async sync(api: ApiPromise): Promise<void> {
+        const head = (await api.rpc.chain.getHeader(await api.rpc.chain.getFinalizedHead())).number.toNumber();
+        this.floor = Math.max(1, head - this.windowBlocks + 1);
+        let budget = this.maxBlocksPerSync;
+
+        if (this.to < this.from || head - this.to > budget || this.to < this.floor) {
+            if (this.to >= this.from) this.logger.warn(`⚠️ Trade window fell behind by ${head - this.to} blocks — restarting`);
+            this.trades.clear();
+            this.from = head + 1;
+            this.to = head;
+        }
+
+        // New blocks first, so the head of the window is always current
+        if (head > this.to) {
+            await this.readBlocks(api, this.to + 1, head);
+            budget -= head - this.to;
+            this.to = head;
+        }
+
+        // Then extend backwards towards the floor
+        const backTo = Math.max(this.floor, this.from - budget);
+        if (backTo < this.from) {
+            await this.readBlocks(api, backTo, this.from - 1);
+            this.from = backTo;
+        }
+
+        for (const block of this.trades.keys()) {
+            if (block < this.floor) this.trades.delete(block);
+        }
+        this.from = Math.max(this.from, this.floor);
+
+        this.logger.log(
+            `📊 Trade window: blocks ${this.from}–${this.to} (${this.coveredBlocks}/${this.windowBlocks})` +
+            (this.isComplete ? '' : ' — still filling'),
+        );
+    }
+
+    /**
+     * USD volume per volume key over the window, priced at the given spot
+     * prices. Null until the window is complete.
+     */
+    volumesUsd(prices: Map<string, number>, decimals: Map<string, number>): Map<string, number> | null {
+        if (!this.isComplete) return null;
+        const volumes = new Map<string, number>();
+        let unpriced = 0;
+        for (const blockTrades of this.trades.values()) {
+            for (const trade of blockTrades) {
+                const value = tradeValueUsd(trade, prices, decimals);
+                if (value == null) {
+                    unpriced++;
+                    continue;
+                }
+                for (const key of trade.keys) volumes.set(key, (volumes.get(key) ?? 0) + value);
+            }
+        }
+        if (unpriced) this.logger.warn(`⚠️ ${unpriced} trades without a spot price left out of volumes`);
+        return volumes;
+    }
+
+    private async readBlocks(api: ApiPromise, first: number, last: number): Promise<void> {
+        for (let start = first; start <= last; start += READ_CONCURRENCY) {
+            const numbers = Array.from({ length: Math.min(READ_CONCURRENCY, last - start + 1) }, (_, i) => start + i);
+            await Promise.all(numbers.map(async (n) => {
+                const hash = await api.rpc.chain.getBlockHash(n);
+                const events = await (await api.at(hash)).query.system.events();
+                const trades = decodeTrades(events as unknown as Parameters<typeof decodeTrades>[0]);
+                if (trades.length) this.trades.set(n, trades);
+            }));
+        }
+    }
+}
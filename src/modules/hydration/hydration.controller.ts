@@ -1,18 +1,24 @@
-import { Controller, Get, Logger } from '@nestjs/common';
+import { Controller, Get, Logger, Query, UsePipes, ValidationPipe } from '@nestjs/common';
 import { HydrationService } from './hydration.service';
+import { ImpermanentLossService } from './impermanent-loss.service';
+import { ImpermanentLossQueryDto } from './dto/impermanent-loss-query.dto';
+import { getUtcDateKey } from '../../shared/utils/date.util';
 
 @Controller('hydration')
 export class HydrationController {
     private readonly logger = new Logger(HydrationController.name);
 
-    constructor(private readonly hydrationService: HydrationService) { }
+    constructor(
+        private readonly hydrationService: HydrationService,
+        private readonly impermanentLossService: ImpermanentLossService,
+    ) { }
 
     /**
      * GET /hydration/crawl/pools
      *
-     * Triggers a full Playwright crawl of Hydration omnipool + stablepools.
-     * Paginates through all pages and returns Pool Asset, Price, 24H Volume,
-     * TVL, and Fee+Farm APR for every pool.
+     * Triggers a full on-chain crawl of Hydration pools (Omnipool, Stableswap,
+     * XYK…) and returns Price, 24H Volume (from swap events), TVL and Farm APR
+     * for every pool.
      */
     @Get('crawl/pools')
     async crawlPools() {
@@ -31,4 +37,41 @@ export class HydrationController {
             data: result.data,
         };
     }
+
+    /**
+     * GET /hydration/rpc/health
+     *
+     * Connects to every configured RPC endpoint and reports reachability,
+     * latency, peers and sync state. Crawls fail over in the same order.
+     */
+    @Get('rpc/health')
+    async getRpcHealth() {
+        this.logger.log('GET /hydration/rpc/health');
+        const data = await this.hydrationService.checkRpcEndpoints();
+        return { success: true, count: data.length, data };
+    }
+
+    /**
+     * GET /hydration/impermanent-loss?asset=DOT
+     * GET /hydration/impermanent-loss?asset=USDT/USDC/DAI&from=2026-02-01&to=2026-02-28
+     * GET /hydration/impermanent-loss?asset=USDT&poolCategory=Omnipool
+     *
+     * Rebuilds the pool's daily price path from stored snapshots and returns the
+     * impermanent-loss series plus a hold-vs-LP comparison. Defaults to the
+     * last 30 days.
+     */
+    @Get('impermanent-loss')
+    @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+    async getImpermanentLoss(@Query() query: ImpermanentLossQueryDto) {
+        this.logger.log(`GET /hydration/impermanent-loss — asset: ${query.asset}`);
+        const to = query.to ?? new Date();
+        const from = query.from ?? new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+        const data = await this.impermanentLossService.getReport(
+            query.asset,
+            getUtcDateKey(from),
+            getUtcDateKey(to),
+            { network: query.network, poolCategory: query.poolCategory },
+        );
+        return { success: true, data };
+    }
 }
@@ -2,12 +2,16 @@ import { Module } from '@nestjs/common';
 import { HydrationService } from './hydration.service';
 import { HydrationController } from './hydration.controller';
 import { HydrationOmnipoolCrawler } from './crawlers/omnipool.crawler';
+import { ImpermanentLossService } from './impermanent-loss.service';
+import { SwapCostService } from './swap-cost.service';
 
 /**
  * HydrationModule — Hydration DEX liquidity indexer.
  *
- * Crawls https://app.hydration.net/liquidity/omnipool-stablepools via Playwright.
- * Covers: Omnipool + Stablepools across all paginated pages.
+ * Reads every Hydration pool (Omnipool, Stableswap, XYK, Aave, HSM) over RPC;
+ * 24h volume is aggregated from on-chain swap events.
+ * Also serves impermanent-loss and swap-cost models built from the stored
+ * daily snapshots.
  *
  * TypeORM repository (HydrationSnapshot) is registered in AppModule
  * via TypeOrmModule.forFeature([HydrationSnapshot]).
@@ -19,7 +23,9 @@ import { HydrationOmnipoolCrawler } from './crawlers/omnipool.crawler';
     providers: [
         HydrationOmnipoolCrawler,
         HydrationService,
+        ImpermanentLossService,
+        SwapCostService,
     ],
-    exports: [HydrationService],
+    exports: [HydrationService, ImpermanentLossService, SwapCostService],
 })
 export class HydrationModule { }
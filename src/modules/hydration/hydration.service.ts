@@ -1,9 +1,12 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { MongoRepository } from 'typeorm';
 import { HydrationOmnipoolCrawler } from './crawlers/omnipool.crawler';
-import { HydrationSnapshot, Protocol, PoolType } from '../../shared/entities/protocol-snapshot.entity';
+import { HydrationSnapshot, Protocol, Network, PoolType } from '../../shared/entities/protocol-snapshot.entity';
+import { CrawlResult } from '../../shared/crawlers/base-api.crawler';
 import { ActivityLogService } from '../../shared/services/activity-log.service';
+import { ProtocolRegistryService } from '../../shared/services/protocol-registry.service';
+import { RpcEndpointHealth } from '../../shared/crawlers/base-polkadot.crawler';
 import { getUtcDateKey } from '../../shared/utils/date.util';
 
 export interface HydrationCrawlResult {
@@ -17,7 +20,7 @@ export interface HydrationCrawlResult {
 }
 
 @Injectable()
-export class HydrationService {
+export class HydrationService implements OnModuleInit {
     private readonly logger = new Logger(HydrationService.name);
 
     constructor(
@@ -25,29 +28,38 @@ export class HydrationService {
         private readonly repository: MongoRepository<HydrationSnapshot>,
         private readonly omnipoolCrawler: HydrationOmnipoolCrawler,
         private readonly activityLog: ActivityLogService,
+        private readonly registry: ProtocolRegistryService,
     ) { }
 
+    onModuleInit() {
+        this.registry.register({
+            protocol: Protocol.HYDRATION,
+            label: 'Hydration',
+            repository: this.repository,
+            crawls: [{ label: 'Hydration', run: () => this.crawlPools() }],
+            summaryFields: { volume24hUsd: 'volume24hUsd', priceUsd: 'priceUsd', poolCategory: 'poolCategory' },
+        });
+    }
+
     async crawlPools(): Promise<HydrationCrawlResult> {
         this.logger.log('🔄 Starting Hydration omnipool + stablepools crawl...');
-        const result = await this.omnipoolCrawler.crawl();
+        return this.activityLog.track(
+            { protocol: Protocol.HYDRATION, network: Network.HYDRATION, poolType: PoolType.DEX },
+            async () => {
+                const result = (await this.omnipoolCrawler.crawl()) as CrawlResult<HydrationSnapshot>;
 
-        if (result.data && result.data.length > 0) {
-            await this.upsertSnapshots(result.data as HydrationSnapshot[]);
-            this.logger.log(`💾 Persisted ${result.data.length} Hydration pool snapshots`);
-        }
-
-        await this.activityLog.recordSuccess({
-            protocol: Protocol.HYDRATION,
-            network: result.network,
-            poolType: PoolType.DEX,
-            itemsFound: result.itemsFound,
-            durationMs: result.duration,
-        });
+                if (result.data && result.data.length > 0) {
+                    await this.upsertSnapshots(result.data);
+                    this.logger.log(`💾 Persisted ${result.data.length} Hydration pool snapshots`);
+                }
+                return result;
+            },
+        );
+    }
 
-        return {
-            ...result,
-            data: result.data as HydrationSnapshot[],
-        };
+    /** Probes every configured Hydration RPC endpoint. */
+    async checkRpcEndpoints(): Promise<RpcEndpointHealth[]> {
+        return this.omnipoolCrawler.checkEndpoints();
     }
 
     private async upsertSnapshots(snapshots: HydrationSnapshot[]): Promise<void> {
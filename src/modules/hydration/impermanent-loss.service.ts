@@ -0,0 +1,283 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { MongoRepository } from 'typeorm';
+import { HydrationSnapshot, Network, PoolType } from '../../shared/entities/protocol-snapshot.entity';
+import { getEffectiveApy, APY_SANITY_CAP } from '../../shared/utils/apy.util';
+import {
+    IlPoint,
+    constantProductIl,
+    omnipoolIl,
+    stableswapIl,
+    DEFAULT_STABLESWAP_AMPLIFICATION,
+} from './helpers/impermanent-loss';
+import {
+    HoldVsLp,
+    IlModel,
+    IlSeriesPoint,
+    ImpermanentLossReport,
+} from './types/impermanent-loss.types';
+
+interface PoolTokenMeta {
+    id?: string;
+    symbol?: string;
+    priceUsd?: number;
+}
+
+/** Narrows a report to one pool when a symbol is not unique. */
+export interface IlPoolFilter {
+    /** Defaults to Hydration. */
+    network?: string;
+    /** Omnipool, Stableswap, Xyk… — defaults to the category of the latest snapshot. */
+    poolCategory?: string;
+}
+
+const round = (v: number, decimals = 4) => Math.round(v * 10 ** decimals) / 10 ** decimals;
+
+/**
+ * ImpermanentLossService — rebuilds each Hydration pool's daily price path from
+ * stored snapshots and turns it into an impermanent-loss series.
+ *
+ * Models by `metadata.poolCategory`:
+ *   - Omnipool   → single-sided exposure vs the hub asset. The hub's price path
+ *                  is approximated by the TVL-weighted price index of all
+ *                  Omnipool assets (every asset is paired against it).
+ *   - Xyk        → equal-weight constant product over `metadata.tokens`.
+ *   - Stableswap → Stableswap invariant with `metadata.amplification`.
+ *   - others     → no IL model (Aave, HSM…), IL reported as 0.
+ */
+@Injectable()
+export class ImpermanentLossService {
+    private readonly logger = new Logger(ImpermanentLossService.name);
+
+    constructor(
+        @InjectRepository(HydrationSnapshot)
+        private readonly repository: MongoRepository<HydrationSnapshot>,
+    ) { }
+
+    async getReport(
+        assetSymbol: string,
+        fromKey: string,
+        toKey: string,
+        pool: IlPoolFilter = {},
+    ): Promise<ImpermanentLossReport> {
+        const network = pool.network ?? Network.HYDRATION;
+        const found = await this.repository.find({
+            where: {
+                network,
+                poolType: PoolType.DEX,
+                assetSymbol,
+                snapshotDate: { $gte: fromKey, $lte: toKey },
+                ...(pool.poolCategory ? { 'metadata.poolCategory': pool.poolCategory } : {}),
+            } as any,
+            order: { snapshotDate: 'ASC' } as any,
+        });
+        if (!found.length) {
+            throw new NotFoundException(`No Hydration snapshots for ${assetSymbol} between ${fromKey} and ${toKey}`);
+        }
+
+        // Omnipool and isolated pools can share a symbol: never mix their rows
+        const categoryOf = (doc: HydrationSnapshot) =>
+            ((doc.metadata ?? {}) as Record<string, any>)['poolCategory'] as string ?? 'Unknown';
+        const poolCategory = pool.poolCategory ?? categoryOf(found[found.length - 1]);
+        const docs = found.filter(doc => categoryOf(doc) === poolCategory);
+        if (docs.length < found.length) {
+            this.logger.warn(`⚠️ ${assetSymbol}: ignoring ${found.length - docs.length} snapshots of other pool categories than ${poolCategory}`);
+        }
+
+        const latestMeta = (docs[docs.length - 1].metadata ?? {}) as Record<string, any>;
+        const model = this.modelFor(poolCategory);
+        const amplification = model === 'stableswap'
+            ? Number(latestMeta['amplification'] ?? DEFAULT_STABLESWAP_AMPLIFICATION)
+            : undefined;
+
+        let series: IlSeriesPoint[];
+        if (model === 'omnipool-hub') {
+            series = await this.omnipoolSeries(docs, network, fromKey, toKey);
+        } else {
+            series = this.multiTokenSeries(docs, model, amplification);
+        }
+
+        this.logger.log(`📉 IL ${assetSymbol} (${model}): ${series.length} days`);
+
+        return {
+            assetSymbol,
+            poolCategory,
+            model,
+            amplification,
+            series,
+            holdVsLp: this.holdVsLp(series, docs),
+        };
+    }
+
+    /**
+     * IL as a fraction per snapshotDate — the shape the backtest simulator
+     * applies to DEX legs. Empty when the pool has no usable price path.
+     */
+    async getIlByDate(
+        assetSymbol: string,
+        fromKey: string,
+        toKey: string,
+        pool: IlPoolFilter = {},
+    ): Promise<Map<string, number>> {
+        const ilByDate = new Map<string, number>();
+        try {
+            const report = await this.getReport(assetSymbol, fromKey, toKey, pool);
+            for (const point of report.series) {
+                ilByDate.set(point.date, point.impermanentLoss / 100);
+            }
+        } catch (error) {
+            if (!(error instanceof NotFoundException)) throw error;
+        }
+        return ilByDate;
+    }
+
+    // ─── Models ───────────────────────────────────────────────────────────────
+
+    private modelFor(poolCategory: string): IlModel {
+        switch (poolCategory) {
+            case 'Omnipool': return 'omnipool-hub';
+            case 'Xyk': return 'constant-product';
+            case 'Stableswap': return 'stableswap';
+            default: return 'none';
+        }
+    }
+
+    private async omnipoolSeries(
+        docs: HydrationSnapshot[],
+        network: string,
+        fromKey: string,
+        toKey: string,
+    ): Promise<IlSeriesPoint[]> {
+        // Every Omnipool asset over the same window → hub price index
+        const omnipoolDocs = await this.repository.find({
+            where: {
+                network,
+                poolType: PoolType.DEX,
+                'metadata.poolCategory': 'Omnipool',
+                snapshotDate: { $gte: fromKey, $lte: toKey },
+            } as any,
+        });
+        const pricesByDate = new Map<string, Map<string, { price: number; tvl: number }>>();
+        for (const doc of omnipoolDocs) {
+            const price = Number((doc.metadata as Record<string, any>)?.['priceUsd']);
+            if (!doc.snapshotDate || !(price > 0)) continue;
+            if (!pricesByDate.has(doc.snapshotDate)) pricesByDate.set(doc.snapshotDate, new Map());
+            pricesByDate.get(doc.snapshotDate)!.set(doc.assetSymbol, { price, tvl: doc.tvlUsd ?? 0 });
+        }
+
+        const priced = docs.filter(d => Number((d.metadata as Record<string, any>)?.['priceUsd']) > 0);
+        if (!priced.length) return [];
+
+        const entry = priced[0];
+        const entryPrice = Number((entry.metadata as Record<string, any>)['priceUsd']);
+        const entryAssets = pricesByDate.get(entry.snapshotDate!) ?? new Map();
+
+        const series: IlSeriesPoint[] = [];
+        for (const doc of priced) {
+            const price = Number((doc.metadata as Record<string, any>)['priceUsd']);
+            const day = pricesByDate.get(doc.snapshotDate!) ?? new Map();
+
+            // TVL-weighted (at entry) mean of price ratios of assets priced on both days
+            let weighted = 0;
+            let weightSum = 0;
+            for (const [symbol, start] of entryAssets) {
+                const now = day.get(symbol);
+                if (!now) continue;
+                const weight = start.tvl > 0 ? start.tvl : 1;
+                weighted += weight * (now.price / start.price);
+                weightSum += weight;
+            }
+            const hubRatio = weightSum > 0 ? weighted / weightSum : 1;
+
+            series.push(this.toSeriesPoint(
+                doc.snapshotDate!,
+                { [doc.assetSymbol]: price },
+                omnipoolIl(price / entryPrice, hubRatio),
+            ));
+        }
+        return series;
+    }
+
+    private multiTokenSeries(
+        docs: HydrationSnapshot[],
+        model: IlModel,
+        amplification?: number,
+    ): IlSeriesPoint[] {
+        const tokensOf = (doc: HydrationSnapshot): PoolTokenMeta[] =>
+            ((doc.metadata as Record<string, any>)?.['tokens'] as PoolTokenMeta[]) ?? [];
+        const fullyPriced = (doc: HydrationSnapshot) => {
+            const tokens = tokensOf(doc);
+            return tokens.length >= 2 && tokens.every(t => Number(t.priceUsd) > 0);
+        };
+
+        const priced = docs.filter(fullyPriced);
+        if (!priced.length) return [];
+
+        const labelOf = (t: PoolTokenMeta) => t.symbol ?? `asset-${t.id}`;
+        const entryTokens = tokensOf(priced[0]);
+        const entryPrices = entryTokens.map(t => Number(t.priceUsd));
+
+        const series: IlSeriesPoint[] = [];
+        for (const doc of priced) {
+            const byLabel = new Map(tokensOf(doc).map(t => [labelOf(t), Number(t.priceUsd)]));
+            if (entryTokens.some(t => !byLabel.has(labelOf(t)))) continue;
+            const prices = entryTokens.map(t => byLabel.get(labelOf(t))!);
+
+            let point: IlPoint;
+            if (model === 'stableswap') {
+                point = stableswapIl(entryPrices, prices, amplification);
+            } else if (model === 'constant-product') {
+                point = constantProductIl(prices.map((p, i) => p / entryPrices[i]));
+            } else {
+                const hold = prices.reduce((sum, p, i) => sum + p / entryPrices[i], 0) / prices.length;
+                point = { holdValue: hold, lpValue: hold, impermanentLoss: 0 };
+            }
+
+            series.push(this.toSeriesPoint(
+                doc.snapshotDate!,
+                Object.fromEntries(entryTokens.map((t, i) => [labelOf(t), prices[i]])),
+                point,
+            ));
+        }
+        return series;
+    }
+
+    // ─── Hold vs LP ───────────────────────────────────────────────────────────
+
+    private holdVsLp(series: IlSeriesPoint[], docs: HydrationSnapshot[]): HoldVsLp | null {
+        if (!series.length) return null;
+
+        const first = series[0];
+        const last = series[series.length - 1];
+
+        // Compound the pool's daily APY from entry to exit
+        let yieldFactor = 1;
+        for (const doc of docs) {
+            if (!doc.snapshotDate || doc.snapshotDate <= first.date || doc.snapshotDate > last.date) continue;
+            const apy = Math.min(getEffectiveApy(doc) ?? 0, APY_SANITY_CAP);
+            yieldFactor *= 1 + apy / 100 / 365;
+        }
+
+        const lpWithYield = last.lpValue * yieldFactor;
+        return {
+            entryDate: first.date,
+            exitDate: last.date,
+            days: series.length,
+            holdReturn: round((last.holdValue - 1) * 100),
+            lpReturn: round((last.lpValue - 1) * 100),
+            yieldReturn: round((yieldFactor - 1) * 100),
+            lpWithYieldReturn: round((lpWithYield - 1) * 100),
+            netVsHold: round((lpWithYield / last.holdValue - 1) * 100),
+        };
+    }
+
+    private toSeriesPoint(date: string, prices: Record<string, number>, point: IlPoint): IlSeriesPoint {
+        return {
+            date,
+            prices,
+            holdValue: round(point.holdValue, 6),
+            lpValue: round(point.lpValue, 6),
+            impermanentLoss: round(point.impermanentLoss * 100),
+        };
+    }
+}
@@ -0,0 +1,48 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { MongoRepository } from 'typeorm';
+import { HydrationSnapshot, PoolType } from '../../shared/entities/protocol-snapshot.entity';
+import { PoolLiquidity } from './helpers/swap-cost';
+
+/**
+ * SwapCostService — loads Hydration pool liquidity from stored snapshots so
+ * the backtest simulator can price DEX swaps (see `estimateSwapCost`).
+ */
+@Injectable()
+export class SwapCostService {
+    private readonly logger = new Logger(SwapCostService.name);
+
+    constructor(
+        @InjectRepository(HydrationSnapshot)
+        private readonly repository: MongoRepository<HydrationSnapshot>,
+    ) { }
+
+    /** Per-pool daily TVL between two date keys (inclusive). */
+    async loadLiquidity(fromKey: string, toKey: string): Promise<PoolLiquidity[]> {
+        const docs = await this.repository.find({
+            where: {
+                poolType: PoolType.DEX,
+                snapshotDate: { $gte: fromKey, $lte: toKey },
+            },
+        });
+
+        const pools = new Map<string, PoolLiquidity>();
+        for (const doc of docs) {
+            if (!doc.snapshotDate || !(doc.tvlUsd! > 0)) continue;
+            const m = (doc.metadata ?? {}) as Record<string, any>;
+            const category = (m['poolCategory'] as string) ?? 'Unknown';
+            if (!pools.has(doc.assetSymbol)) {
+                const tokens = category === 'Omnipool'
+                    ? [doc.assetSymbol]
+                    : ((m['tokens'] as Array<{ symbol?: string }>) ?? [])
+                        .map(t => t.symbol)
+                        .filter((s): s is string => !!s);
+                pools.set(doc.assetSymbol, { category, tokens, tvlByDate: new Map() });
+            }
+            pools.get(doc.assetSymbol)!.tvlByDate.set(doc.snapshotDate, doc.tvlUsd!);
+        }
+
+        this.logger.log(`💧 Loaded liquidity for ${pools.size} Hydration pools (${fromKey} → ${toKey})`);
+        return [...pools.values()];
+    }
+}
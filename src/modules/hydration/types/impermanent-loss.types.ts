@@ -0,0 +1,34 @@
+/**
+ * Impermanent-loss response shapes.
+ * Percent values are in percentage points (-1.5 = -1.5%).
+ */
+
+export type IlModel = 'omnipool-hub' | 'constant-product' | 'stableswap' | 'none';
+
+export interface IlSeriesPoint {
+    date: string;                       // snapshotDate "YYYY-MM-DD"
+    prices: Record<string, number>;     // token symbol → USD price that day
+    holdValue: number;                  // value of held tokens, entry = 1
+    lpValue: number;                    // value of the LP position (ex-fees), entry = 1
+    impermanentLoss: number;            // percent, ≤ 0
+}
+
+export interface HoldVsLp {
+    entryDate: string;
+    exitDate: string;
+    days: number;
+    holdReturn: number;                 // percent
+    lpReturn: number;                   // percent, price moves + IL, no yield
+    yieldReturn: number;                // percent, pool APY compounded daily
+    lpWithYieldReturn: number;          // percent
+    netVsHold: number;                  // percent, LP incl. yield relative to hold
+}
+
+export interface ImpermanentLossReport {
+    assetSymbol: string;
+    poolCategory: string;
+    model: IlModel;
+    amplification?: number;
+    series: IlSeriesPoint[];
+    holdVsLp: HoldVsLp | null;
+}
@@ -0,0 +1,46 @@
+import { IsOptional, IsString, IsNumber, IsInt, IsDate, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class LeverageLoopQueryDto {
+    /** Moonwell network as stored, e.g. "moonbeam" or "base" */
+    @IsString()
+    network: string;
+
+    /** Supplied (collateral) asset, e.g. "GLMR" */
+    @IsString()
+    asset: string;
+
+    /** Borrowed asset — defaults to `asset` (same-asset loop). */
+    @IsOptional()
+    @IsString()
+    borrowAsset?: string;
+
+    @Type(() => Number)
+    @IsNumber()
+    @Min(1)
+    @Max(20)
+    leverage: number;
+
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    @Max(20)
+    loops?: number = 5;
+
+    @IsOptional()
+    @Type(() => Number)
+    @IsNumber()
+    @Min(1)
+    initialCapital?: number = 1000;
+
+    @IsOptional()
+    @Type(() => Date)
+    @IsDate()
+    from?: Date;
+
+    @IsOptional()
+    @Type(() => Date)
+    @IsDate()
+    to?: Date;
+}
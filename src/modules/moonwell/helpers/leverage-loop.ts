@@ -0,0 +1,61 @@
+/**
+ * Supply/borrow loop maths.
+ *
+ * Each loop re-supplies a fixed fraction `r` of the previous supply as a new
+ * borrow, so after n loops:
+ *
+ *   supply   = E · (1 + r + r² + … + rⁿ) = E · (1 − rⁿ⁺¹) / (1 − r)
+ *   borrow   = supply − E
+ *   leverage = supply / E
+ *
+ * `r` can never exceed the collateral factor, which caps leverage at
+ * (1 − CFⁿ⁺¹) / (1 − CF) for n loops and 1 / (1 − CF) in the limit.
+ */
+
+import { LoopStep } from '../types/leverage-loop.types';
+
+export interface LoopSolution {
+    borrowRatio: number;
+    leverage: number;
+    /** Target leverage was not reachable with this collateral factor / loop count. */
+    capped: boolean;
+}
+
+export function leverageFor(ratio: number, loops: number): number {
+    if (ratio >= 1) return loops + 1;
+    return (1 - ratio ** (loops + 1)) / (1 - ratio);
+}
+
+/**
+ * Per-loop borrow ratio hitting `targetLeverage` (bisection — leverage is
+ * increasing in the ratio). Falls back to the collateral factor itself when
+ * the target is out of reach.
+ */
+export function solveBorrowRatio(targetLeverage: number, loops: number, collateralFactor: number): LoopSolution {
+    const cap = Math.max(0, Math.min(collateralFactor, 1));
+    if (targetLeverage <= 1) return { borrowRatio: 0, leverage: 1, capped: false };
+    if (leverageFor(cap, loops) < targetLeverage) {
+        return { borrowRatio: cap, leverage: leverageFor(cap, loops), capped: true };
+    }
+
+    let lo = 0;
+    let hi = cap;
+    for (let i = 0; i < 100; i++) {
+        const mid = (lo + hi) / 2;
+        if (leverageFor(mid, loops) < targetLeverage) lo = mid;
+        else hi = mid;
+    }
+    return { borrowRatio: hi, leverage: leverageFor(hi, loops), capped: false };
+}
+
+/** The deposits and borrows made while building the position. */
+export function loopSteps(equityUsd: number, borrowRatio: number, loops: number): LoopStep[] {
+    const steps: LoopStep[] = [];
+    let supply = equityUsd;
+    for (let loop = 0; loop <= loops; loop++) {
+        const borrow = loop < loops ? supply * borrowRatio : 0;
+        steps.push({ loop, supplyUsd: supply, borrowUsd: borrow });
+        supply = borrow;
+    }
+    return steps;
+}
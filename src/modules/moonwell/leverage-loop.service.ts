@@ -0,0 +1,224 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { MongoRepository } from 'typeorm';
+import { MoonwellSnapshot, PoolType } from '../../shared/entities/protocol-snapshot.entity';
+import { enumerateDateKeys } from '../../shared/utils/date.util';
+import { loopSteps, solveBorrowRatio } from './helpers/leverage-loop';
+import { LeverageLoopPoint, LeverageLoopReport } from './types/leverage-loop.types';
+
+const DAYS_PER_YEAR = 365;
+
+/** One market's rates, price and collateral factor on a given day. */
+interface MarketDay {
+    supplyApy: number;
+    supplyRewardApy: number;
+    borrowApy: number;
+    borrowRewardApy: number;
+    price?: number;
+    collateralFactor?: number;
+}
+
+export interface LeverageLoopParams {
+    network: string;
+    asset: string;
+    borrowAsset?: string;
+    leverage: number;
+    loops: number;
+    initialCapital: number;
+    fromKey: string;
+    toKey: string;
+}
+
+const round = (v: number, decimals = 4) => Math.round(v * 10 ** decimals) / 10 ** decimals;
+
+/**
+ * LeverageLoopService — replays a supply/borrow loop on a Moonwell market over
+ * the stored daily snapshots.
+ *
+ * The position is built on the first day (see helpers/leverage-loop), then
+ * collateral compounds at the supply APY and debt at the borrow APY of the
+ * borrowed asset; supply/borrow reward APRs accrue as a separate USD balance.
+ * Collateral and debt are tracked in token units and revalued each day with
+ * `metadata.underlyingPrice`, so a cross-asset loop (e.g. supply GLMR, borrow
+ * USDC) picks up price moves. Days where collateral × collateralFactor falls
+ * below the debt are flagged as liquidatable — the replay carries on so the
+ * whole window stays visible.
+ */
+@Injectable()
+export class LeverageLoopService {
+    private readonly logger = new Logger(LeverageLoopService.name);
+
+    constructor(
+        @InjectRepository(MoonwellSnapshot)
+        private readonly repository: MongoRepository<MoonwellSnapshot>,
+    ) { }
+
+    async simulate(params: LeverageLoopParams): Promise<LeverageLoopReport> {
+        const borrowAsset = params.borrowAsset ?? params.asset;
+        const supplyDays = await this.loadMarket(params.network, params.asset, params.fromKey, params.toKey);
+        const borrowDays = borrowAsset === params.asset
+            ? supplyDays
+            : await this.loadMarket(params.network, borrowAsset, params.fromKey, params.toKey);
+
+        const start = [...supplyDays.keys()].filter(d => borrowDays.has(d)).sort()[0];
+        if (!start) {
+            throw new NotFoundException(
+                `No overlapping snapshots for ${params.asset} and ${borrowAsset} on ${params.network}`,
+            );
+        }
+        const dates = enumerateDateKeys(new Date(start), new Date(params.toKey));
+
+        // Entry state on the first day both markets were indexed
+        let supply = supplyDays.get(dates[0])!;
+        let borrow = borrowDays.get(dates[0])!;
+        const collateralFactor = supply.collateralFactor;
+        if (collateralFactor == null || !(collateralFactor > 0)) {
+            throw new BadRequestException(`${params.asset} on ${params.network} cannot be used as collateral (no collateralFactor)`);
+        }
+        const sameAsset = borrowAsset === params.asset;
+        const supplyPrice0 = supply.price ?? (sameAsset ? 1 : undefined);
+        const borrowPrice0 = borrow.price ?? (sameAsset ? 1 : undefined);
+        if (!supplyPrice0 || !borrowPrice0) {
+            throw new BadRequestException('Cross-asset loops need metadata.underlyingPrice for both markets');
+        }
+
+        const solution = solveBorrowRatio(params.leverage, params.loops, collateralFactor);
+        const equity = params.initialCapital;
+        let supplyUnits = (equity * solution.leverage) / supplyPrice0;
+        let debtUnits = (equity * (solution.leverage - 1)) / borrowPrice0;
+        let rewardsUsd = 0;
+        let supplyPrice = supplyPrice0;
+        let borrowPrice = borrowPrice0;
+        let cf = collateralFactor;
+
+        const series: LeverageLoopPoint[] = [];
+        let unleveragedGrowth = 1;
+
+        dates.forEach((date, day) => {
+            supply = supplyDays.get(date) ?? supply;
+            borrow = borrowDays.get(date) ?? borrow;
+            supplyPrice = supply.price ?? supplyPrice;
+            borrowPrice = borrow.price ?? borrowPrice;
+            cf = supply.collateralFactor ?? cf;
+
+            if (day > 0) {
+                const collateralUsd = supplyUnits * supplyPrice;
+                const debtUsd = debtUnits * borrowPrice;
+                rewardsUsd += (collateralUsd * supply.supplyRewardApy + debtUsd * borrow.borrowRewardApy) / 100 / DAYS_PER_YEAR;
+                supplyUnits *= 1 + supply.supplyApy / 100 / DAYS_PER_YEAR;
+                debtUnits *= 1 + borrow.borrowApy / 100 / DAYS_PER_YEAR;
+                unleveragedGrowth *= 1 + (supply.supplyApy + supply.supplyRewardApy) / 100 / DAYS_PER_YEAR;
+            }
+
+            const collateralUsd = supplyUnits * supplyPrice;
+            const debtUsd = debtUnits * borrowPrice;
+            const equityUsd = collateralUsd - debtUsd + rewardsUsd;
+            const healthFactor = debtUsd > 0 ? (collateralUsd * cf) / debtUsd : null;
+            const positionEquity = collateralUsd - debtUsd;
+            const netApy = positionEquity > 0
+                ? (collateralUsd * (supply.supplyApy + supply.supplyRewardApy)
+                    - debtUsd * (borrow.borrowApy - borrow.borrowRewardApy)) / positionEquity
+                : 0;
+
+            series.push({
+                date,
+                supplyApy: round(supply.supplyApy),
+                supplyRewardApy: round(supply.supplyRewardApy),
+                borrowApy: round(borrow.borrowApy),
+                borrowRewardApy: round(borrow.borrowRewardApy),
+                netApy: round(netApy),
+                collateralUsd: round(collateralUsd, 2),
+                debtUsd: round(debtUsd, 2),
+                rewardsUsd: round(rewardsUsd, 2),
+                equityUsd: round(equityUsd, 2),
+                collateralFactor: cf,
+                healthFactor: healthFactor != null ? round(healthFactor) : null,
+                liquidationPrice: debtUsd > 0 && supplyUnits > 0 && cf > 0
+                    ? round(debtUsd / (supplyUnits * cf), 6)
+                    : null,
+                liquidatable: healthFactor != null && healthFactor < 1,
+            });
+        });
+
+        const last = series[series.length - 1];
+        const liquidationDays = series.filter(p => p.liquidatable).map(p => p.date);
+        const healthFactors = series.map(p => p.healthFactor).filter((h): h is number => h != null);
+        const mean = (values: number[]) => values.reduce((s, v) => s + v, 0) / Math.max(1, values.length);
+
+        if (liquidationDays.length) {
+            this.logger.warn(`⚠️ Loop ${params.asset}/${borrowAsset} @ ${solution.leverage.toFixed(2)}x liquidatable on ${liquidationDays.length} days`);
+        }
+
+        return {
+            network: params.network,
+            supplyAsset: params.asset,
+            borrowAsset,
+            from: dates[0],
+            to: dates[dates.length - 1],
+            initialCapital: params.initialCapital,
+            targetLeverage: params.leverage,
+            loops: params.loops,
+            leverage: round(solution.leverage),
+            leverageCapped: solution.capped,
+            borrowRatio: round(solution.borrowRatio, 6),
+            collateralFactor,
+            maxLeverage: collateralFactor < 1 ? round(1 / (1 - collateralFactor)) : null,
+            steps: loopSteps(equity, solution.borrowRatio, params.loops).map(s => ({
+                loop: s.loop,
+                supplyUsd: round(s.supplyUsd, 2),
+                borrowUsd: round(s.borrowUsd, 2),
+            })),
+            series,
+            summary: {
+                finalEquity: last.equityUsd,
+                totalReturn: round((last.equityUsd / params.initialCapital - 1) * 100),
+                avgNetApy: round(mean(series.map(p => p.netApy))),
+                avgUnleveragedApy: round(mean(series.map(p => p.supplyApy + p.supplyRewardApy))),
+                minHealthFactor: healthFactors.length ? Math.min(...healthFactors) : null,
+                liquidationDays,
+                firstLiquidationDate: liquidationDays[0] ?? null,
+            },
+        };
+    }
+
+    // ─── Data ─────────────────────────────────────────────────────────────────
+
+    private async loadMarket(
+        network: string,
+        assetSymbol: string,
+        fromKey: string,
+        toKey: string,
+    ): Promise<Map<string, MarketDay>> {
+        const docs = await this.repository.find({
+            where: {
+                poolType: PoolType.LENDING,
+                network,
+                assetSymbol,
+                snapshotDate: { $gte: fromKey, $lte: toKey },
+            },
+            order: { snapshotDate: 'ASC' } as any,
+        });
+        if (!docs.length) {
+            throw new NotFoundException(`No Moonwell snapshots for ${assetSymbol} on ${network} between ${fromKey} and ${toKey}`);
+        }
+
+        const days = new Map<string, MarketDay>();
+        for (const doc of docs) {
+            if (!doc.snapshotDate) continue;
+            const m = (doc.metadata ?? {}) as Record<string, any>;
+            const rewards = (m['rewards'] as Array<{ borrowApr?: number }>) ?? [];
+            const price = Number(m['underlyingPrice']);
+            const cf = Number(m['collateralFactor']);
+            days.set(doc.snapshotDate, {
+                supplyApy: doc.supplyApy ?? 0,
+                supplyRewardApy: doc.rewardApy ?? 0,
+                borrowApy: doc.borrowApy ?? 0,
+                // SDK reward APRs are decimals
+                borrowRewardApy: rewards.reduce((sum, r) => sum + (r.borrowApr || 0), 0) * 100,
+                price: price > 0 ? price : undefined,
+                collateralFactor: Number.isFinite(cf) ? cf : undefined,
+            });
+        }
+        return days;
+    }
+}
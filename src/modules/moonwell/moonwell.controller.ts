@@ -1,11 +1,17 @@
-import { Controller, Get, Logger } from '@nestjs/common';
+import { Controller, Get, Logger, Query, UsePipes, ValidationPipe } from '@nestjs/common';
 import { MoonwellService } from './moonwell.service';
+import { LeverageLoopService } from './leverage-loop.service';
+import { LeverageLoopQueryDto } from './dto/leverage-loop-query.dto';
+import { getUtcDateKey } from '../../shared/utils/date.util';
 
 @Controller('moonwell')
 export class MoonwellController {
     private readonly logger = new Logger(MoonwellController.name);
 
-    constructor(private readonly moonwellService: MoonwellService) { }
+    constructor(
+        private readonly moonwellService: MoonwellService,
+        private readonly leverageLoopService: LeverageLoopService,
+    ) { }
 
     /**
      * GET /moonwell/crawl/markets
@@ -29,4 +35,31 @@ export class MoonwellController {
             data: result.data,
         };
     }
+
+    /**
+     * GET /moonwell/leverage-loop?network=moonbeam&asset=GLMR&leverage=2.5&loops=5
+     * GET /moonwell/leverage-loop?network=base&asset=WETH&borrowAsset=USDC&leverage=2&from=2026-01-01
+     *
+     * Replays a supply/borrow loop over stored snapshots: daily net APY,
+     * health factor, and the days a price move would have made the position
+     * liquidatable. Defaults to the last 30 days.
+     */
+    @Get('leverage-loop')
+    @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+    async getLeverageLoop(@Query() query: LeverageLoopQueryDto) {
+        this.logger.log(`GET /moonwell/leverage-loop — ${query.asset}/${query.borrowAsset ?? query.asset} ${query.leverage}x on ${query.network}`);
+        const to = query.to ?? new Date();
+        const from = query.from ?? new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+        const data = await this.leverageLoopService.simulate({
+            network: query.network,
+            asset: query.asset,
+            borrowAsset: query.borrowAsset,
+            leverage: query.leverage,
+            loops: query.loops ?? 5,
+            initialCapital: query.initialCapital ?? 1000,
+            fromKey: getUtcDateKey(from),
+            toKey: getUtcDateKey(to),
+        });
+        return { success: true, data };
+    }
 }
@@ -2,6 +2,7 @@ import { Module } from '@nestjs/common';
 import { MoonwellService } from './moonwell.service';
 import { MoonwellController } from './moonwell.controller';
 import { MoonwellMarketsCrawler } from './crawlers/markets.crawler';
+import { LeverageLoopService } from './leverage-loop.service';
 
 /**
  * MoonwellModule — Moonwell lending protocol indexer.
@@ -10,13 +11,15 @@ import { MoonwellMarketsCrawler } from './crawlers/markets.crawler';
  *
  * PoolConfigService and FileLoggerUtil are provided globally by SharedModule.
  * All markets are fetched in a single Ponder API call and fan out across chains.
+ * Also replays supply/borrow loops over the stored market snapshots.
  */
 @Module({
     controllers: [MoonwellController],
     providers: [
         MoonwellMarketsCrawler,
         MoonwellService,
+        LeverageLoopService,
     ],
-    exports: [MoonwellService],
+    exports: [MoonwellService, LeverageLoopService],
 })
 export class MoonwellModule { }
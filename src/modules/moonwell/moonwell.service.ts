@@ -1,14 +1,15 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { MongoRepository } from 'typeorm';
 import { MoonwellMarketsCrawler } from './crawlers/markets.crawler';
 import { CrawlResult } from '../../shared/crawlers/base-api.crawler';
-import { MoonwellSnapshot, Protocol, PoolType } from '../../shared/entities/protocol-snapshot.entity';
+import { MoonwellSnapshot, Protocol, Network, PoolType } from '../../shared/entities/protocol-snapshot.entity';
 import { ActivityLogService } from '../../shared/services/activity-log.service';
+import { ProtocolRegistryService } from '../../shared/services/protocol-registry.service';
 import { getUtcDateKey } from '../../shared/utils/date.util';
 
 @Injectable()
-export class MoonwellService {
+export class MoonwellService implements OnModuleInit {
     private readonly logger = new Logger(MoonwellService.name);
 
     constructor(
@@ -16,26 +17,38 @@ export class MoonwellService {
         private readonly repository: MongoRepository<MoonwellSnapshot>,
         private readonly marketsCrawler: MoonwellMarketsCrawler,
         private readonly activityLog: ActivityLogService,
+        private readonly registry: ProtocolRegistryService,
     ) { }
 
-    async crawlMarkets(): Promise<CrawlResult<MoonwellSnapshot>> {
-        this.logger.log('🔄 Starting Moonwell markets crawl...');
-        const result = (await this.marketsCrawler.crawl()) as CrawlResult<MoonwellSnapshot>;
-
-        if (result.data && result.data.length > 0) {
-            await this.upsertSnapshots(result.data);
-            this.logger.log(`💾 Persisted ${result.data.length} Moonwell market snapshots`);
-        }
-
-        await this.activityLog.recordSuccess({
+    onModuleInit() {
+        this.registry.register({
             protocol: Protocol.MOONWELL,
-            network: result.network,
-            poolType: PoolType.LENDING,
-            itemsFound: result.itemsFound,
-            durationMs: result.duration,
+            label: 'Moonwell',
+            repository: this.repository,
+            crawls: [{ label: 'Moonwell', run: () => this.crawlMarkets() }],
+            summaryFields: {
+                marketAddress: 'marketTokenAddress',
+                chainId: 'chainId',
+                collateralFactor: 'collateralFactor',
+                reserveFactor: 'reserveFactor',
+            },
         });
+    }
+
+    async crawlMarkets(): Promise<CrawlResult<MoonwellSnapshot>> {
+        this.logger.log('🔄 Starting Moonwell markets crawl...');
+        return this.activityLog.track(
+            { protocol: Protocol.MOONWELL, network: Network.MOONBEAM, poolType: PoolType.LENDING },
+            async () => {
+                const result = (await this.marketsCrawler.crawl()) as CrawlResult<MoonwellSnapshot>;
 
-        return result;
+                if (result.data && result.data.length > 0) {
+                    await this.upsertSnapshots(result.data);
+                    this.logger.log(`💾 Persisted ${result.data.length} Moonwell market snapshots`);
+                }
+                return result;
+            },
+        );
     }
 
     private async upsertSnapshots(snapshots: MoonwellSnapshot[]): Promise<void> {
@@ -0,0 +1,60 @@
+/**
+ * Leverage-loop response shapes.
+ * APY values are in percentage points (5 = 5%), USD values are plain numbers.
+ */
+
+export interface LoopStep {
+    loop: number;                 // 0 = initial deposit
+    supplyUsd: number;            // amount supplied in this step
+    borrowUsd: number;            // amount borrowed against it (re-supplied next step)
+}
+
+export interface LeverageLoopPoint {
+    date: string;                 // snapshotDate "YYYY-MM-DD"
+    supplyApy: number;            // base supply APY of the supplied asset
+    supplyRewardApy: number;
+    borrowApy: number;            // base borrow APY of the borrowed asset
+    borrowRewardApy: number;
+    /** Annualized return on equity at today's rates. */
+    netApy: number;
+    collateralUsd: number;
+    debtUsd: number;
+    rewardsUsd: number;           // rewards accrued so far
+    equityUsd: number;            // collateral − debt + rewards
+    collateralFactor: number;
+    /** collateral × collateralFactor / debt — below 1 the position can be liquidated. */
+    healthFactor: number | null;
+    /** Supplied asset price at which the health factor reaches 1. */
+    liquidationPrice: number | null;
+    liquidatable: boolean;
+}
+
+export interface LeverageLoopReport {
+    network: string;
+    supplyAsset: string;
+    borrowAsset: string;
+    from: string;
+    to: string;
+    initialCapital: number;
+    targetLeverage: number;
+    loops: number;
+    /** Leverage actually reached — lower than target when `leverageCapped`. */
+    leverage: number;
+    leverageCapped: boolean;
+    borrowRatio: number;
+    collateralFactor: number;
+    /** Leverage ceiling with infinite loops: 1 / (1 − collateralFactor). */
+    maxLeverage: number | null;
+    steps: LoopStep[];
+    series: LeverageLoopPoint[];
+    summary: {
+        finalEquity: number;
+        totalReturn: number;              // percent
+        avgNetApy: number;
+        /** Same asset supplied without looping, for comparison. */
+        avgUnleveragedApy: number;
+        minHealthFactor: number | null;
+        liquidationDays: string[];
+        firstLiquidationDate: string | null;
+    };
+}
@@ -0,0 +1,81 @@
+import {
+    IsOptional, IsString, IsNumber, IsInt, IsObject, Min, Max, MaxLength, ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { PoolFilterDto } from '../../pools/dto/pool-filter.dto';
+
+export class SaveAsStrategyDto {
+    @IsString()
+    @MaxLength(120)
+    name: string;
+
+    @IsOptional()
+    @IsString()
+    description?: string;
+}
+
+export class OptimizeDto {
+    /** Candidate pools — same filters as GET /pools. */
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => PoolFilterDto)
+    universe?: PoolFilterDto;
+
+    /** Days of daily APY history used for means and covariance. */
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(7)
+    @Max(365)
+    lookbackDays?: number = 30;
+
+    /** Minimum expected APY (%) — picks the lowest-risk portfolio reaching it. */
+    @IsOptional()
+    @Type(() => Number)
+    @IsNumber()
+    targetReturn?: number;
+
+    /** Maximum APY volatility (percentage points) — picks the highest-return portfolio within it. */
+    @IsOptional()
+    @Type(() => Number)
+    @IsNumber()
+    @Min(0)
+    riskBudget?: number;
+
+    /** Cap applied to every pool (0..1). */
+    @IsOptional()
+    @Type(() => Number)
+    @IsNumber()
+    @Min(0)
+    @Max(1)
+    maxPoolWeight?: number = 1;
+
+    /** Per-pool caps keyed by "protocol|network|poolType|assetSymbol". */
+    @IsOptional()
+    @IsObject()
+    poolCaps?: Record<string, number>;
+
+    /** Per-protocol caps, e.g. { "hydration": 0.3 }. */
+    @IsOptional()
+    @IsObject()
+    protocolCaps?: Record<string, number>;
+
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(3)
+    @Max(100)
+    frontierPoints?: number = 20;
+
+    /** APY (%) subtracted before computing Sharpe ratios. */
+    @IsOptional()
+    @Type(() => Number)
+    @IsNumber()
+    riskFreeRate?: number = 0;
+
+    /** Save the chosen allocation (target if requested, else max-Sharpe) as a strategy. */
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => SaveAsStrategyDto)
+    saveAs?: SaveAsStrategyDto;
+}
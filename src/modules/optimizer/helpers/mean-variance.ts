@@ -0,0 +1,167 @@
+/**
+ * Long-only mean-variance optimisation with per-asset and per-group caps.
+ *
+ * Solves  min_w  ½·γ·wᵀΣw − μᵀw   s.t.  Σw = 1,  0 ≤ wᵢ ≤ capᵢ,  Σ_{i∈g} wᵢ ≤ cap_g
+ * by pairwise coordinate descent: repeatedly shift weight from one asset to
+ * another along the exact line minimum, which keeps the budget constraint and
+ * makes caps trivial to respect. Sweeping γ traces the efficient frontier.
+ */
+
+export interface MeanVarianceProblem {
+    mean: number[];            // expected return per asset
+    covariance: number[][];    // covariance matrix
+    caps: number[];            // max weight per asset (0..1)
+    groups: string[];          // group id per asset (e.g. protocol)
+    groupCaps: Record<string, number>;
+}
+
+export interface PortfolioPoint {
+    weights: number[];
+    expectedReturn: number;
+    volatility: number;
+}
+
+const EPS = 1e-12;
+
+export function portfolioReturn(mean: number[], w: number[]): number {
+    return w.reduce((sum, wi, i) => sum + wi * mean[i], 0);
+}
+
+export function portfolioVariance(cov: number[][], w: number[]): number {
+    let v = 0;
+    for (let i = 0; i < w.length; i++) {
+        if (!w[i]) continue;
+        for (let j = 0; j < w.length; j++) v += w[i] * w[j] * cov[i][j];
+    }
+    return Math.max(0, v);
+}
+
+/** Sample covariance of aligned series (rows = observations, cols = assets). */
+export function covarianceMatrix(rows: number[][]): number[][] {
+    const n = rows[0]?.length ?? 0;
+    const t = rows.length;
+    const means = Array.from({ length: n }, (_, j) => rows.reduce((s, r) => s + r[j], 0) / t);
+    const cov = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+    for (const r of rows) {
+        for (let i = 0; i < n; i++) {
+            for (let j = i; j < n; j++) cov[i][j] += (r[i] - means[i]) * (r[j] - means[j]);
+        }
+    }
+    for (let i = 0; i < n; i++) {
+        for (let j = i; j < n; j++) {
+            cov[i][j] /= Math.max(1, t - 1);
+            cov[j][i] = cov[i][j];
+        }
+    }
+    return cov;
+}
+
+/** Whether any allocation can satisfy the caps at all. */
+export function isFeasible(p: MeanVarianceProblem): boolean {
+    const byGroup = new Map<string, number>();
+    p.caps.forEach((cap, i) => byGroup.set(p.groups[i], (byGroup.get(p.groups[i]) ?? 0) + cap));
+    let total = 0;
+    for (const [group, sum] of byGroup) total += Math.min(sum, p.groupCaps[group] ?? 1);
+    return total >= 1 - 1e-9;
+}
+
+/** Greedy feasible start: fill highest-return assets first, up to their caps. */
+function initialWeights(p: MeanVarianceProblem): number[] {
+    const w = new Array<number>(p.mean.length).fill(0);
+    const groupUsed = new Map<string, number>();
+    let remaining = 1;
+    const order = p.mean.map((_, i) => i).sort((a, b) => p.mean[b] - p.mean[a]);
+    for (const i of order) {
+        if (remaining <= EPS) break;
+        const groupRoom = (p.groupCaps[p.groups[i]] ?? 1) - (groupUsed.get(p.groups[i]) ?? 0);
+        const take = Math.min(p.caps[i], groupRoom, remaining);
+        if (take <= 0) continue;
+        w[i] = take;
+        groupUsed.set(p.groups[i], (groupUsed.get(p.groups[i]) ?? 0) + take);
+        remaining -= take;
+    }
+    return w;
+}
+
+/**
+ * Minimise ½·γ·wᵀΣw − returnWeight·μᵀw. Use returnWeight = 0 for the
+ * minimum-variance portfolio.
+ */
+export function solve(p: MeanVarianceProblem, gamma: number, returnWeight = 1, maxSweeps = 500): number[] {
+    const n = p.mean.length;
+    const w = initialWeights(p);
+    const cov = p.covariance;
+
+    const groupSum = (g: string) => w.reduce((s, wi, i) => (p.groups[i] === g ? s + wi : s), 0);
+    // Gradient: γ·Σw − returnWeight·μ
+    const grad = () => w.map((_, i) => {
+        let g = 0;
+        for (let j = 0; j < n; j++) g += cov[i][j] * w[j];
+        return gamma * g - returnWeight * p.mean[i];
+    });
+
+    for (let sweep = 0; sweep < maxSweeps; sweep++) {
+        let improved = false;
+        const g = grad();
+        for (let i = 0; i < n; i++) {
+            for (let j = 0; j < n; j++) {
+                if (i === j || w[i] <= EPS) continue;
+                // Moving δ from i to j changes f by δ·(gⱼ − gᵢ) + ½·δ²·γ·(Σᵢᵢ + Σⱼⱼ − 2Σᵢⱼ)
+                const slope = g[j] - g[i];
+                if (slope >= -EPS) continue;
+                const curvature = gamma * (cov[i][i] + cov[j][j] - 2 * cov[i][j]);
+
+                let delta = curvature > EPS ? -slope / curvature : Infinity;
+                delta = Math.min(delta, w[i], p.caps[j] - w[j]);
+                if (p.groups[i] !== p.groups[j]) {
+                    delta = Math.min(delta, (p.groupCaps[p.groups[j]] ?? 1) - groupSum(p.groups[j]));
+                }
+                if (!(delta > EPS)) continue;
+
+                w[i] -= delta;
+                w[j] += delta;
+                for (let k = 0; k < n; k++) {
+                    g[k] += gamma * delta * (cov[k][j] - cov[k][i]);
+                }
+                improved = true;
+            }
+        }
+        if (!improved) break;
+    }
+    return w;
+}
+
+export function toPoint(p: MeanVarianceProblem, weights: number[]): PortfolioPoint {
+    return {
+        weights,
+        expectedReturn: portfolioReturn(p.mean, weights),
+        volatility: Math.sqrt(portfolioVariance(p.covariance, weights)),
+    };
+}
+
+/**
+ * Efficient frontier from the minimum-variance portfolio up to the
+ * maximum-return portfolio, sampled at `points` risk-aversion levels
+ * (log-spaced), with dominated / duplicate points removed.
+ */
+export function efficientFrontier(p: MeanVarianceProblem, points: number): PortfolioPoint[] {
+    const raw: PortfolioPoint[] = [toPoint(p, solve(p, 1, 0))];
+
+    // Scale γ to the problem so the sweep spans return-dominated → variance-dominated
+    const meanSpread = Math.max(...p.mean) - Math.min(...p.mean) || 1;
+    const varScale = Math.max(...p.covariance.map((row, i) => row[i])) || 1;
+    const base = meanSpread / varScale;
+    for (let k = 0; k < points; k++) {
+        const gamma = base * 10 ** (3 - (6 * k) / Math.max(1, points - 1));
+        raw.push(toPoint(p, solve(p, gamma)));
+    }
+
+    raw.sort((a, b) => a.volatility - b.volatility);
+    const frontier: PortfolioPoint[] = [];
+    for (const point of raw) {
+        const last = frontier[frontier.length - 1];
+        if (last && point.expectedReturn <= last.expectedReturn + 1e-9) continue;
+        frontier.push(point);
+    }
+    return frontier;
+}
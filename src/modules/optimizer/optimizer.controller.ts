@@ -0,0 +1,29 @@
+import { Body, Controller, Logger, Post, UsePipes, ValidationPipe } from '@nestjs/common';
+import { OptimizerService } from './optimizer.service';
+import { OptimizeDto } from './dto/optimize.dto';
+
+@Controller('optimize')
+@UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+export class OptimizerController {
+    private readonly logger = new Logger(OptimizerController.name);
+
+    constructor(private readonly optimizerService: OptimizerService) { }
+
+    /**
+     * POST /optimize
+     *
+     * Mean-variance optimisation across indexed pools using the historical
+     * covariance of daily APY. Returns the efficient frontier, the max-Sharpe
+     * allocation and, when `targetReturn` or `riskBudget` is set, the matching
+     * portfolio. Pass `saveAs: { name }` to store the result as a strategy.
+     *
+     * Body: { universe?: PoolFilter, lookbackDays?, targetReturn? | riskBudget?,
+     *         maxPoolWeight?, poolCaps?, protocolCaps?, frontierPoints?, riskFreeRate?, saveAs? }
+     */
+    @Post()
+    async optimize(@Body() dto: OptimizeDto) {
+        this.logger.log(`POST /optimize — universe: ${JSON.stringify(dto.universe ?? {})}`);
+        const data = await this.optimizerService.optimize(dto);
+        return { success: true, data };
+    }
+}
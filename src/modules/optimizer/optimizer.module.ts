@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { OptimizerService } from './optimizer.service';
+import { OptimizerController } from './optimizer.controller';
+import { PoolsModule } from '../pools/pools.module';
+import { BacktestModule } from '../backtest/backtest.module';
+
+/**
+ * OptimizerModule — mean-variance portfolio optimisation over indexed pools.
+ *
+ * Reads daily APY history via PoolsService; saves results as strategies via
+ * the backtest module's StrategiesService.
+ */
+@Module({
+    imports: [PoolsModule, BacktestModule],
+    controllers: [OptimizerController],
+    providers: [OptimizerService],
+})
+export class OptimizerModule { }
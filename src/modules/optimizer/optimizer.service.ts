@@ -0,0 +1,239 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { PoolsService } from '../pools/pools.service';
+import { PoolKeyFields, toPoolKey } from '../../shared/utils/pool-key.util';
+import { StrategiesService } from '../backtest/strategies.service';
+import { AllocationLeg } from '../backtest/types/backtest.types';
+import { getUtcDateKey } from '../../shared/utils/date.util';
+import { OptimizeDto } from './dto/optimize.dto';
+import { FrontierPoint, OptimizationResult, UniversePoolStats } from './types/optimizer.types';
+import {
+    MeanVarianceProblem,
+    PortfolioPoint,
+    covarianceMatrix,
+    efficientFrontier,
+    isFeasible,
+} from './helpers/mean-variance';
+
+/** Largest candidate universe we optimise over (covariance is O(n²)). */
+const MAX_UNIVERSE = 50;
+/** Pools need at least this many daily observations in the window. */
+const MIN_OBSERVATIONS = 3;
+/** Weights below this are dropped from returned allocations. */
+const MIN_WEIGHT = 1e-4;
+/** Frontier is sampled this many times more densely than it is returned. */
+const FRONTIER_OVERSAMPLING = 4;
+
+const round = (v: number, decimals = 4) => Math.round(v * 10 ** decimals) / 10 ** decimals;
+
+@Injectable()
+export class OptimizerService {
+    private readonly logger = new Logger(OptimizerService.name);
+
+    constructor(
+        private readonly poolsService: PoolsService,
+        private readonly strategiesService: StrategiesService,
+    ) { }
+
+    /**
+     * Mean-variance optimisation over the daily APY history of a pool universe.
+     * Returns the efficient frontier, the max-Sharpe portfolio and (optionally)
+     * the portfolio meeting a target return or risk budget.
+     */
+    async optimize(dto: OptimizeDto): Promise<OptimizationResult> {
+        if (dto.targetReturn != null && dto.riskBudget != null) {
+            throw new BadRequestException('Provide either targetReturn or riskBudget, not both');
+        }
+
+        const lookbackDays = dto.lookbackDays ?? 30;
+        const { data: candidates } = await this.poolsService.getAllPools({
+            ...(dto.universe ?? {}),
+            limit: Math.min(dto.universe?.limit ?? MAX_UNIVERSE, MAX_UNIVERSE),
+        });
+
+        const from = new Date();
+        from.setUTCDate(from.getUTCDate() - lookbackDays);
+        const seriesByKey = await this.poolsService.getDailyApySeries(candidates, getUtcDateKey(from));
+
+        const { pools, rows, excluded } = this.alignSeries(candidates, seriesByKey);
+        if (pools.length < 2) {
+            throw new BadRequestException(
+                `Need at least 2 pools with ${MIN_OBSERVATIONS}+ days of history in the last ${lookbackDays} days (found ${pools.length})`,
+            );
+        }
+        if (rows.length < MIN_OBSERVATIONS) {
+            throw new BadRequestException(`Only ${rows.length} overlapping days of history — widen lookbackDays or the universe`);
+        }
+
+        const problem = this.buildProblem(pools, rows, dto);
+        if (!isFeasible(problem)) {
+            throw new BadRequestException('Weight caps are too tight — they cannot add up to 100%');
+        }
+
+        const points = dto.frontierPoints ?? 20;
+        const riskFree = dto.riskFreeRate ?? 0;
+        const dense = efficientFrontier(problem, points * FRONTIER_OVERSAMPLING);
+        const toFrontierPoint = (p: PortfolioPoint) => this.toFrontierPoint(p, pools, riskFree);
+
+        const maxSharpe = toFrontierPoint(this.pickMaxSharpe(dense, riskFree));
+        const target = this.pickTarget(dense, dto);
+        const frontier = this.thin(dense, points).map(toFrontierPoint);
+
+        this.logger.log(
+            `📐 Optimised ${pools.length} pools over ${rows.length} days — max Sharpe ${maxSharpe.sharpeRatio} @ ${maxSharpe.expectedReturn}%`,
+        );
+
+        const result: OptimizationResult = {
+            lookbackDays,
+            observations: rows.length,
+            universe: pools.map((pool, i): UniversePoolStats => ({
+                protocol: pool.protocol,
+                network: pool.network,
+                poolType: pool.poolType,
+                assetSymbol: pool.assetSymbol,
+                meanApy: round(problem.mean[i]),
+                apyStdDev: round(Math.sqrt(problem.covariance[i][i])),
+                days: seriesByKey.get(toPoolKey(pool))!.size,
+            })),
+            excluded,
+            frontier,
+            maxSharpe,
+            target: target ? toFrontierPoint(target) : null,
+        };
+
+        if (dto.saveAs) {
+            const chosen = result.target ?? result.maxSharpe;
+            const strategy = await this.strategiesService.create({
+                name: dto.saveAs.name,
+                description: dto.saveAs.description,
+                allocations: chosen.allocations,
+            });
+            result.strategyId = strategy._id?.toHexString();
+        }
+
+        return result;
+    }
+
+    // ─── Data Alignment ───────────────────────────────────────────────────────
+
+    /**
+     * Aligns every pool's series on a common daily grid: starts on the latest
+     * first-observation date among the kept pools and forward-fills gaps.
+     */
+    private alignSeries(
+        candidates: PoolKeyFields[],
+        seriesByKey: Map<string, Map<string, number>>,
+    ): { pools: PoolKeyFields[]; rows: number[][]; excluded: string[] } {
+        const excluded: string[] = [];
+        const pools: PoolKeyFields[] = [];
+        const seen = new Set<string>();
+        for (const pool of candidates) {
+            const key = toPoolKey(pool);
+            if (seen.has(key)) continue;
+            seen.add(key);
+            if ((seriesByKey.get(key)?.size ?? 0) >= MIN_OBSERVATIONS) pools.push(pool);
+            else excluded.push(key);
+        }
+
+        const series = pools.map(p => seriesByKey.get(toPoolKey(p))!);
+        const start = series.reduce((latest, s) => {
+            const first = [...s.keys()].sort()[0];
+            return first > latest ? first : latest;
+        }, '');
+        const dates = [...new Set(series.flatMap(s => [...s.keys()]))]
+            .filter(d => d >= start)
+            .sort();
+
+        const last: number[] = series.map(s => s.get(start) ?? 0);
+        const rows = dates.map(date => series.map((s, i) => {
+            const v = s.get(date);
+            if (v != null) last[i] = v;
+            return last[i];
+        }));
+
+        return { pools, rows, excluded };
+    }
+
+    private buildProblem(pools: PoolKeyFields[], rows: number[][], dto: OptimizeDto): MeanVarianceProblem {
+        const mean = pools.map((_, i) => rows.reduce((s, r) => s + r[i], 0) / rows.length);
+        return {
+            mean,
+            covariance: covarianceMatrix(rows),
+            caps: pools.map(p => Math.min(dto.maxPoolWeight ?? 1, dto.poolCaps?.[toPoolKey(p)] ?? 1)),
+            groups: pools.map(p => p.protocol),
+            groupCaps: dto.protocolCaps ?? {},
+        };
+    }
+
+    // ─── Selection ────────────────────────────────────────────────────────────
+
+    private sharpe(p: PortfolioPoint, riskFree: number): number | null {
+        return p.volatility > 1e-9 ? (p.expectedReturn - riskFree) / p.volatility : null;
+    }
+
+    private pickMaxSharpe(frontier: PortfolioPoint[], riskFree: number): PortfolioPoint {
+        // A riskless point beating the risk-free rate dominates everything else
+        const riskless = frontier.filter(p => p.volatility <= 1e-9 && p.expectedReturn > riskFree);
+        if (riskless.length) return riskless.reduce((a, b) => (b.expectedReturn > a.expectedReturn ? b : a));
+
+        return frontier.reduce((best, p) =>
+            (this.sharpe(p, riskFree) ?? -Infinity) > (this.sharpe(best, riskFree) ?? -Infinity) ? p : best,
+        );
+    }
+
+    /** Frontier is sorted by volatility with strictly increasing return. */
+    private pickTarget(frontier: PortfolioPoint[], dto: OptimizeDto): PortfolioPoint | null {
+        if (dto.targetReturn != null) {
+            return frontier.find(p => p.expectedReturn >= dto.targetReturn!) ?? null;
+        }
+        if (dto.riskBudget != null) {
+            const within = frontier.filter(p => p.volatility <= dto.riskBudget!);
+            return within.length ? within[within.length - 1] : null;
+        }
+        return null;
+    }
+
+    /** Evenly spaced subset of the frontier, always keeping both ends. */
+    private thin(frontier: PortfolioPoint[], points: number): PortfolioPoint[] {
+        if (frontier.length <= points) return frontier;
+        const step = (frontier.length - 1) / (points - 1);
+        return Array.from({ length: points }, (_, k) => frontier[Math.round(k * step)]);
+    }
+
+    // ─── Output ───────────────────────────────────────────────────────────────
+
+    private toFrontierPoint(p: PortfolioPoint, pools: PoolKeyFields[], riskFree: number): FrontierPoint {
+        const sharpe = this.sharpe(p, riskFree);
+        return {
+            expectedReturn: round(p.expectedReturn),
+            volatility: round(p.volatility),
+            sharpeRatio: sharpe != null ? round(sharpe) : null,
+            allocations: this.toAllocations(p.weights, pools),
+        };
+    }
+
+    /**
+     * Drops dust weights and rounds to 4 decimals, pushing the rounding residue
+     * onto the largest leg so the result still sums to exactly 1.
+     */
+    private toAllocations(weights: number[], pools: PoolKeyFields[]): AllocationLeg[] {
+        const kept = weights
+            .map((w, i) => ({ w, pool: pools[i] }))
+            .filter(x => x.w >= MIN_WEIGHT);
+        const total = kept.reduce((s, x) => s + x.w, 0);
+        const legs: AllocationLeg[] = kept
+            .map(x => ({
+                protocol: x.pool.protocol,
+                network: x.pool.network,
+                poolType: x.pool.poolType,
+                assetSymbol: x.pool.assetSymbol,
+                weight: round(x.w / total),
+            }))
+            .sort((a, b) => b.weight - a.weight);
+
+        if (legs.length) {
+            const residue = 1 - legs.reduce((s, l) => s + l.weight, 0);
+            legs[0].weight = round(legs[0].weight + residue);
+        }
+        return legs;
+    }
+}
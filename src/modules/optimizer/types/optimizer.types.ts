@@ -0,0 +1,39 @@
+import { AllocationLeg } from '../../backtest/types/backtest.types';
+
+/**
+ * Optimizer response shapes.
+ * Returns and volatility are in APY percentage points (5 = 5%).
+ */
+
+export interface UniversePoolStats {
+    protocol: string;
+    network: string;
+    poolType: string;
+    assetSymbol: string;
+    meanApy: number;
+    apyStdDev: number;
+    days: number;
+}
+
+export interface FrontierPoint {
+    expectedReturn: number;
+    volatility: number;
+    /** (expectedReturn − riskFreeRate) / volatility; null when volatility is 0. */
+    sharpeRatio: number | null;
+    allocations: AllocationLeg[];
+}
+
+export interface OptimizationResult {
+    lookbackDays: number;
+    /** Aligned daily observations used for the covariance matrix. */
+    observations: number;
+    universe: UniversePoolStats[];
+    /** Pools dropped for having too little history in the window. */
+    excluded: string[];
+    frontier: FrontierPoint[];
+    maxSharpe: FrontierPoint;
+    /** Portfolio meeting `targetReturn` or `riskBudget`, when one was requested. */
+    target: FrontierPoint | null;
+    /** Set when `saveAs` was given — id of the strategy created from the result. */
+    strategyId?: string;
+}
@@ -0,0 +1,15 @@
+import { IsEnum } from 'class-validator';
+import { OmitType } from '@nestjs/mapped-types';
+import { PoolFilterDto } from './pool-filter.dto';
+
+export enum AggregateInterval {
+    WEEK = 'week',
+    MONTH = 'month',
+    QUARTER = 'quarter',
+}
+
+/** Bucket size plus the pool and date filters of PoolFilterDto; no paging or sorting. */
+export class PoolAggregateDto extends OmitType(PoolFilterDto, ['limit', 'cursor', 'sortBy', 'includeTotal'] as const) {
+    @IsEnum(AggregateInterval)
+    interval: AggregateInterval;
+}
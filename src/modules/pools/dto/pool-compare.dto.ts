@@ -0,0 +1,22 @@
+import { IsOptional, IsArray, IsString, IsInt, Min, Max, ArrayMinSize, ArrayMaxSize } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+
+export class PoolCompareDto {
+    /** Comma-separated poolIds: ?ids=a,b,c */
+    @Transform(({ value }) => (Array.isArray(value) ? value : String(value).split(','))
+        .map((id: string) => id.trim())
+        .filter(Boolean))
+    @IsArray()
+    @IsString({ each: true })
+    @ArrayMinSize(2)
+    @ArrayMaxSize(10)
+    ids: string[];
+
+    /** Days of daily history aligned, summarised and correlated. */
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(7)
+    @Max(365)
+    lookbackDays?: number = 30;
+}
@@ -0,0 +1,39 @@
+import { IsOptional, IsString, IsEnum, IsArray, IsIn } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { OmitType } from '@nestjs/mapped-types';
+import { PoolFilterDto } from './pool-filter.dto';
+import { EXPORT_COLUMNS } from '../helpers/pool-export';
+
+export enum ExportFormat {
+    CSV = 'csv',
+    NDJSON = 'ndjson',
+}
+
+const splitList = ({ value }: { value: unknown }) => (Array.isArray(value) ? value : String(value).split(','))
+    .map((item: string) => item.trim())
+    .filter(Boolean);
+
+/**
+ * History filters of PoolFilterDto plus the output shape. Paging and sorting
+ * fields are left out (and rejected): an export streams every matching
+ * snapshot in (dataTimestamp, _id) order.
+ */
+export class PoolExportDto extends OmitType(PoolFilterDto, ['limit', 'cursor', 'sortBy', 'includeTotal'] as const) {
+    @IsOptional()
+    @IsEnum(ExportFormat)
+    format?: ExportFormat = ExportFormat.CSV;
+
+    /** Comma-separated PoolSummary fields: ?columns=snapshotDate,assetSymbol,totalApy. Defaults to all. */
+    @IsOptional()
+    @Transform(splitList)
+    @IsArray()
+    @IsIn(EXPORT_COLUMNS, { each: true })
+    columns?: string[];
+
+    /** Comma-separated metadata keys, exported as `metadata.<key>` columns. None by default. */
+    @IsOptional()
+    @Transform(splitList)
+    @IsArray()
+    @IsString({ each: true })
+    metadata?: string[];
+}
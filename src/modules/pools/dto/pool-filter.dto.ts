@@ -1,5 +1,5 @@
-import { IsOptional, IsString, IsNumber, IsEnum, Min, Max, IsDate } from 'class-validator';
-import { Type } from 'class-transformer';
+import { IsOptional, IsString, IsNumber, IsEnum, Min, Max, IsDate, IsBoolean } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
 import { Protocol } from '../../../shared/entities/protocol-snapshot.entity';
 
 export enum SortBy {
@@ -42,6 +42,17 @@ export class PoolFilterDto {
     @Max(200)
     limit?: number = 50;
 
+    /** Opaque `nextCursor` from the previous page. */
+    @IsOptional()
+    @IsString()
+    cursor?: string;
+
+    /** Also count every matching item (ignores `cursor`). */
+    @IsOptional()
+    @Transform(({ value }) => value === true || value === 'true')
+    @IsBoolean()
+    includeTotal?: boolean;
+
     @IsOptional()
     @IsEnum(SortBy)
     sortBy?: SortBy = SortBy.TOTAL_APY;
@@ -0,0 +1,54 @@
+/** Fewer overlapping daily changes than this give a null correlation. */
+export const MIN_CORRELATION_OBSERVATIONS = 5;
+
+/**
+ * Day-over-day changes of a date-aligned series; null where either day is
+ * missing. `absolute` suits rates (APY points), `relative` suits levels
+ * (TVL, as a fraction).
+ */
+export function dailyChanges(values: (number | null)[], mode: 'absolute' | 'relative'): (number | null)[] {
+    return values.slice(1).map((v, i) => {
+        const prev = values[i];
+        if (v == null || prev == null) return null;
+        if (mode === 'absolute') return v - prev;
+        return prev !== 0 ? v / prev - 1 : null;
+    });
+}
+
+/** Pearson correlation; null when either side has no variance. */
+export function pearson(xs: number[], ys: number[]): number | null {
+    const n = xs.length;
+    const meanX = xs.reduce((s, v) => s + v, 0) / n;
+    const meanY = ys.reduce((s, v) => s + v, 0) / n;
+    let cov = 0, varX = 0, varY = 0;
+    for (let i = 0; i < n; i++) {
+        const dx = xs[i] - meanX;
+        const dy = ys[i] - meanY;
+        cov += dx * dy;
+        varX += dx * dx;
+        varY += dy * dy;
+    }
+    if (varX === 0 || varY === 0) return null;
+    return cov / Math.sqrt(varX * varY);
+}
+
+/**
+ * Pairwise correlation of date-aligned series, each pair over the days both
+ * have a value. Null for pairs with fewer than MIN_CORRELATION_OBSERVATIONS
+ * such days, or without variance.
+ */
+export function correlationMatrix(series: (number | null)[][]): (number | null)[][] {
+    return series.map(a => series.map(b => {
+        const xs: number[] = [];
+        const ys: number[] = [];
+        a.forEach((x, t) => {
+            if (x != null && b[t] != null) {
+                xs.push(x);
+                ys.push(b[t]);
+            }
+        });
+        if (xs.length < MIN_CORRELATION_OBSERVATIONS) return null;
+        const r = pearson(xs, ys);
+        return r != null ? Math.round(r * 1000) / 1000 : null;
+    }));
+}
@@ -0,0 +1,62 @@
+import { BadRequestException } from '@nestjs/common';
+import { ObjectId } from 'mongodb';
+
+/**
+ * Position after the last item of a page. Serialised as base64url JSON so
+ * clients treat it as opaque and pass it back unchanged.
+ *
+ *   - /pools/history pages in (dataTimestamp, _id) ascending order
+ *   - /pools pages in `sortBy` descending order, ties broken by
+ *     (dataTimestamp, _id) descending — `sortBy`/`value` pin the position
+ */
+export interface PoolCursor {
+    /** dataTimestamp of the last item, ISO string. */
+    t: string;
+    /** Hex _id of the last item's snapshot document. */
+    id: string;
+    sortBy?: string;
+    /** Sort value of the last item; null when it had none. */
+    value?: number | null;
+}
+
+export function encodeCursor(cursor: PoolCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/** Throws BadRequestException for anything `encodeCursor` did not produce. */
+export function decodeCursor(raw: string): PoolCursor {
+    let cursor: PoolCursor;
+    try {
+        cursor = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    } catch {
+        throw new BadRequestException('Invalid cursor');
+    }
+    if (typeof cursor?.t !== 'string' || isNaN(Date.parse(cursor.t)) || !ObjectId.isValid(cursor.id)) {
+        throw new BadRequestException('Invalid cursor');
+    }
+    return cursor;
+}
+
+/** Mongo filter for documents strictly after `cursor` in (dataTimestamp, _id) ascending order. */
+export function afterCursorMatch(cursor: PoolCursor): Record<string, unknown> {
+    const t = new Date(cursor.t);
+    return {
+        $or: [
+            { dataTimestamp: { $gt: t } },
+            { dataTimestamp: t, _id: { $gt: new ObjectId(cursor.id) } },
+        ],
+    };
+}
+
+/** (dataTimestamp, _id) ascending — the order history pages are merged in. */
+export function compareByTimestampAndId(
+    a: { dataTimestamp: Date; snapshotId?: string },
+    b: { dataTimestamp: Date; snapshotId?: string },
+): number {
+    return a.dataTimestamp.getTime() - b.dataTimestamp.getTime() || compareIds(a.snapshotId, b.snapshotId);
+}
+
+/** Hex ObjectIds have a fixed width, so string order is creation order. */
+export function compareIds(a = '', b = ''): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -0,0 +1,121 @@
+import type { PoolSummary } from '../pools.service';
+
+// ─── Columns ─────────────────────────────────────────────────────────────────
+
+/**
+ * PoolSummary fields a history export can select, in default column order.
+ * Analytics and visual fields are left out: they describe the latest
+ * snapshot, not a historical row.
+ */
+export const EXPORT_COLUMNS = [
+    'poolId',
+    'snapshotDate',
+    'dataTimestamp',
+    'protocol',
+    'network',
+    'poolType',
+    'assetSymbol',
+    'supplyApy',
+    'borrowApy',
+    'rewardApy',
+    'totalApy',
+    'tvlUsd',
+    'utilizationRate',
+    'volume24hUsd',
+    'priceUsd',
+    'weekApy',
+    'monthApy',
+    'quarterApy',
+    'marketAddress',
+    'chainId',
+    'collateralFactor',
+    'reserveFactor',
+    'poolCategory',
+    'updatedAt',
+    'snapshotId',
+] as const satisfies readonly (keyof PoolSummary)[];
+
+/** One exported snapshot: its flattened summary plus the raw metadata. */
+export interface ExportRow {
+    summary: PoolSummary;
+    metadata: Record<string, unknown>;
+}
+
+export interface ExportColumn {
+    header: string;
+    value: (row: ExportRow) => unknown;
+}
+
+/**
+ * Selected summary fields (all of EXPORT_COLUMNS when none given), then one
+ * `metadata.<key>` column per requested metadata key.
+ */
+export function exportColumns(fields?: string[], metadataKeys: string[] = []): ExportColumn[] {
+    const selected = fields?.length ? fields : [...EXPORT_COLUMNS];
+    return [
+        ...selected.map(field => ({
+            header: field,
+            value: (row: ExportRow) => row.summary[field as keyof PoolSummary],
+        })),
+        ...metadataKeys.map(key => ({
+            header: `metadata.${key}`,
+            value: (row: ExportRow) => row.metadata[key],
+        })),
+    ];
+}
+
+// ─── Formats ─────────────────────────────────────────────────────────────────
+
+/** RFC 4180 field: quoted when it contains a delimiter, quote or newline. */
+function csvCell(value: unknown): string {
+    if (value == null) return '';
+    const text = value instanceof Date
+        ? value.toISOString()
+        : typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export async function* toCsvLines(rows: AsyncIterable<ExportRow>, columns: ExportColumn[]): AsyncGenerator<string> {
+    yield columns.map(c => csvCell(c.header)).join(',') + '\n';
+    for await (const row of rows) {
+        yield columns.map(c => csvCell(c.value(row))).join(',') + '\n';
+    }
+}
+
+/** One JSON object per line; missing values are written as null so every line has the same keys. */
+export async function* toNdjsonLines(rows: AsyncIterable<ExportRow>, columns: ExportColumn[]): AsyncGenerator<string> {
+    for await (const row of rows) {
+        const line: Record<string, unknown> = {};
+        for (const c of columns) line[c.header] = c.value(row) ?? null;
+        yield JSON.stringify(line) + '\n';
+    }
+}
+
+// ─── Merging ─────────────────────────────────────────────────────────────────
+
+/**
+ * Merges already-sorted async sources into one sorted stream, holding only
+ * the head of each source. Closes every source when the consumer stops early
+ * (e.g. the client disconnects).
+ */
+export async function* mergeSorted<T>(
+    sources: AsyncIterable<T>[],
+    compare: (a: T, b: T) => number,
+): AsyncGenerator<T> {
+    const iterators = sources.map(source => source[Symbol.asyncIterator]());
+    try {
+        const heads = await Promise.all(iterators.map(it => it.next()));
+        for (;;) {
+            let next = -1;
+            for (let i = 0; i < heads.length; i++) {
+                if (heads[i].done) continue;
+                if (next < 0 || compare(heads[i].value, heads[next].value) < 0) next = i;
+            }
+            if (next < 0) return;
+            yield heads[next].value;
+            heads[next] = await iterators[next].next();
+        }
+    } finally {
+        await Promise.all(iterators.map(it => it.return?.()));
+    }
+}
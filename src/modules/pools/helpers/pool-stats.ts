@@ -0,0 +1,55 @@
+import type { PoolSummary } from '../pools.service';
+import { getEffectiveApy } from '../../../shared/utils/apy.util';
+import { getUtcDateKey } from '../../../shared/utils/date.util';
+
+/** APY/TVL statistics of one pool over its last `days` daily snapshots. */
+export interface PoolWindowStats {
+    days: number;
+    samples: number;
+    apyMean?: number;
+    apyMin?: number;
+    apyMax?: number;
+    apyStdDev?: number;
+    tvlMean?: number;
+    /** First → last TVL in the window, in percent. */
+    tvlChangePct?: number;
+}
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+function mean(values: number[]): number | undefined {
+    return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : undefined;
+}
+
+/**
+ * Stats over the snapshots of `history` (oldest first) dated within the last
+ * `days` days, `today` included. APY is the effective APY, already capped
+ * by toSummary.
+ */
+export function windowStats(history: PoolSummary[], days: number, today: Date = new Date()): PoolWindowStats {
+    const from = new Date(today);
+    from.setUTCDate(from.getUTCDate() - (days - 1));
+    const fromKey = getUtcDateKey(from);
+    const rows = history.filter(p => p.snapshotDate >= fromKey);
+
+    const apys = rows.map(p => getEffectiveApy(p)).filter((v): v is number => v != null);
+    const tvls = rows.map(p => p.tvlUsd).filter((v): v is number => v != null);
+
+    const apyMean = mean(apys);
+    const apyStdDev = apyMean != null
+        ? Math.sqrt(mean(apys.map(v => (v - apyMean) ** 2)))
+        : undefined;
+    const tvlMean = mean(tvls);
+    const [tvlFirst, tvlLast] = [tvls[0], tvls[tvls.length - 1]];
+
+    return {
+        days,
+        samples: rows.length,
+        apyMean: apyMean != null ? round2(apyMean) : undefined,
+        apyMin: apys.length ? Math.min(...apys) : undefined,
+        apyMax: apys.length ? Math.max(...apys) : undefined,
+        apyStdDev: apyStdDev != null ? round2(apyStdDev) : undefined,
+        tvlMean,
+        tvlChangePct: tvlFirst > 0 && tvls.length > 1 ? round2(((tvlLast - tvlFirst) / tvlFirst) * 100) : undefined,
+    };
+}
@@ -1,6 +1,9 @@
-import { Controller, Get, Logger, Query, UsePipes, ValidationPipe } from '@nestjs/common';
+import { Controller, Get, Logger, Param, Query, StreamableFile, UsePipes, ValidationPipe } from '@nestjs/common';
 import { PoolsService } from './pools.service';
 import { PoolFilterDto, SortBy } from './dto/pool-filter.dto';
+import { ExportFormat, PoolExportDto } from './dto/pool-export.dto';
+import { PoolAggregateDto } from './dto/pool-aggregate.dto';
+import { PoolCompareDto } from './dto/pool-compare.dto';
 
 @Controller('pools')
 @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
@@ -13,6 +16,18 @@ export class PoolsController {
     // These are cached (5 min TTL) and use MongoDB distinct aggregation.
     // Intended for the simulation/backtest engine's filter dropdowns.
 
+    /**
+     * GET /pools/protocols
+     * Returns every registered protocol with its display name, logo and
+     * scheduled crawls. Not cached — read straight from the registry.
+     */
+    @Get('protocols')
+    getProtocols() {
+        this.logger.log('GET /pools/protocols');
+        const data = this.poolsService.getProtocols();
+        return { success: true, count: data.length, data };
+    }
+
     /**
      * GET /pools/parachains
      * Returns all distinct networks (parachains) that have pool data,
@@ -55,14 +70,16 @@ export class PoolsController {
      * GET /pools
      * GET /pools?protocol=bifrost&asset=DOT&poolType=vstaking&network=polkadot
      * GET /pools?minApy=5&sortBy=totalApy&limit=20
+     * GET /pools?sortBy=tvlUsd&cursor=<nextCursor>&includeTotal=true
      *
-     * Returns the latest snapshot per pool, filtered and sorted.
+     * Returns the latest snapshot per pool, filtered and sorted. Pass
+     * `nextCursor` back as `cursor` (with the same sortBy) for the next page.
      */
     @Get()
     async getPools(@Query() filter: PoolFilterDto) {
         this.logger.log(`GET /pools — filter: ${JSON.stringify(filter)}`);
-        const data = await this.poolsService.getAllPools(filter);
-        return { success: true, count: data.length, filter, data };
+        const { data, nextCursor, total } = await this.poolsService.getAllPools(filter);
+        return { success: true, count: data.length, total, nextCursor, filter, data };
     }
 
     /**
@@ -83,13 +100,75 @@ export class PoolsController {
     /**
      * GET /pools/history
      * GET /pools/history?asset=DOT&from=2026-02-01&to=2026-02-28
+     * GET /pools/history?asset=DOT&limit=200&cursor=<nextCursor>
      *
-     * Returns all historical daily snapshots within the range.
+     * Returns historical daily snapshots within the range, oldest first,
+     * `limit` per page. `nextCursor` is null on the last page.
      */
     @Get('history')
     async getPoolsHistory(@Query() filter: PoolFilterDto) {
         this.logger.log(`GET /pools/history — filter: ${JSON.stringify(filter)}`);
-        const data = await this.poolsService.getPoolsHistory(filter);
-        return { success: true, count: data.length, filter, data };
+        const { data, nextCursor, total } = await this.poolsService.getPoolsHistory(filter);
+        return { success: true, count: data.length, total, nextCursor, filter, data };
+    }
+
+    /**
+     * GET /pools/history/aggregate?interval=week&asset=DOT
+     * GET /pools/history/aggregate?interval=quarter&protocol=bifrost&from=2025-01-01
+     *
+     * Per-pool APY/TVL buckets (open/high/low/close/mean APY, mean and end
+     * TVL, sample count) over the filtered history. Cached (5 min TTL).
+     */
+    @Get('history/aggregate')
+    async getPoolsHistoryAggregate(@Query() query: PoolAggregateDto) {
+        this.logger.log(`GET /pools/history/aggregate — filter: ${JSON.stringify(query)}`);
+        const data = await this.poolsService.getHistoryAggregate(query);
+        return { success: true, count: data.length, interval: query.interval, data };
+    }
+
+    /**
+     * GET /pools/export?asset=DOT&from=2026-01-01&format=csv
+     * GET /pools/export?protocol=hydration&format=ndjson&columns=snapshotDate,assetSymbol,tvlUsd&metadata=poolCategory
+     *
+     * Streams every snapshot matching the history filters as a CSV or NDJSON
+     * download, oldest first. `columns` selects PoolSummary fields (all by
+     * default); `metadata` adds the named metadata keys as extra columns.
+     */
+    @Get('export')
+    exportPools(@Query() query: PoolExportDto): StreamableFile {
+        this.logger.log(`GET /pools/export — filter: ${JSON.stringify(query)}`);
+        const format = query.format ?? ExportFormat.CSV;
+        return new StreamableFile(this.poolsService.exportHistory(query), {
+            type: format === ExportFormat.NDJSON ? 'application/x-ndjson' : 'text/csv; charset=utf-8',
+            disposition: `attachment; filename="pools-history.${format}"`,
+        });
+    }
+
+    /**
+     * GET /pools/compare?ids=<poolId>,<poolId>,<poolId>&lookbackDays=90
+     *
+     * Side-by-side daily APY/TVL series of 2–10 pools aligned by snapshotDate,
+     * per-pool stats, and correlation matrices of daily APY and TVL changes.
+     */
+    @Get('compare')
+    async comparePools(@Query() query: PoolCompareDto) {
+        this.logger.log(`GET /pools/compare — ids: ${query.ids.join(',')}, lookbackDays: ${query.lookbackDays}`);
+        const data = await this.poolsService.comparePools(query);
+        return { success: true, count: data.pools.length, data };
+    }
+
+    /**
+     * GET /pools/:poolId
+     *
+     * One pool page in one call: latest snapshot, full metadata, 30/90-day
+     * stats, risk breakdown and the last 30 days of history. `poolId` is the
+     * `poolId` field of any PoolSummary. Declared last so it does not shadow
+     * the static routes above.
+     */
+    @Get(':poolId')
+    async getPool(@Param('poolId') poolId: string) {
+        this.logger.log(`GET /pools/${poolId}`);
+        const data = await this.poolsService.getPoolDetail(poolId);
+        return { success: true, data };
     }
 }
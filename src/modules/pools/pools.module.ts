@@ -1,17 +1,14 @@
 import { Module } from '@nestjs/common';
 import { PoolsService } from './pools.service';
 import { PoolsController } from './pools.controller';
-import { TypeOrmModule } from '@nestjs/typeorm';
-import {
-    BifrostSnapshot,
-    MoonwellSnapshot,
-    HydrationSnapshot,
-} from '../../shared/entities/protocol-snapshot.entity';
 
+/**
+ * PoolsModule — aggregated pool data for Main BE.
+ *
+ * Reads every protocol's snapshot collection through ProtocolRegistryService
+ * (provided globally by SharedModule), so it needs no per-protocol wiring.
+ */
 @Module({
-    imports: [
-        TypeOrmModule.forFeature([BifrostSnapshot, MoonwellSnapshot, HydrationSnapshot]),
-    ],
     controllers: [PoolsController],
     providers: [PoolsService],
     exports: [PoolsService],
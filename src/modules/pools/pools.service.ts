@@ -1,18 +1,33 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { InjectRepository } from '@nestjs/typeorm';
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Readable } from 'stream';
 import { MongoRepository } from 'typeorm';
-import {
-    BifrostSnapshot,
-    MoonwellSnapshot,
-    HydrationSnapshot,
-    BaseProtocolSnapshot,
-} from '../../shared/entities/protocol-snapshot.entity';
+import { BaseProtocolSnapshot } from '../../shared/entities/protocol-snapshot.entity';
+import { ProtocolRegistryService } from '../../shared/services/protocol-registry.service';
 import { PoolFilterDto, SortBy } from './dto/pool-filter.dto';
-import { calculateRiskScore } from '../../shared/utils/risk-score.util';
+import { ExportFormat, PoolExportDto } from './dto/pool-export.dto';
+import { PoolAggregateDto } from './dto/pool-aggregate.dto';
+import { PoolCompareDto } from './dto/pool-compare.dto';
+import { calculateRiskScore, RiskResult } from '../../shared/utils/risk-score.util';
 import { getProtocolLogo, getTokenIcon } from '../../shared/constants/visual-assets';
+import { getEffectiveApy, APY_SANITY_CAP } from '../../shared/utils/apy.util';
+import {
+    PoolCursor,
+    afterCursorMatch,
+    compareByTimestampAndId,
+    compareIds,
+    decodeCursor,
+    encodeCursor,
+} from './helpers/pool-cursor';
+import { ExportRow, exportColumns, mergeSorted, toCsvLines, toNdjsonLines } from './helpers/pool-export';
+import { PoolWindowStats, windowStats } from './helpers/pool-stats';
+import { correlationMatrix, dailyChanges } from './helpers/pool-correlation';
+import { getUtcDateKey } from '../../shared/utils/date.util';
+import { PoolKeyFields, toPoolId, toPoolKey } from '../../shared/utils/pool-key.util';
 
 // ─── Unified API Response Shape ───────────────────────────────────────────────
 export interface PoolSummary {
+    /** Stable, URL-safe id — see `toPoolId`. */
+    poolId: string;
     protocol: string;
     network: string;
     poolType: string;
@@ -38,6 +53,8 @@ export interface PoolSummary {
     feeAndFarmApr?: number;
     dataTimestamp: Date;
     updatedAt?: Date;
+    /** Hex _id of the snapshot document — the tiebreaker in page cursors. */
+    snapshotId?: string;
     // Analytics (computed from historical data)
     apy30dAvg?: number;
     apyTrend?: 'up' | 'down' | 'stable';
@@ -48,7 +65,70 @@ export interface PoolSummary {
     tokenIcon?: string;
 }
 
+/** One page of pools; pass `nextCursor` back as `cursor` for the next one. */
+export interface PoolPage {
+    data: PoolSummary[];
+    /** Null on the last page. */
+    nextCursor: string | null;
+    /** Every matching item, when `includeTotal` was requested. */
+    total?: number;
+}
+
+/** One interval of a pool's history. APY is the capped effective APY. */
+export interface ApyTvlBucket {
+    bucketStart: string;  // "YYYY-MM-DD" — Monday, 1st of month or 1st of quarter (UTC)
+    apyOpen: number;
+    apyHigh: number;
+    apyLow: number;
+    apyClose: number;
+    apyMean: number;
+    tvlMean?: number;
+    tvlEnd?: number;
+    samples: number;      // daily snapshots in the bucket
+}
+
+export interface PoolBuckets extends PoolKeyFields {
+    buckets: ApyTvlBucket[];
+}
+
+/** Everything a pool page shows, in one response (GET /pools/:poolId). */
+export interface PoolDetail {
+    pool: PoolSummary;
+    metadata: Record<string, unknown>;
+    stats: { d30: PoolWindowStats; d90: PoolWindowStats };
+    risk: RiskResult;
+    /** Daily snapshots of the last 30 days, oldest first. */
+    history: PoolSummary[];
+}
+
+/** One pool of a comparison; `apy` and `tvlUsd` are aligned with `PoolComparison.dates`. */
+export interface ComparedPool extends PoolKeyFields {
+    poolId: string;
+    stats: PoolWindowStats;
+    apy: (number | null)[];
+    tvlUsd: (number | null)[];
+}
+
+export interface PoolComparison {
+    lookbackDays: number;
+    /** Every snapshotDate any compared pool has in the window, ascending. */
+    dates: string[];
+    pools: ComparedPool[];
+    /** Rows and columns follow `pools`; null where the data is too thin. */
+    correlation: {
+        apyChange: (number | null)[][];
+        tvlChange: (number | null)[][];
+    };
+}
+
 // ─── Meta Response Shapes (for simulation/backtest engine) ────────────────────
+export interface ProtocolMeta {
+    id: string;        // "bifrost"
+    name: string;      // "Bifrost"
+    logo?: string;
+    crawls: string[];  // scheduled crawl labels
+}
+
 export interface ParachainMeta {
     id: string;        // "polkadot"
     name: string;      // "Polkadot"
@@ -69,6 +149,25 @@ export interface TokenMeta {
     poolTypes: string[];
 }
 
+/** Position of a pool in the /pools order. */
+interface SortKey {
+    value: number | null;
+    time: number;
+    id?: string;
+}
+
+/** `sortBy` value descending (missing last), then newest dataTimestamp, then newest _id. */
+function compareSortKeys(a: SortKey, b: SortKey): number {
+    return (b.value ?? -Infinity) - (a.value ?? -Infinity) || b.time - a.time || compareIds(b.id, a.id);
+}
+
+/** First date key of the last `days` days, today included. */
+function windowStart(days: number): string {
+    const date = new Date();
+    date.setUTCDate(date.getUTCDate() - (days - 1));
+    return getUtcDateKey(date);
+}
+
 interface ApyStats {
     apy30dAvg: number;
     apyStdDev: number;
@@ -101,70 +200,256 @@ export class PoolsService {
     private readonly CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
     private readonly APY_STATS_CACHE_TTL_MS = 10 * 60 * 1000; // 10 minutes
 
-    constructor(
-        @InjectRepository(BifrostSnapshot)
-        private readonly bifrostRepo: MongoRepository<BifrostSnapshot>,
-        @InjectRepository(MoonwellSnapshot)
-        private readonly moonwellRepo: MongoRepository<MoonwellSnapshot>,
-        @InjectRepository(HydrationSnapshot)
-        private readonly hydrationRepo: MongoRepository<HydrationSnapshot>,
-    ) { }
+    constructor(private readonly registry: ProtocolRegistryService) { }
 
     // ─── Pool List Endpoints ──────────────────────────────────────────────────
 
-    async getAllPools(filter: PoolFilterDto): Promise<PoolSummary[]> {
+    async getAllPools(filter: PoolFilterDto): Promise<PoolPage> {
         const results: PoolSummary[] = [];
         const sources = this.selectSources(filter.protocol);
 
         for (const repo of sources) {
-            const docs = await this.fetchLatestSnapshots(repo as MongoRepository<BaseProtocolSnapshot>, filter);
+            const docs = await this.fetchLatestSnapshots(repo, filter);
             results.push(...docs.map(doc => this.toSummary(doc)));
         }
 
         // Enrich with analytics & visual assets
         const apyStats = await this.getApyStatsMap();
         for (const pool of results) {
-            const key = `${pool.protocol}|${pool.network}|${pool.poolType}|${pool.assetSymbol}`;
-            const stats = apyStats.get(key);
-
-            pool.apy30dAvg = stats?.apy30dAvg;
-            pool.apyTrend = stats?.apyTrend;
-
-            const effectiveApy = pool.totalApy ?? pool.supplyApy ?? pool.rewardApy;
-            const risk = calculateRiskScore({
-                tvlUsd: pool.tvlUsd,
-                apyVolatility: stats?.apyStdDev,
-                totalApy: effectiveApy,
-                poolType: pool.poolType,
-            });
-            pool.riskScore = risk.riskScore;
-            pool.riskLabel = risk.riskLabel;
-
-            pool.protocolLogo = getProtocolLogo(pool.protocol);
-            pool.tokenIcon = getTokenIcon(pool.assetSymbol);
+            this.enrichSummary(pool, apyStats.get(toPoolKey(pool)));
         }
 
-        return this.applySortAndLimit(results, filter);
+        return this.applySortAndPage(results, filter);
+    }
+
+    /**
+     * The latest snapshot of one pool (enriched like GET /pools), its full
+     * metadata, 30/90-day stats, risk breakdown and the last 30 days of history.
+     */
+    async getPoolDetail(poolId: string): Promise<PoolDetail> {
+        const key = await this.resolvePoolId(poolId);
+        const repo = this.registry.get(key.protocol)?.repository;
+        if (!repo) throw new NotFoundException(`Pool ${poolId} not found`);
+
+        const [latest, history, apyStats] = await Promise.all([
+            repo.findOne({ where: this.poolWhere(key), order: { dataTimestamp: 'DESC' } as any }),
+            this.fetchDailyHistory(key, windowStart(90)),
+            this.getApyStatsMap(),
+        ]);
+        if (!latest) throw new NotFoundException(`Pool ${poolId} not found`);
+
+        const pool = this.toSummary(latest);
+        const risk = this.enrichSummary(pool, apyStats.get(toPoolKey(pool)));
+
+        return {
+            pool,
+            metadata: (latest.metadata ?? {}) as Record<string, unknown>,
+            stats: { d30: windowStats(history, 30), d90: windowStats(history, 90) },
+            risk,
+            history: history.filter(p => p.snapshotDate >= windowStart(30)),
+        };
+    }
+
+    /**
+     * Daily series of the given pools aligned by snapshotDate over the last
+     * `lookbackDays` days, with per-pool stats and the pairwise correlation
+     * of day-over-day APY changes (points) and TVL changes (relative).
+     */
+    async comparePools(dto: PoolCompareDto): Promise<PoolComparison> {
+        const lookbackDays = dto.lookbackDays ?? 30;
+        const ids = [...new Set(dto.ids)];
+        if (ids.length < 2) throw new BadRequestException('Provide at least 2 distinct pool ids');
+
+        const keys = await Promise.all(ids.map(id => this.resolvePoolId(id)));
+        const histories = await Promise.all(keys.map(key => this.fetchDailyHistory(key, windowStart(lookbackDays))));
+
+        const dates = [...new Set(histories.flatMap(h => h.map(p => p.snapshotDate)))].sort();
+        const pools: ComparedPool[] = keys.map((key, i) => {
+            const byDate = new Map(histories[i].map(p => [p.snapshotDate, p]));
+            return {
+                poolId: ids[i],
+                protocol: key.protocol,
+                network: key.network,
+                poolType: key.poolType,
+                assetSymbol: key.assetSymbol,
+                stats: windowStats(histories[i], lookbackDays),
+                apy: dates.map(d => (byDate.has(d) ? getEffectiveApy(byDate.get(d)) ?? null : null)),
+                tvlUsd: dates.map(d => byDate.get(d)?.tvlUsd ?? null),
+            };
+        });
+
+        return {
+            lookbackDays,
+            dates,
+            pools,
+            correlation: {
+                apyChange: correlationMatrix(pools.map(p => dailyChanges(p.apy, 'absolute'))),
+                tvlChange: correlationMatrix(pools.map(p => dailyChanges(p.tvlUsd, 'relative'))),
+            },
+        };
     }
 
     async getTopPools(limit: number, sortBy: SortBy): Promise<PoolSummary[]> {
-        return this.getAllPools({ limit, sortBy });
+        return (await this.getAllPools({ limit, sortBy })).data;
     }
 
-    async getPoolsHistory(filter: PoolFilterDto): Promise<PoolSummary[]> {
+    /**
+     * Snapshots in (dataTimestamp, _id) order. Each collection returns at most
+     * `limit + 1` documents after the cursor, so the merged page is exact and
+     * the extra document only tells whether another page exists.
+     */
+    async getPoolsHistory(filter: PoolFilterDto): Promise<PoolPage> {
+        const limit = filter.limit ?? 50;
+        const cursor = filter.cursor ? decodeCursor(filter.cursor) : undefined;
+        const where = this.buildHistoryMatch(filter);
         const results: PoolSummary[] = [];
         const sources = this.selectSources(filter.protocol);
 
         for (const repo of sources) {
-            const docs = await this.fetchHistorySnapshots(repo as MongoRepository<BaseProtocolSnapshot>, filter);
+            const docs = await this.fetchHistorySnapshots(repo, where, cursor, limit + 1);
             results.push(...docs.map(doc => this.toSummary(doc)));
         }
 
-        return results.sort((a, b) => a.dataTimestamp.getTime() - b.dataTimestamp.getTime());
+        results.sort(compareByTimestampAndId);
+        const data = results.slice(0, limit);
+        const last = data[data.length - 1];
+        const nextCursor = results.length > limit
+            ? encodeCursor({ t: last.dataTimestamp.toISOString(), id: last.snapshotId })
+            : null;
+
+        const total = filter.includeTotal
+            ? (await Promise.all(sources.map(repo => repo.countDocuments(where)))).reduce((sum, n) => sum + n, 0)
+            : undefined;
+
+        return { data, nextCursor, total };
+    }
+
+    /**
+     * Every snapshot matching the history filters as CSV or NDJSON lines, in
+     * getPoolsHistory order. Reads one Mongo cursor per collection and merges
+     * them as rows are consumed, so nothing is buffered beyond one document
+     * per collection.
+     */
+    exportHistory(filter: PoolExportDto): Readable {
+        const where = this.buildHistoryMatch(filter);
+        const cursors = this.selectSources(filter.protocol).map(repo =>
+            repo.createCursor(where).sort({ dataTimestamp: 1, _id: 1 }) as AsyncIterable<BaseProtocolSnapshot>,
+        );
+        const docs = mergeSorted(cursors, (a, b) =>
+            a.dataTimestamp.getTime() - b.dataTimestamp.getTime() || compareIds(a._id?.toHexString(), b._id?.toHexString()),
+        );
+
+        const toSummary = (doc: BaseProtocolSnapshot) => this.toSummary(doc);
+        async function* rows(): AsyncGenerator<ExportRow> {
+            for await (const doc of docs) {
+                yield { summary: toSummary(doc), metadata: (doc.metadata ?? {}) as Record<string, unknown> };
+            }
+        }
+
+        const columns = exportColumns(filter.columns, filter.metadata);
+        const lines = filter.format === ExportFormat.NDJSON ? toNdjsonLines(rows(), columns) : toCsvLines(rows(), columns);
+        return Readable.from(lines);
+    }
+
+    /**
+     * Per-pool week/month/quarter buckets of the history matching `filter`:
+     * open/high/low/close/mean effective APY, mean and end TVL, sample count.
+     * Snapshots without an APY are left out. Bucketed by snapshotDate in
+     * MongoDB; cached like the other aggregates.
+     */
+    async getHistoryAggregate(filter: PoolAggregateDto): Promise<PoolBuckets[]> {
+        const cacheKey = `history-aggregate:${JSON.stringify(filter)}`;
+        const cached = this.getCached<PoolBuckets[]>(cacheKey);
+        if (cached) return cached;
+
+        const pipeline: object[] = [
+            { $match: this.buildHistoryMatch(filter) },
+            { $sort: { snapshotDate: 1 } },
+            {
+                $addFields: {
+                    effectiveApy: { $ifNull: ['$totalApy', { $ifNull: ['$supplyApy', '$rewardApy'] }] },
+                },
+            },
+            // Snapshots without any APY would read as 0% and drag the buckets down
+            { $match: { effectiveApy: { $ne: null } } },
+            {
+                $addFields: {
+                    effectiveApy: { $min: ['$effectiveApy', APY_SANITY_CAP] },
+                    bucket: {
+                        $dateTrunc: {
+                            date: { $dateFromString: { dateString: '$snapshotDate' } },
+                            unit: filter.interval,
+                            startOfWeek: 'monday',
+                        },
+                    },
+                },
+            },
+            {
+                $group: {
+                    _id: {
+                        protocol: '$protocol',
+                        network: '$network',
+                        poolType: '$poolType',
+                        assetSymbol: '$assetSymbol',
+                        bucket: '$bucket',
+                    },
+                    apyOpen: { $first: '$effectiveApy' },
+                    apyHigh: { $max: '$effectiveApy' },
+                    apyLow: { $min: '$effectiveApy' },
+                    apyClose: { $last: '$effectiveApy' },
+                    apyMean: { $avg: '$effectiveApy' },
+                    tvlMean: { $avg: '$tvlUsd' },
+                    tvlEnd: { $last: '$tvlUsd' },
+                    samples: { $sum: 1 },
+                },
+            },
+            { $sort: { '_id.bucket': 1 } },
+        ];
+
+        const rows = (
+            await Promise.all(
+                this.selectSources(filter.protocol).map(repo => (repo.aggregate(pipeline) as any).toArray()),
+            )
+        ).flat();
+
+        const byPool = new Map<string, PoolBuckets>();
+        for (const row of rows) {
+            const { bucket, ...pool } = row._id;
+            const key = toPoolKey(pool);
+            if (!byPool.has(key)) byPool.set(key, { ...pool, buckets: [] });
+            byPool.get(key)!.buckets.push({
+                bucketStart: (bucket as Date).toISOString().slice(0, 10),
+                apyOpen: row.apyOpen,
+                apyHigh: row.apyHigh,
+                apyLow: row.apyLow,
+                apyClose: row.apyClose,
+                apyMean: Math.round(row.apyMean * 100) / 100,
+                tvlMean: row.tvlMean ?? undefined,
+                tvlEnd: row.tvlEnd ?? undefined,
+                samples: row.samples,
+            });
+        }
+
+        const data = [...byPool.values()].sort((a, b) => toPoolKey(a).localeCompare(toPoolKey(b)));
+        this.setCached(cacheKey, data);
+        return data;
     }
 
     // ─── Meta / Simulation Endpoints ─────────────────────────────────────────
 
+    /** Every protocol registered with ProtocolRegistryService, by name. */
+    getProtocols(): ProtocolMeta[] {
+        return this.registry
+            .all()
+            .map(r => ({
+                id: r.protocol,
+                name: r.label,
+                logo: getProtocolLogo(r.protocol),
+                crawls: r.crawls.map(c => c.label),
+            }))
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
     /**
      * Returns all distinct networks (parachains) that have data,
      * along with which protocols are available on each.
@@ -232,12 +517,12 @@ export class PoolsService {
 
         const tokenMap = new Map<string, { protocols: Set<string>; networks: Set<string>; poolTypes: Set<string> }>();
         for (const row of rows) {
-            const sym = row.assetSymbol as string;
+            const sym = row.assetSymbol;
             if (!tokenMap.has(sym)) tokenMap.set(sym, { protocols: new Set(), networks: new Set(), poolTypes: new Set() });
             const entry = tokenMap.get(sym)!;
-            entry.protocols.add(row.protocol as string);
-            entry.networks.add(row.network as string);
-            entry.poolTypes.add(row.poolType as string);
+            entry.protocols.add(row.protocol);
+            entry.networks.add(row.network);
+            entry.poolTypes.add(row.poolType);
         }
 
         const data: TokenMeta[] = [...tokenMap.entries()]
@@ -253,8 +538,141 @@ export class PoolsService {
         return data;
     }
 
+    /**
+     * Returns the keys (see `toPoolKey`) of every pool that has at least one
+     * stored snapshot. Used to validate strategy allocations.
+     */
+    async getPoolKeys(): Promise<Set<string>> {
+        const cached = this.getCached<Set<string>>('pool-keys');
+        if (cached) return cached;
+
+        const rows = await this.distinctGroupAcrossAll(['protocol', 'network', 'poolType', 'assetSymbol']);
+        const data = new Set(rows.map(row => toPoolKey(row)));
+
+        this.setCached('pool-keys', data);
+        return data;
+    }
+
+    /**
+     * Daily effective APY (totalApy → supplyApy → rewardApy, capped at 500%) for
+     * the given pools since `fromKey`, keyed by pool key then snapshotDate.
+     * Snapshots without any APY are left out rather than read as 0%.
+     */
+    async getDailyApySeries(
+        pools: PoolKeyFields[],
+        fromKey: string,
+    ): Promise<Map<string, Map<string, number>>> {
+        const series = new Map<string, Map<string, number>>();
+        if (!pools.length) return series;
+
+        const pipeline: object[] = [
+            {
+                $match: {
+                    snapshotDate: { $gte: fromKey },
+                    $or: pools.map(p => ({
+                        protocol: p.protocol,
+                        network: p.network,
+                        poolType: p.poolType,
+                        assetSymbol: p.assetSymbol,
+                    })),
+                    // Days without any APY are gaps, not 0% observations
+                    $nor: [{ totalApy: null, supplyApy: null, rewardApy: null }],
+                },
+            },
+            {
+                $project: {
+                    protocol: 1,
+                    network: 1,
+                    poolType: 1,
+                    assetSymbol: 1,
+                    snapshotDate: 1,
+                    effectiveApy: {
+                        $min: [
+                            { $ifNull: ['$totalApy', { $ifNull: ['$supplyApy', '$rewardApy'] }] },
+                            APY_SANITY_CAP,
+                        ],
+                    },
+                },
+            },
+        ];
+
+        const protocols = [...new Set(pools.map(p => p.protocol))];
+        const repos = protocols.flatMap(protocol => this.selectSources(protocol));
+        const rows = (
+            await Promise.all(
+                [...new Set(repos)].map(repo => (repo.aggregate(pipeline) as any).toArray()),
+            )
+        ).flat();
+
+        for (const row of rows) {
+            const key = toPoolKey(row);
+            if (!series.has(key)) series.set(key, new Map());
+            series.get(key)!.set(row.snapshotDate, row.effectiveApy);
+        }
+        return series;
+    }
+
     // ─── Private Helpers ──────────────────────────────────────────────────────
 
+    /** Fills analytics, risk and visual fields in place; returns the full risk result. */
+    private enrichSummary(pool: PoolSummary, stats?: ApyStats): RiskResult {
+        pool.apy30dAvg = stats?.apy30dAvg;
+        pool.apyTrend = stats?.apyTrend;
+
+        const risk = calculateRiskScore({
+            tvlUsd: pool.tvlUsd,
+            apyVolatility: stats?.apyStdDev,
+            totalApy: getEffectiveApy(pool),
+            poolType: pool.poolType,
+        });
+        pool.riskScore = risk.riskScore;
+        pool.riskLabel = risk.riskLabel;
+
+        pool.protocolLogo = getProtocolLogo(pool.protocol);
+        pool.tokenIcon = getTokenIcon(pool.assetSymbol);
+        return risk;
+    }
+
+    private poolWhere(key: PoolKeyFields): Record<string, string> {
+        return {
+            protocol: key.protocol,
+            network: key.network,
+            poolType: key.poolType,
+            assetSymbol: key.assetSymbol,
+        };
+    }
+
+    /** Summaries of one pool's daily snapshots since `fromKey`, oldest first. */
+    private async fetchDailyHistory(key: PoolKeyFields, fromKey: string): Promise<PoolSummary[]> {
+        const repo = this.registry.get(key.protocol)?.repository;
+        if (!repo) return [];
+        const docs = await repo.find({
+            where: { ...this.poolWhere(key), snapshotDate: { $gte: fromKey } },
+            order: { snapshotDate: 'ASC' } as any,
+        });
+        return docs.map(doc => this.toSummary(doc));
+    }
+
+    /**
+     * Key fields of the pool with id `poolId`, from the cached set of stored
+     * pools. A miss rebuilds the set once, so pools first crawled after it was
+     * cached are found.
+     */
+    private async resolvePoolId(poolId: string): Promise<PoolKeyFields> {
+        const key = this.getCached<Map<string, PoolKeyFields>>('pool-ids')?.get(poolId)
+            ?? (await this.loadPoolIds()).get(poolId);
+        if (!key) throw new NotFoundException(`Pool ${poolId} not found`);
+        return key;
+    }
+
+    /** Rebuilds and caches the poolId → key fields map of every stored pool. */
+    private async loadPoolIds(): Promise<Map<string, PoolKeyFields>> {
+        const rows = await this.distinctGroupAcrossAll(['protocol', 'network', 'poolType', 'assetSymbol']);
+        const ids = new Map<string, PoolKeyFields>(rows.map(row => [toPoolId(row), row]));
+        this.setCached('pool-ids', ids);
+        return ids;
+    }
+
     private async getApyStatsMap(): Promise<Map<string, ApyStats>> {
         const cached = this.getCached<Map<string, ApyStats>>('apy-stats');
         if (cached) return cached;
@@ -311,7 +729,7 @@ export class PoolsService {
             },
         ];
 
-        const repos = [this.bifrostRepo, this.moonwellRepo, this.hydrationRepo];
+        const repos = this.registry.repositories();
         const allRows = (
             await Promise.all(
                 repos.map(repo => (repo.aggregate(pipeline) as any).toArray()),
@@ -321,7 +739,7 @@ export class PoolsService {
         const statsMap = new Map<string, ApyStats>();
         for (const row of allRows) {
             const id = row._id;
-            const key = `${id.protocol}|${id.network}|${id.poolType}|${id.assetSymbol}`;
+            const key = toPoolKey(id);
 
             let apyTrend: 'up' | 'down' | 'stable' = 'stable';
             if (row.recentCount >= 2 && row.prevCount >= 2) {
@@ -349,16 +767,9 @@ export class PoolsService {
         return statsMap;
     }
 
-    private selectSources(protocol?: string): MongoRepository<any>[] {
-        const all = [this.bifrostRepo, this.moonwellRepo, this.hydrationRepo];
-        if (!protocol) return all;
-
-        const map: Record<string, MongoRepository<any>> = {
-            bifrost: this.bifrostRepo,
-            moonwell: this.moonwellRepo,
-            hydration: this.hydrationRepo,
-        };
-        return map[protocol] ? [map[protocol]] : all;
+    /** Snapshot repositories to read: the protocol's own, or all registered ones. */
+    private selectSources(protocol?: string): MongoRepository<BaseProtocolSnapshot>[] {
+        return this.registry.repositories(protocol);
     }
 
     /**
@@ -389,8 +800,18 @@ export class PoolsService {
 
     private async fetchHistorySnapshots(
         repo: MongoRepository<BaseProtocolSnapshot>,
-        filter: PoolFilterDto,
+        where: Record<string, any>,
+        cursor: PoolCursor | undefined,
+        take: number,
     ): Promise<BaseProtocolSnapshot[]> {
+        return repo.find({
+            where: cursor ? { $and: [where, afterCursorMatch(cursor)] } : where,
+            order: { dataTimestamp: 'ASC', _id: 'ASC' } as any,
+            take,
+        });
+    }
+
+    private buildHistoryMatch(filter: PoolFilterDto): Record<string, any> {
         const where = this.buildMatchStage(filter);
 
         if (filter.from || filter.to) {
@@ -403,11 +824,7 @@ export class PoolsService {
             }
             where['dataTimestamp'] = dateFilter;
         }
-
-        return repo.find({
-            where,
-            order: { dataTimestamp: 'ASC' } as any,
-        });
+        return where;
     }
 
     private buildMatchStage(filter: PoolFilterDto): Record<string, any> {
@@ -428,10 +845,10 @@ export class PoolsService {
     }
 
     /**
-     * Aggregates distinct field combinations across all 3 protocol collections.
+     * Aggregates distinct field combinations across every registered protocol collection.
      * E.g. fields = ['network', 'protocol'] → distinct (network, protocol) pairs.
      */
-    private async distinctGroupAcrossAll(fields: string[]): Promise<Record<string, string>[]> {
+    private async distinctGroupAcrossAll<F extends string>(fields: readonly F[]): Promise<Record<F, string>[]> {
         const groupId = fields.reduce<Record<string, string>>((acc, f) => {
             acc[f] = `$${f}`;
             return acc;
@@ -446,22 +863,28 @@ export class PoolsService {
             { $project: { _id: 0, ...projectFields } },
         ];
 
-        const [bifrost, moonwell, hydration] = await Promise.all([
-            (this.bifrostRepo.aggregate(pipeline) as any).toArray(),
-            (this.moonwellRepo.aggregate(pipeline) as any).toArray(),
-            (this.hydrationRepo.aggregate(pipeline) as any).toArray(),
-        ]);
-
-        return [...bifrost, ...moonwell, ...hydration];
+        const rows = await Promise.all(
+            this.registry.repositories().map(repo => (repo.aggregate(pipeline) as any).toArray()),
+        );
+        return rows.flat();
     }
 
+    /**
+     * Common snapshot fields, plus the protocol-specific `metadata` keys its
+     * registration maps onto PoolSummary (`summaryFields`).
+     */
     private toSummary(doc: BaseProtocolSnapshot): PoolSummary {
         const m = (doc.metadata ?? {}) as Record<string, any>;
 
         // Apply sanity cap for UI (max 500% APY)
-        const cap = (v?: number) => (v != null ? Math.min(v, 500) : v);
+        const cap = (v?: number) => (v != null ? Math.min(v, APY_SANITY_CAP) : v);
+
+        const mapped: Record<string, unknown> = {};
+        const fields = this.registry.get(doc.protocol)?.summaryFields ?? {};
+        for (const [field, key] of Object.entries(fields)) mapped[field] = m[key];
 
         return {
+            poolId: toPoolId(doc),
             protocol: doc.protocol,
             network: doc.network,
             poolType: doc.poolType,
@@ -473,33 +896,44 @@ export class PoolsService {
             totalApy: cap(doc.totalApy),
             tvlUsd: doc.tvlUsd,
             utilizationRate: doc.utilizationRate,
-            volume24hUsd: m['volume24hUsd'] as number | undefined,
-            priceUsd: m['priceUsd'] as number | undefined,
-            weekApy: m['weekApy'] as number | undefined,
-            monthApy: m['monthApy'] as number | undefined,
-            quarterApy: m['quarterApy'] as number | undefined,
-            marketAddress: m['marketAddress'] as string | undefined,
-            chainId: m['chainId'] as number | undefined,
-            collateralFactor: m['collateralFactor'] as number | undefined,
-            reserveFactor: m['reserveFactor'] as string | number | undefined,
-            poolCategory: m['poolCategory'] as string | undefined,
-            assetName: m['assetName'] as string | undefined,
-            feeAndFarmApr: m['feeAndFarmApr'] as number | undefined,
+            ...mapped,
             dataTimestamp: doc.dataTimestamp,
             updatedAt: doc.updatedAt,
+            snapshotId: doc._id?.toString(),
         };
     }
 
-    private applySortAndLimit(pools: PoolSummary[], filter: PoolFilterDto): PoolSummary[] {
+    /**
+     * Sorts by `sortBy` descending — ties broken by (dataTimestamp, _id)
+     * descending so the order is total — and returns the page after `cursor`.
+     * Sort fields include computed analytics, so this runs in memory over the
+     * latest snapshot per pool.
+     */
+    private applySortAndPage(pools: PoolSummary[], filter: PoolFilterDto): PoolPage {
         const sortField = filter.sortBy ?? SortBy.TOTAL_APY;
-        const effectiveApy = (p: PoolSummary): number =>
-            p.totalApy ?? p.supplyApy ?? p.rewardApy ?? -Infinity;
-        const sorted = [...pools].sort((a, b) => {
-            const aVal = sortField === SortBy.TOTAL_APY ? effectiveApy(a) : ((a as any)[sortField] ?? -Infinity);
-            const bVal = sortField === SortBy.TOTAL_APY ? effectiveApy(b) : ((b as any)[sortField] ?? -Infinity);
-            return bVal - aVal;
-        });
-        return sorted.slice(0, filter.limit ?? 50);
+        const limit = filter.limit ?? 50;
+        const sortValue = (p: PoolSummary): number | null =>
+            (sortField === SortBy.TOTAL_APY ? getEffectiveApy(p) : (p as any)[sortField]) ?? null;
+        const keyOf = (p: PoolSummary): SortKey => ({ value: sortValue(p), time: p.dataTimestamp.getTime(), id: p.snapshotId });
+
+        let sorted = [...pools].sort((a, b) => compareSortKeys(keyOf(a), keyOf(b)));
+
+        if (filter.cursor) {
+            const cursor = decodeCursor(filter.cursor);
+            if (cursor.sortBy !== sortField) {
+                throw new BadRequestException(`Cursor was issued for sortBy=${cursor.sortBy}, not ${sortField}`);
+            }
+            const position: SortKey = { value: cursor.value ?? null, time: Date.parse(cursor.t), id: cursor.id };
+            sorted = sorted.filter(p => compareSortKeys(keyOf(p), position) > 0);
+        }
+
+        const data = sorted.slice(0, limit);
+        const last = data[data.length - 1];
+        const nextCursor = sorted.length > limit
+            ? encodeCursor({ t: last.dataTimestamp.toISOString(), id: last.snapshotId, sortBy: sortField, value: sortValue(last) })
+            : null;
+
+        return { data, nextCursor, total: filter.includeTotal ? pools.length : undefined };
     }
 
     // ─── Cache Helpers ────────────────────────────────────────────────────────
@@ -1,12 +1,11 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { Cron, CronExpression } from '@nestjs/schedule';
-import { BifrostService } from '../bifrost/bifrost.service';
-import { MoonwellService } from '../moonwell/moonwell.service';
-import { HydrationService } from '../hydration/hydration.service';
+import { ProtocolRegistryService } from '../../shared/services/protocol-registry.service';
 
 /**
  * SnapshotSchedulerService — Orchestrates periodic crawl of all protocol modules.
  *
+ * Crawls: every entrypoint registered in ProtocolRegistryService, in parallel.
  * Schedule: Every 10 minutes.
  * Upsert strategy: Each service stamps snapshotDate = today's UTC date ("YYYY-MM-DD")
  *                  before persisting, so the MongoDB upsert key is:
@@ -18,11 +17,7 @@ import { HydrationService } from '../hydration/hydration.service';
 export class SnapshotSchedulerService {
     private readonly logger = new Logger(SnapshotSchedulerService.name);
 
-    constructor(
-        private readonly bifrostService: BifrostService,
-        private readonly moonwellService: MoonwellService,
-        private readonly hydrationService: HydrationService,
-    ) { }
+    constructor(private readonly registry: ProtocolRegistryService) { }
 
     /** Runs every 10 minutes: 0, 10, 20, 30, 40, 50 past the hour. */
     @Cron('0 */10 * * * *')
@@ -30,14 +25,11 @@ export class SnapshotSchedulerService {
         const now = new Date().toISOString();
         this.logger.log(`🕐 [Scheduler] Crawl triggered at ${now}`);
 
-        const results = await Promise.allSettled([
-            this.bifrostService.crawlAll(),
-            this.moonwellService.crawlMarkets(),
-            this.hydrationService.crawlPools(),
-        ]);
+        const crawls = this.registry.all().flatMap(protocol => protocol.crawls);
+        const results = await Promise.allSettled(crawls.map(crawl => crawl.run()));
 
         for (const [idx, result] of results.entries()) {
-            const label = ['Bifrost', 'Moonwell', 'Hydration'][idx];
+            const label = crawls[idx].label;
             if (result.status === 'fulfilled') {
                 this.logger.log(`✅ [Scheduler] ${label} crawl succeeded`);
             } else {
@@ -0,0 +1,189 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { BaseApiCrawler } from '../../../shared/crawlers/base-api.crawler';
+import { CrawlerOptions } from '../../../shared/crawlers/base.crawler';
+import { PoolConfigService } from '../../../shared/services/pool-config.service';
+import { Protocol, Network, PoolType, ProtocolSnapshot } from '../../../shared/entities/protocol-snapshot.entity';
+import {
+    DISTRIBUTOR_POOL_INFO_WORDS,
+    RawStellaSwapFarm,
+    STELLASWAP_DEFAULT_LP_FEE_RATE,
+    StellaSwapDexConfig,
+    StellaSwapFarmingConfig,
+    SubgraphPair,
+    SubgraphPairDayData,
+    SubgraphResponse,
+} from '../types/stellaswap.types';
+import {
+    PAIRS_BY_ID_QUERY,
+    PAIR_DAY_DATA_QUERY,
+    TOKEN_PRICE_QUERY,
+    graphqlRequest,
+    lastCompleteDayStart,
+    toRawPools,
+    unwrapGraphql,
+} from '../helpers/subgraph';
+import { decodeWords, encodeCall, ethCallRequest, wordToAddress, wordToBigInt } from '../../../shared/utils/evm-call.util';
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+interface FarmPoolInfo {
+    pid: number;
+    lpToken: string;
+    allocPoint: number;
+    totalLp: bigint;
+}
+
+// ─── Crawler ─────────────────────────────────────────────────────────────────
+
+/**
+ * StellaSwapFarmsCrawler — StellaSwap LP farms on Moonbeam.
+ *
+ * Reads StellaDistributorV2 over Moonbeam JSON-RPC (`eth_call`): emission
+ * rate, allocation points and staked LP per farm. Pair reserves, volume and
+ * the STELLA price come from the subgraph. Farm APR = STELLA emissions to the
+ * farm / USD value of staked LP. Farms whose LP is not a v2 pair (stable
+ * pools) are skipped.
+ *
+ * Each farm becomes one FARMING ProtocolSnapshot: rewardApy = farm APR,
+ * supplyApy = the pair's fee APR, totalApy = both.
+ */
+@Injectable()
+export class StellaSwapFarmsCrawler extends BaseApiCrawler<RawStellaSwapFarm> {
+    protected readonly logger = new Logger(StellaSwapFarmsCrawler.name);
+    protected readonly protocol = Protocol.STELLASWAP;
+    protected readonly network = Network.MOONBEAM;
+    protected readonly poolType = PoolType.FARMING;
+
+    constructor(private readonly poolConfig: PoolConfigService) {
+        super();
+    }
+
+    protected httpOverrides(): CrawlerOptions {
+        return this.poolConfig.getHttpOptions('stellaswap', this.network, 'farming');
+    }
+
+    protected async fetchRaw(): Promise<RawStellaSwapFarm[]> {
+        const dexConfig = this.poolConfig.get<StellaSwapDexConfig>('stellaswap', this.network, 'dex');
+        const farmConfig = this.poolConfig.get<StellaSwapFarmingConfig>('stellaswap', this.network, 'farming');
+        const call = (signature: string, args?: number[]) => this.ethCall(farmConfig, signature, args);
+
+        // 1. Distributor state
+        this.logger.log(`⛓️ Reading distributor ${farmConfig.distributor}`);
+        const [poolLength, totalAllocPoint, stellaPerSec, rewardToken] = await Promise.all([
+            call('poolLength()').then(w => Number(wordToBigInt(w[0]))),
+            call('totalAllocPoint()').then(w => Number(wordToBigInt(w[0]))),
+            call('stellaPerSec()').then(w => wordToBigInt(w[0])),
+            call('stella()').then(w => wordToAddress(w[0])),
+        ]);
+
+        const farms: FarmPoolInfo[] = [];
+        for (let pid = 0; pid < poolLength; pid++) {
+            const words = await call('poolInfo(uint256)', [pid]);
+            const allocPoint = Number(wordToBigInt(words[DISTRIBUTOR_POOL_INFO_WORDS.allocPoint]));
+            if (allocPoint === 0) continue;
+            farms.push({
+                pid,
+                lpToken: wordToAddress(words[DISTRIBUTOR_POOL_INFO_WORDS.lpToken]),
+                allocPoint,
+                totalLp: wordToBigInt(words[DISTRIBUTOR_POOL_INFO_WORDS.totalLp]),
+            });
+        }
+        this.logger.log(`🌾 ${farms.length}/${poolLength} farms with emissions`);
+        if (!farms.length || !(totalAllocPoint > 0)) return [];
+
+        // 2. Pair data + reward price from the subgraph
+        const { pairs } = unwrapGraphql(await this.fetchJson<SubgraphResponse<{ pairs: SubgraphPair[] }>>(
+            dexConfig.subgraphUrl,
+            graphqlRequest(PAIRS_BY_ID_QUERY, { ids: farms.map(f => f.lpToken) }),
+        ));
+        const { pairDayDatas } = unwrapGraphql(await this.fetchJson<SubgraphResponse<{ pairDayDatas: SubgraphPairDayData[] }>>(
+            dexConfig.subgraphUrl,
+            graphqlRequest(PAIR_DAY_DATA_QUERY, { pairs: pairs.map(p => p.id), date: lastCompleteDayStart() }),
+        ));
+        const rewardPriceUsd = await this.tokenPriceUsd(dexConfig.subgraphUrl, rewardToken);
+
+        const pools = new Map(
+            toRawPools(pairs, pairDayDatas, dexConfig.lpFeeRate ?? STELLASWAP_DEFAULT_LP_FEE_RATE).map(p => [p.address, p]),
+        );
+        const lpSupply = new Map(pairs.map(p => [p.id.toLowerCase(), Number(p.totalSupply)]));
+
+        // 3. Farm APR
+        const emissionsPerYear = (Number(stellaPerSec) / 1e18) * SECONDS_PER_YEAR;
+        const results: RawStellaSwapFarm[] = [];
+        for (const farm of farms) {
+            const pool = pools.get(farm.lpToken);
+            const supply = lpSupply.get(farm.lpToken);
+            if (!pool || !(supply > 0)) {
+                this.logger.warn(`⚠️ Farm ${farm.pid}: LP ${farm.lpToken} is not a v2 pair — skipped`);
+                continue;
+            }
+
+            const stakedTvlUsd = (Number(farm.totalLp) / 1e18 / supply) * pool.tvlUsd;
+            const rewardsUsd = emissionsPerYear * (farm.allocPoint / totalAllocPoint) * (rewardPriceUsd ?? 0);
+            results.push({
+                ...pool,
+                pid: farm.pid,
+                allocPoint: farm.allocPoint,
+                stakedTvlUsd,
+                farmApr: stakedTvlUsd > 0 ? (rewardsUsd / stakedTvlUsd) * 100 : 0,
+                rewardToken,
+            });
+        }
+        return results;
+    }
+
+    protected toSnapshot(raw: RawStellaSwapFarm): ProtocolSnapshot {
+        const now = new Date();
+        return {
+            protocol: this.protocol,
+            network: this.network,
+            poolType: this.poolType,
+            assetSymbol: `${raw.token0.symbol}/${raw.token1.symbol}`,
+            supplyApy: raw.feeApr,
+            rewardApy: raw.farmApr,
+            totalApy: (raw.feeApr ?? 0) + raw.farmApr,
+            tvlUsd: raw.stakedTvlUsd > 0 ? raw.stakedTvlUsd : undefined,
+            dataTimestamp: now,
+            crawledAt: now,
+            metadata: {
+                poolCategory: 'Xyk',
+                pid: raw.pid,
+                poolAddress: raw.address,
+                allocPoint: raw.allocPoint,
+                rewardToken: raw.rewardToken,
+                poolTvlUsd: raw.tvlUsd,
+                volume24hUsd: raw.volume24hUsd,
+                feeApr: raw.feeApr,
+                farmApr: raw.farmApr,
+                tokens: [raw.token0, raw.token1].map(t => ({ id: t.id, symbol: t.symbol })),
+            },
+        } as ProtocolSnapshot;
+    }
+
+    // ─── Helpers ──────────────────────────────────────────────────────────────
+
+    private async ethCall(config: StellaSwapFarmingConfig, signature: string, args?: number[]): Promise<string[]> {
+        const response = await this.fetchJson<{ result?: string; error?: { message: string } }>(
+            config.rpcUrl,
+            ethCallRequest(config.distributor, encodeCall(signature, args)),
+        );
+        if (response.error || !response.result) {
+            throw new Error(`eth_call ${signature} failed: ${response.error?.message ?? 'empty result'}`);
+        }
+        return decodeWords(response.result);
+    }
+
+    private async tokenPriceUsd(subgraphUrl: string, token: string): Promise<number | undefined> {
+        const data = unwrapGraphql(await this.fetchJson<SubgraphResponse<{
+            bundle: { ethPrice: string } | null;
+            token: { derivedETH: string; symbol: string } | null;
+        }>>(subgraphUrl, graphqlRequest(TOKEN_PRICE_QUERY, { id: token })));
+
+        const price = Number(data.token?.derivedETH) * Number(data.bundle?.ethPrice);
+        if (!(price > 0)) {
+            this.logger.warn(`⚠️ No subgraph price for reward token ${token} — farm APRs will be 0`);
+            return undefined;
+        }
+        return price;
+    }
+}
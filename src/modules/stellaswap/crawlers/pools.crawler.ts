@@ -0,0 +1,95 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { BaseApiCrawler } from '../../../shared/crawlers/base-api.crawler';
+import { CrawlerOptions } from '../../../shared/crawlers/base.crawler';
+import { PoolConfigService } from '../../../shared/services/pool-config.service';
+import { Protocol, Network, PoolType, ProtocolSnapshot } from '../../../shared/entities/protocol-snapshot.entity';
+import {
+    RawStellaSwapPool,
+    STELLASWAP_DEFAULT_LP_FEE_RATE,
+    STELLASWAP_DEFAULT_MAX_POOLS,
+    STELLASWAP_DEFAULT_MIN_TVL_USD,
+    StellaSwapDexConfig,
+    SubgraphPair,
+    SubgraphPairDayData,
+    SubgraphResponse,
+} from '../types/stellaswap.types';
+import {
+    PAIRS_QUERY,
+    PAIR_DAY_DATA_QUERY,
+    graphqlRequest,
+    lastCompleteDayStart,
+    toRawPools,
+    unwrapGraphql,
+} from '../helpers/subgraph';
+
+// ─── Crawler ─────────────────────────────────────────────────────────────────
+
+/**
+ * StellaSwapPoolsCrawler — StellaSwap v2 pairs on Moonbeam from the subgraph.
+ *
+ * Takes the deepest `maxPools` pairs above `minTvlUsd`, with the last complete
+ * UTC day's volume. Fee APR = volume × `lpFeeRate` × 365 / TVL.
+ * Each pair becomes one DEX ProtocolSnapshot with assetSymbol "A/B".
+ */
+@Injectable()
+export class StellaSwapPoolsCrawler extends BaseApiCrawler<RawStellaSwapPool> {
+    protected readonly logger = new Logger(StellaSwapPoolsCrawler.name);
+    protected readonly protocol = Protocol.STELLASWAP;
+    protected readonly network = Network.MOONBEAM;
+    protected readonly poolType = PoolType.DEX;
+
+    constructor(private readonly poolConfig: PoolConfigService) {
+        super();
+    }
+
+    protected httpOverrides(): CrawlerOptions {
+        return this.poolConfig.getHttpOptions('stellaswap', this.network, 'dex');
+    }
+
+    protected async fetchRaw(): Promise<RawStellaSwapPool[]> {
+        const config = this.poolConfig.get<StellaSwapDexConfig>('stellaswap', this.network, 'dex');
+        this.logger.log(`🌐 Querying subgraph: ${config.subgraphUrl}`);
+
+        const { pairs } = unwrapGraphql(await this.fetchJson<SubgraphResponse<{ pairs: SubgraphPair[] }>>(
+            config.subgraphUrl,
+            graphqlRequest(PAIRS_QUERY, {
+                first: config.maxPools ?? STELLASWAP_DEFAULT_MAX_POOLS,
+                minTvl: String(config.minTvlUsd ?? STELLASWAP_DEFAULT_MIN_TVL_USD),
+            }),
+        ));
+        if (!pairs.length) return [];
+
+        const { pairDayDatas } = unwrapGraphql(await this.fetchJson<SubgraphResponse<{ pairDayDatas: SubgraphPairDayData[] }>>(
+            config.subgraphUrl,
+            graphqlRequest(PAIR_DAY_DATA_QUERY, {
+                pairs: pairs.map(p => p.id),
+                date: lastCompleteDayStart(),
+            }),
+        ));
+
+        this.logger.log(`🔍 ${pairs.length} pairs, ${pairDayDatas.length} with volume yesterday`);
+        return toRawPools(pairs, pairDayDatas, config.lpFeeRate ?? STELLASWAP_DEFAULT_LP_FEE_RATE);
+    }
+
+    protected toSnapshot(raw: RawStellaSwapPool): ProtocolSnapshot {
+        const now = new Date();
+        return {
+            protocol: this.protocol,
+            network: this.network,
+            poolType: this.poolType,
+            assetSymbol: `${raw.token0.symbol}/${raw.token1.symbol}`,
+            supplyApy: raw.feeApr,
+            totalApy: raw.feeApr,
+            tvlUsd: raw.tvlUsd > 0 ? raw.tvlUsd : undefined,
+            dataTimestamp: now,
+            crawledAt: now,
+            metadata: {
+                poolCategory: 'Xyk',
+                poolAddress: raw.address,
+                volume24hUsd: raw.volume24hUsd,
+                feeApr: raw.feeApr,
+                tokens: [raw.token0, raw.token1].map(t => ({ id: t.id, symbol: t.symbol })),
+            },
+        } as ProtocolSnapshot;
+    }
+}
@@ -0,0 +1,93 @@
+import { RawStellaSwapPool, SubgraphPair, SubgraphPairDayData, SubgraphResponse } from '../types/stellaswap.types';
+
+// ─── Queries ─────────────────────────────────────────────────────────────────
+
+export const PAIRS_QUERY = `
+    query Pairs($first: Int!, $minTvl: BigDecimal!) {
+        pairs(first: $first, orderBy: reserveUSD, orderDirection: desc, where: { reserveUSD_gt: $minTvl }) {
+            id
+            totalSupply
+            reserveUSD
+            token0 { id symbol }
+            token1 { id symbol }
+        }
+    }`;
+
+export const PAIRS_BY_ID_QUERY = `
+    query PairsById($ids: [ID!]!) {
+        pairs(first: 1000, where: { id_in: $ids }) {
+            id
+            totalSupply
+            reserveUSD
+            token0 { id symbol }
+            token1 { id symbol }
+        }
+    }`;
+
+export const PAIR_DAY_DATA_QUERY = `
+    query PairDayData($pairs: [Bytes!]!, $date: Int!) {
+        pairDayDatas(first: 1000, where: { pairAddress_in: $pairs, date: $date }) {
+            pairAddress
+            dailyVolumeUSD
+        }
+    }`;
+
+export const TOKEN_PRICE_QUERY = `
+    query TokenPrice($id: ID!) {
+        bundle(id: "1") { ethPrice }
+        token(id: $id) { derivedETH symbol }
+    }`;
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** POST body + headers for a GraphQL request. */
+export function graphqlRequest(query: string, variables: Record<string, unknown>): RequestInit {
+    return {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ query, variables }),
+    };
+}
+
+/** Unwraps `data`, turning GraphQL-level errors into exceptions. */
+export function unwrapGraphql<T>(response: SubgraphResponse<T>): T {
+    if (response.errors?.length) {
+        throw new Error(`Subgraph error: ${response.errors.map(e => e.message).join('; ')}`);
+    }
+    if (!response.data) throw new Error('Subgraph returned no data');
+    return response.data;
+}
+
+/** Unix timestamp (seconds) of the start of the last complete UTC day. */
+export function lastCompleteDayStart(now: Date = new Date()): number {
+    const todayStart = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()) / 1000;
+    return todayStart - 86_400;
+}
+
+/** Annualised LP fee APR (%) from one day of volume. */
+export function feeApr(volumeUsd: number | undefined, tvlUsd: number, lpFeeRate: number): number | undefined {
+    if (volumeUsd == null || !(tvlUsd > 0)) return undefined;
+    return (volumeUsd * lpFeeRate * 365 / tvlUsd) * 100;
+}
+
+/** Joins pairs with their day volume into raw pool records. */
+export function toRawPools(
+    pairs: SubgraphPair[],
+    dayData: SubgraphPairDayData[],
+    lpFeeRate: number,
+): RawStellaSwapPool[] {
+    const volumeByPair = new Map(dayData.map(d => [d.pairAddress.toLowerCase(), Number(d.dailyVolumeUSD)]));
+    return pairs.map(pair => {
+        const tvlUsd = Number(pair.reserveUSD);
+        // A pair with no trades that day has no PairDayData entry → zero volume
+        const volume24hUsd = volumeByPair.get(pair.id.toLowerCase()) ?? 0;
+        return {
+            address: pair.id.toLowerCase(),
+            token0: pair.token0,
+            token1: pair.token1,
+            tvlUsd,
+            volume24hUsd,
+            feeApr: feeApr(volume24hUsd, tvlUsd, lpFeeRate),
+        };
+    });
+}
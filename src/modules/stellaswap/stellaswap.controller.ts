@@ -0,0 +1,65 @@
+import { Controller, Get, Logger } from '@nestjs/common';
+import { StellaSwapService } from './stellaswap.service';
+
+@Controller('stellaswap')
+export class StellaSwapController {
+    private readonly logger = new Logger(StellaSwapController.name);
+
+    constructor(private readonly stellaSwapService: StellaSwapService) { }
+
+    /**
+     * GET /stellaswap/crawl/pools
+     *
+     * Crawls StellaSwap v2 pairs on Moonbeam: TVL, 24h volume and fee APR.
+     */
+    @Get('crawl/pools')
+    async crawlPools() {
+        this.logger.log('📥 Manual trigger: StellaSwap pools crawl');
+        const result = await this.stellaSwapService.crawlPools();
+        return {
+            success: true,
+            message: 'StellaSwap pools crawled successfully',
+            duration: `${result.duration}ms`,
+            itemsFound: result.itemsFound,
+            data: result.data,
+        };
+    }
+
+    /**
+     * GET /stellaswap/crawl/farms
+     *
+     * Crawls StellaSwap LP farms: staked TVL, farm reward APR and fee APR.
+     */
+    @Get('crawl/farms')
+    async crawlFarms() {
+        this.logger.log('📥 Manual trigger: StellaSwap farms crawl');
+        const result = await this.stellaSwapService.crawlFarms();
+        return {
+            success: true,
+            message: 'StellaSwap farms crawled successfully',
+            duration: `${result.duration}ms`,
+            itemsFound: result.itemsFound,
+            data: result.data,
+        };
+    }
+
+    @Get('crawl/all')
+    async crawlAll() {
+        this.logger.log('📥 Manual trigger: Full StellaSwap crawl (pools + farms)');
+        const result = await this.stellaSwapService.crawlAll();
+        return {
+            success: true,
+            message: 'All StellaSwap data crawled successfully',
+            pools: {
+                duration: `${result.pools.duration}ms`,
+                itemsFound: result.pools.itemsFound,
+                data: result.pools.data,
+            },
+            farms: {
+                duration: `${result.farms.duration}ms`,
+                itemsFound: result.farms.itemsFound,
+                data: result.farms.data,
+            },
+        };
+    }
+}
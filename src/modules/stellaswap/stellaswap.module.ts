@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { StellaSwapService } from './stellaswap.service';
+import { StellaSwapController } from './stellaswap.controller';
+import { StellaSwapPoolsCrawler } from './crawlers/pools.crawler';
+import { StellaSwapFarmsCrawler } from './crawlers/farms.crawler';
+
+/**
+ * StellaSwapModule — StellaSwap DEX indexer (Moonbeam).
+ *
+ * Pools come from the StellaSwap v2 subgraph; farms from the StellaDistributorV2
+ * contract via Moonbeam JSON-RPC. Endpoints live in config/pools.yaml.
+ *
+ * PoolConfigService and the StellaSwapSnapshot repository are provided
+ * globally by SharedModule.
+ */
+@Module({
+    controllers: [StellaSwapController],
+    providers: [
+        StellaSwapPoolsCrawler,
+        StellaSwapFarmsCrawler,
+        StellaSwapService,
+    ],
+    exports: [StellaSwapService],
+})
+export class StellaSwapModule { }
@@ -0,0 +1,100 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { MongoRepository } from 'typeorm';
+import { StellaSwapPoolsCrawler } from './crawlers/pools.crawler';
+import { StellaSwapFarmsCrawler } from './crawlers/farms.crawler';
+import { CrawlResult } from '../../shared/crawlers/base-api.crawler';
+import { StellaSwapSnapshot, Protocol, Network, PoolType } from '../../shared/entities/protocol-snapshot.entity';
+import { ActivityLogService } from '../../shared/services/activity-log.service';
+import { ProtocolRegistryService } from '../../shared/services/protocol-registry.service';
+import { getUtcDateKey } from '../../shared/utils/date.util';
+
+export interface StellaSwapCrawlAllResult {
+    pools: CrawlResult<StellaSwapSnapshot>;
+    farms: CrawlResult<StellaSwapSnapshot>;
+}
+
+@Injectable()
+export class StellaSwapService implements OnModuleInit {
+    private readonly logger = new Logger(StellaSwapService.name);
+
+    constructor(
+        @InjectRepository(StellaSwapSnapshot)
+        private readonly repository: MongoRepository<StellaSwapSnapshot>,
+        private readonly poolsCrawler: StellaSwapPoolsCrawler,
+        private readonly farmsCrawler: StellaSwapFarmsCrawler,
+        private readonly activityLog: ActivityLogService,
+        private readonly registry: ProtocolRegistryService,
+    ) { }
+
+    onModuleInit() {
+        this.registry.register({
+            protocol: Protocol.STELLASWAP,
+            label: 'StellaSwap',
+            repository: this.repository,
+            crawls: [{ label: 'StellaSwap', run: () => this.crawlAll() }],
+            summaryFields: { volume24hUsd: 'volume24hUsd', poolCategory: 'poolCategory' },
+        });
+    }
+
+    async crawlPools(): Promise<CrawlResult<StellaSwapSnapshot>> {
+        this.logger.log('🔄 Starting StellaSwap pools crawl...');
+        return this.activityLog.track(
+            { protocol: Protocol.STELLASWAP, network: Network.MOONBEAM, poolType: PoolType.DEX },
+            async () => {
+                const result = (await this.poolsCrawler.crawl()) as CrawlResult<StellaSwapSnapshot>;
+
+                if (result.data && result.data.length > 0) {
+                    await this.upsertSnapshots(result.data);
+                    this.logger.log(`💾 Persisted ${result.data.length} StellaSwap pool snapshots`);
+                }
+                return result;
+            },
+        );
+    }
+
+    async crawlFarms(): Promise<CrawlResult<StellaSwapSnapshot>> {
+        this.logger.log('🔄 Starting StellaSwap farms crawl...');
+        return this.activityLog.track(
+            { protocol: Protocol.STELLASWAP, network: Network.MOONBEAM, poolType: PoolType.FARMING },
+            async () => {
+                const result = (await this.farmsCrawler.crawl()) as CrawlResult<StellaSwapSnapshot>;
+
+                if (result.data && result.data.length > 0) {
+                    await this.upsertSnapshots(result.data);
+                    this.logger.log(`💾 Persisted ${result.data.length} StellaSwap farm snapshots`);
+                }
+                return result;
+            },
+        );
+    }
+
+    async crawlAll(): Promise<StellaSwapCrawlAllResult> {
+        this.logger.log('🔄 Starting full StellaSwap crawl (pools + farms) in parallel...');
+        const [pools, farms] = await Promise.all([
+            this.crawlPools(),
+            this.crawlFarms(),
+        ]);
+        this.logger.log(`✅ Full StellaSwap crawl done — pools: ${pools.duration}ms, farms: ${farms.duration}ms`);
+        return { pools, farms };
+    }
+
+    private async upsertSnapshots(snapshots: StellaSwapSnapshot[]): Promise<void> {
+        const dateKey = getUtcDateKey();
+        const now = new Date();
+        for (const snapshot of snapshots) {
+            snapshot.snapshotDate = dateKey;
+            snapshot.updatedAt = now;
+            await this.repository.findOneAndUpdate(
+                {
+                    network: snapshot.network,
+                    poolType: snapshot.poolType,
+                    assetSymbol: snapshot.assetSymbol,
+                    snapshotDate: dateKey,
+                },
+                { $set: snapshot },
+                { upsert: true }
+            );
+        }
+    }
+}
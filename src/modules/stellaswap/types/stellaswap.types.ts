@@ -0,0 +1,87 @@
+/**
+ * StellaSwap (Moonbeam) types and configuration.
+ *
+ * Sources:
+ *   - StellaSwap v2 subgraph (Uniswap v2 schema) — pairs, reserves, daily volume
+ *   - StellaDistributorV2 (MasterChef-style farm contract) via Moonbeam eth_call
+ */
+
+// ─── Subgraph ────────────────────────────────────────────────────────────────
+
+export interface SubgraphToken {
+    id: string;
+    symbol: string;
+}
+
+export interface SubgraphPair {
+    id: string;
+    totalSupply: string;
+    reserveUSD: string;
+    token0: SubgraphToken;
+    token1: SubgraphToken;
+}
+
+export interface SubgraphPairDayData {
+    pairAddress: string;
+    dailyVolumeUSD: string;
+}
+
+export interface SubgraphResponse<T> {
+    data?: T;
+    errors?: Array<{ message: string }>;
+}
+
+// ─── Raw crawler items ───────────────────────────────────────────────────────
+
+export interface RawStellaSwapPool {
+    address: string;
+    token0: SubgraphToken;
+    token1: SubgraphToken;
+    tvlUsd: number;
+    /** Volume of the last complete UTC day. */
+    volume24hUsd?: number;
+    /** LP share of trading fees, annualised over TVL (%). */
+    feeApr?: number;
+}
+
+export interface RawStellaSwapFarm extends RawStellaSwapPool {
+    pid: number;
+    allocPoint: number;
+    /** USD value of LP tokens staked in the farm. */
+    stakedTvlUsd: number;
+    /** Reward token emissions over staked TVL (%). */
+    farmApr: number;
+    rewardToken: string;
+}
+
+// ─── Config ──────────────────────────────────────────────────────────────────
+
+export type StellaSwapDexConfig = {
+    subgraphUrl: string;
+    /** Share of each swap paid to LPs (fraction). */
+    lpFeeRate?: number;
+    minTvlUsd?: number;
+    maxPools?: number;
+};
+
+export type StellaSwapFarmingConfig = {
+    rpcUrl: string;
+    /** StellaDistributorV2 address. */
+    distributor: string;
+};
+
+export const STELLASWAP_DEFAULT_LP_FEE_RATE = 0.002;
+export const STELLASWAP_DEFAULT_MIN_TVL_USD = 10_000;
+export const STELLASWAP_DEFAULT_MAX_POOLS = 100;
+
+/**
+ * Word offsets in the `poolInfo(uint256)` getter of StellaDistributorV2
+ * (struct order: lpToken, allocPoint, lastRewardTimestamp, accStellaPerShare,
+ * depositFeeBP, harvestInterval, totalLp — the rewarders array is omitted by
+ * the public getter).
+ */
+export const DISTRIBUTOR_POOL_INFO_WORDS = {
+    lpToken: 0,
+    allocPoint: 1,
+    totalLp: 6,
+};
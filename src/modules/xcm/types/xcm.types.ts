@@ -0,0 +1,32 @@
+/**
+ * XCM fee table types — mirrors `config/xcm-fees.yaml`.
+ */
+
+export interface XcmFeeTerms {
+    feeUsd: number;          // flat fee per transfer, USD
+    feeBps?: number;         // proportional fee, basis points of amount moved
+    delayMinutes: number;    // time in transit, earns no yield
+}
+
+export interface XcmRoute extends XcmFeeTerms {
+    from: string;            // source network, e.g. "bifrost"
+    to: string;              // destination network, e.g. "hydration"
+    asset: string;           // transferred asset symbol, or "*" for any
+}
+
+export interface XcmFeeTable {
+    defaults: XcmFeeTerms;
+    routes: XcmRoute[];
+}
+
+/** Cost of one transfer as returned by `XcmFeeService.quote()`. */
+export interface XcmTransferQuote {
+    from: string;
+    to: string;
+    asset: string;
+    amountUsd: number;
+    feeUsd: number;          // flat + proportional
+    delayMinutes: number;
+    /** Which table entry priced it: 'route', 'wildcard', 'default' or 'same-network'. */
+    matchedBy: 'route' | 'wildcard' | 'default' | 'same-network';
+}
@@ -0,0 +1,26 @@
+import { Controller, Get, Logger, Query } from '@nestjs/common';
+import { XcmFeeService } from './xcm-fee.service';
+
+@Controller('xcm')
+export class XcmController {
+    private readonly logger = new Logger(XcmController.name);
+
+    constructor(private readonly xcmFeeService: XcmFeeService) { }
+
+    /**
+     * GET /xcm/fees
+     * GET /xcm/fees?from=bifrost&to=hydration&asset=vDOT
+     *
+     * Returns the per-route XCM fee table from `config/xcm-fees.yaml`.
+     */
+    @Get('fees')
+    getFees(
+        @Query('from') from?: string,
+        @Query('to') to?: string,
+        @Query('asset') asset?: string,
+    ) {
+        this.logger.log(`GET /xcm/fees — from: ${from ?? '*'}, to: ${to ?? '*'}, asset: ${asset ?? '*'}`);
+        const data = this.xcmFeeService.getTable({ from, to, asset });
+        return { success: true, count: data.routes.length, data };
+    }
+}
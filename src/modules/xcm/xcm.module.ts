@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { XcmFeeService } from './xcm-fee.service';
+import { XcmController } from './xcm.controller';
+
+/**
+ * XcmModule — cross-chain transfer fee model.
+ *
+ * Fee table lives in `config/xcm-fees.yaml` (next to pools.yaml).
+ * XcmFeeService is exported for the backtest simulator.
+ */
+@Module({
+    controllers: [XcmController],
+    providers: [XcmFeeService],
+    exports: [XcmFeeService],
+})
+export class XcmModule { }
@@ -2,6 +2,8 @@ export const PROTOCOL_LOGOS: Record<string, string> = {
     bifrost: '/logos/protocols/bifrost.svg',
     moonwell: '/logos/protocols/moonwell.svg',
     hydration: '/logos/protocols/hydration.svg',
+    acala: '/logos/protocols/acala.svg',
+    stellaswap: '/logos/protocols/stellaswap.svg',
 };
 
 export const TOKEN_ICONS: Record<string, string> = {
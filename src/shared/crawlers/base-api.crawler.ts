@@ -1,5 +1,8 @@
 import { Logger } from '@nestjs/common';
 import { ProtocolSnapshot } from '../entities/protocol-snapshot.entity';
+import { CrawlItemFailure } from '../entities/crawl-log.entity';
+import { CrawlerOptions } from './base.crawler';
+import { HttpRetryPolicy, fetchWithRetry } from './http-retry';
 
 // ─── CrawlResult ─────────────────────────────────────────────────────────────
 
@@ -26,12 +29,25 @@ export interface CrawlResult<T = ProtocolSnapshot> {
     /** Number of data items returned. */
     itemsFound: number;
 
+    /** RPC/API endpoint that served the crawl (on-chain crawlers). */
+    endpoint?: string;
+
     /** The scraped and normalized data. */
     data: T[];
+
+    /** Items the crawl skipped because their fetch failed or came back empty. */
+    failedItems?: CrawlItemFailure[];
 }
 
 // ─── BaseApiCrawler ───────────────────────────────────────────────────────────
 
+export const DEFAULT_HTTP_POLICY: HttpRetryPolicy = {
+    timeout: 15000,
+    retries: 3,
+    retryDelayMs: 1000,
+    maxRetryDelayMs: 30000,
+};
+
 /**
  * Abstract base class for crawlers that use direct REST API calls (no browser).
  *
@@ -49,8 +65,7 @@ export interface CrawlResult<T = ProtocolSnapshot> {
  *   protected readonly poolType = PoolType.LENDING;
  *
  *   protected async fetchRaw(): Promise<MyRawMarket[]> {
- *     const res = await fetch('https://api.myprotocol.com/markets');
- *     const json = await res.json();
+ *     const json = await this.fetchJson<{ markets: MyRawMarket[] }>('https://api.myprotocol.com/markets');
  *     return json.markets;
  *   }
  *
@@ -69,6 +84,20 @@ export interface CrawlResult<T = ProtocolSnapshot> {
  *   }
  * }
  * ```
+ *
+ * ## HTTP policy
+ *
+ * Use `fetchJson()` / `request()` instead of bare `fetch`: every request gets
+ * a timeout, and 5xx/429 responses, timeouts and network errors are retried
+ * with exponential backoff + jitter (honouring Retry-After). The policy is
+ * resolved per request, later sources winning:
+ *
+ *   defaults → constructor `CrawlerOptions` → `httpOverrides()`
+ *
+ * Override `httpOverrides(network)` to read the `http:` block of the pool in
+ * `config/pools.yaml` (see PoolConfigService.getHttpOptions). Crawlers that
+ * serve several networks pass the crawled network to `fetchJson()` /
+ * `request()` so its own block applies.
  */
 export abstract class BaseApiCrawler<TRaw> {
     protected abstract readonly logger: Logger;
@@ -76,32 +105,75 @@ export abstract class BaseApiCrawler<TRaw> {
     protected abstract readonly network: string;
     protected abstract readonly poolType: string;
 
+    constructor(private readonly crawlerOptions: CrawlerOptions = {}) { }
+
     /**
-     * Fetch raw data from the protocol's API.
-     * Each item returned will be passed to `toSnapshot()`.
+     * Fetch raw data from the protocol's API for `network` (the crawler's own
+     * network unless `crawl()` was given another one).
+     * Each item returned will be passed to `toSnapshot()`. Crawlers that fetch
+     * item by item push the ones they have to skip onto `failures` instead of
+     * failing the whole crawl; they end up in `CrawlResult.failedItems`.
      */
-    protected abstract fetchRaw(): Promise<TRaw[]>;
+    protected abstract fetchRaw(network: string, failures: CrawlItemFailure[]): Promise<TRaw[]>;
 
     /**
      * Map a single raw API item to the unified `ProtocolSnapshot` shape.
      * This is the only place where protocol-specific mapping logic lives.
      */
-    protected abstract toSnapshot(raw: TRaw): ProtocolSnapshot;
+    protected abstract toSnapshot(raw: TRaw, network: string): ProtocolSnapshot;
+
+    /**
+     * Per-crawler policy overrides for `network`, read at request time (config
+     * is loaded after construction). Default: none.
+     */
+    protected httpOverrides(network: string): CrawlerOptions {
+        return {};
+    }
+
+    /** Effective retry/timeout policy for the next request on `network`. */
+    protected httpPolicy(network: string = this.network): HttpRetryPolicy {
+        const merged = { ...DEFAULT_HTTP_POLICY };
+        for (const source of [this.crawlerOptions, this.httpOverrides(network)]) {
+            for (const key of Object.keys(DEFAULT_HTTP_POLICY) as Array<keyof HttpRetryPolicy>) {
+                const value = source?.[key];
+                if (typeof value === 'number' && value >= 0) merged[key] = value;
+            }
+        }
+        return merged;
+    }
+
+    /** `fetch` with timeout + retries. Resolves with a 2xx response or throws. */
+    protected request(url: string, init: RequestInit = {}, network: string = this.network): Promise<Response> {
+        return fetchWithRetry(url, init, this.httpPolicy(network), this.logger);
+    }
+
+    /** GET (by default) a URL and parse the JSON body, with timeout + retries. */
+    protected async fetchJson<T>(url: string, init: RequestInit = {}, network: string = this.network): Promise<T> {
+        const response = await this.request(url, init, network);
+        return (await response.json()) as T;
+    }
 
     /**
      * Main entry point. Fetches raw data, maps to ProtocolSnapshot[], and returns
      * a standard CrawlResult. Handles timing and error logging automatically.
+     *
+     * Crawlers that serve several networks from one config block (e.g. Bifrost
+     * on Polkadot and Kusama) are called once per network.
      */
-    async crawl(): Promise<CrawlResult<ProtocolSnapshot>> {
+    async crawl(network: string = this.network): Promise<CrawlResult<ProtocolSnapshot>> {
         const startTime = Date.now();
-        this.logger.log(`🚀 [${this.protocol}/${this.network}/${this.poolType}] Starting crawl`);
+        this.logger.log(`🚀 [${this.protocol}/${network}/${this.poolType}] Starting crawl`);
 
         let data: ProtocolSnapshot[] = [];
+        const failedItems: CrawlItemFailure[] = [];
 
         try {
-            const raw = await this.fetchRaw();
-            data = raw.map((item) => this.toSnapshot(item));
-            this.logger.log(`✅ Crawl complete — ${data.length} items`);
+            const raw = await this.fetchRaw(network, failedItems);
+            data = raw.map((item) => this.toSnapshot(item, network));
+            this.logger.log(
+                `✅ Crawl complete — ${data.length} items` +
+                (failedItems.length ? `, ${failedItems.length} failed (${failedItems.map(f => f.symbol).join(', ')})` : ''),
+            );
         } catch (error) {
             this.logger.error(
                 `❌ Crawl failed: ${error instanceof Error ? error.message : String(error)}`,
@@ -113,12 +185,13 @@ export abstract class BaseApiCrawler<TRaw> {
 
         return {
             protocol: this.protocol,
-            network: this.network,
+            network,
             poolType: this.poolType,
             timestamp: new Date().toISOString(),
             duration,
             itemsFound: data.length,
             data,
+            failedItems,
         };
     }
 }
@@ -1,28 +1,83 @@
 import { Logger, OnModuleDestroy } from '@nestjs/common';
+import { ApiPromise, WsProvider } from '@polkadot/api';
 import { CrawlResult } from './base-api.crawler';
 import { ProtocolSnapshot } from '../entities/protocol-snapshot.entity';
 
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Result of probing one RPC endpoint (see `checkEndpoints`). */
+export interface RpcEndpointHealth {
+    endpoint: string;
+    healthy: boolean;
+    /** Connect + health round-trip in ms (undefined when unreachable). */
+    latencyMs?: number;
+    chain?: string;
+    peers?: number;
+    isSyncing?: boolean;
+    error?: string;
+}
+
+/** Rejects with a TimeoutError-named error if `promise` does not settle in time. */
+function withTimeout<T>(promise: Promise<T>, ms: number, what: string): Promise<T> {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            const error = new Error(`${what} timed out after ${ms}ms`);
+            error.name = 'TimeoutError';
+            reject(error);
+        }, ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * A stalled endpoint: our own `withTimeout` bound, or WsProvider giving up on
+ * a request (`requestTimeoutMs`).
+ */
+function isTimeout(error: unknown): boolean {
+    return (error instanceof Error && error.name === 'TimeoutError') ||
+        /No response received from RPC endpoint/.test(errorMessage(error));
+}
+
+/** WsProvider rejects with socket events rather than Errors — dig out something readable. */
+function errorMessage(error: unknown): string {
+    if (error instanceof Error) return error.message;
+    const event = error as { message?: unknown; error?: unknown; type?: unknown } | null;
+    if (event && typeof event === 'object') {
+        if (typeof event.message === 'string' && event.message) return event.message;
+        if (event.error instanceof Error) return event.error.message;
+        if (typeof event.type === 'string') return `WebSocket ${event.type}`;
+    }
+    return String(error);
+}
+
+// ─── BasePolkadotCrawler ──────────────────────────────────────────────────────
+
 /**
  * BasePolkadotCrawler — Abstract base for Polkadot parachain RPC crawlers.
  *
  * Use this when you need to query on-chain state directly via Polkadot.js API,
  * for example: reading pallet storage, subscribing to events, or decoding SCALE types.
  *
- * Supported connections (configure via `wsUrl`):
- *   - Bifrost:    wss://bifrost-rpc.dwellir.com
- *   - Acala:      wss://acala-rpc-0.aca-api.network
- *   - Hydration:  wss://rpc.hydradx.cloud
- *   - Astar:      wss://astar.api.onfinality.io/public-ws
- *   - Moonbeam:   wss://wss.api.moonbeam.network
- *   - Polkadot:   wss://rpc.polkadot.io
- *   - Kusama:     wss://kusama-rpc.polkadot.io
+ * ## Connection handling
  *
- * ## To activate:
- * ```bash
- * pnpm add @polkadot/api @polkadot/types
- * ```
+ * One `ApiPromise` is kept per crawler instance and reused across crawls. It
+ * is health-checked (`system_health`) before each crawl; when the check fails
+ * or the socket dropped, the crawler rotates through `endpoints()`:
+ *
+ *   - the endpoint that last served successfully is tried first,
+ *   - each connection attempt is bounded by `connectTimeoutMs`,
+ *   - a query that fails because the connection died or the endpoint
+ *     stalled (a request or the whole query timing out) is retried once on
+ *     every remaining endpoint. Other query errors are rethrown as-is.
+ *   - a stalled endpoint is tried last by later crawls until it serves one
+ *     successfully again.
  *
- * Then uncomment the imports and implementation below.
+ * The endpoint that served the crawl is returned as `CrawlResult.endpoint`
+ * and ends up in `CrawlLog.endpoint`.
+ *
+ * Endpoint lists come from `defaultEndpoints`, overridable per pool with
+ * `rpcEndpoints:` in `config/pools.yaml` (override `endpoints()`).
  *
  * ## Example subclass:
  * ```typescript
@@ -32,7 +87,7 @@ import { ProtocolSnapshot } from '../entities/protocol-snapshot.entity';
  *   protected readonly protocol = Protocol.BIFROST;
  *   protected readonly network = Network.POLKADOT;
  *   protected readonly poolType = PoolType.VSTAKING;
- *   protected readonly wsUrl = 'wss://bifrost-rpc.dwellir.com';
+ *   protected readonly defaultEndpoints = ['wss://bifrost-rpc.dwellir.com', 'wss://hk.p.bifrost-rpc.liebi.com/ws'];
  *
  *   protected async queryChain(api: ApiPromise): Promise<MyData[]> {
  *     const entries = await api.query.vtokenMinting.tokenPool.entries();
@@ -45,73 +100,209 @@ import { ProtocolSnapshot } from '../entities/protocol-snapshot.entity';
  * }
  * ```
  */
-
-// ─── Uncomment when @polkadot/api is installed ───────────────────────────────
-// import { ApiPromise, WsProvider } from '@polkadot/api';
-
-// export abstract class BasePolkadotCrawler<TRaw> implements OnModuleDestroy {
-//   protected abstract readonly logger: Logger;
-//   protected abstract readonly protocol: string;
-//   protected abstract readonly network: string;
-//   protected abstract readonly poolType: string;
-//   protected abstract readonly wsUrl: string;
-//
-//   private api: ApiPromise | null = null;
-//
-//   protected async getApi(): Promise<ApiPromise> {
-//     if (this.api && this.api.isConnected) return this.api;
-//     const provider = new WsProvider(this.wsUrl);
-//     this.api = await ApiPromise.create({ provider });
-//     this.logger.log(`🔗 Connected to ${this.wsUrl}`);
-//     return this.api;
-//   }
-//
-//   /** Query the chain and return raw typed data. */
-//   protected abstract queryChain(api: ApiPromise): Promise<TRaw[]>;
-//
-//   /** Map raw chain data to unified ProtocolSnapshot. */
-//   protected abstract toSnapshot(raw: TRaw): ProtocolSnapshot;
-//
-//   async crawl(): Promise<CrawlResult<ProtocolSnapshot>> {
-//     const startTime = Date.now();
-//     this.logger.log(`⛓️ [${this.protocol}/${this.network}] Connecting to ${this.wsUrl}`);
-//
-//     const api = await this.getApi();
-//     const raw = await this.queryChain(api);
-//     const data = raw.map((item) => this.toSnapshot(item));
-//     const duration = Date.now() - startTime;
-//
-//     this.logger.log(`✅ On-chain crawl done in ${duration}ms — ${data.length} items`);
-//
-//     return {
-//       protocol: this.protocol,
-//       network: this.network,
-//       poolType: this.poolType,
-//       timestamp: new Date().toISOString(),
-//       duration,
-//       itemsFound: data.length,
-//       data,
-//     };
-//   }
-//
-//   async onModuleDestroy() {
-//     if (this.api) {
-//       await this.api.disconnect();
-//       this.logger.log(`🔌 Disconnected from ${this.wsUrl}`);
-//     }
-//   }
-// }
-// ─────────────────────────────────────────────────────────────────────────────
-
-// Placeholder export so this file compiles before the package is installed.
-export abstract class BasePolkadotCrawler<TRaw> {
+export abstract class BasePolkadotCrawler<TRaw, TSnapshot = ProtocolSnapshot> implements OnModuleDestroy {
     protected abstract readonly logger: Logger;
     protected abstract readonly protocol: string;
     protected abstract readonly network: string;
     protected abstract readonly poolType: string;
 
-    /** WSS URL of the Polkadot-compatible RPC endpoint. */
-    protected abstract readonly wsUrl: string;
+    /** WSS URLs of the chain's RPC endpoints, in order of preference. */
+    protected abstract readonly defaultEndpoints: string[];
+
+    /** Bound on opening a socket + fetching metadata on one endpoint. */
+    protected readonly connectTimeoutMs: number = 30_000;
+    /** Bound on the `system_health` probe of a cached connection. */
+    protected readonly healthCheckTimeoutMs: number = 10_000;
+    /** Per-request timeout handed to WsProvider. */
+    protected readonly requestTimeoutMs: number = 60_000;
+    /** Bound on one whole `queryChain` run. */
+    protected readonly queryTimeoutMs: number = 600_000;
+
+    private api: ApiPromise | null = null;
+    private activeEndpoint: string | null = null;
+    private lastGoodEndpoint: string | null = null;
+    private readonly stalledEndpoints = new Set<string>();
+
+    /** Query the chain and return raw typed data. */
+    protected abstract queryChain(api: ApiPromise): Promise<TRaw[]>;
+
+    /**
+     * Map raw chain data to unified ProtocolSnapshot (or, for crawlers that
+     * record something other than pool snapshots, to their own record type).
+     */
+    protected abstract toSnapshot(raw: TRaw): TSnapshot;
+
+    /** Endpoint list used for failover. Override to read from config. */
+    protected endpoints(): string[] {
+        return this.defaultEndpoints;
+    }
+
+    async crawl(): Promise<CrawlResult<TSnapshot>> {
+        const startTime = Date.now();
+        const tried = new Set<string>();
+        this.logger.log(`⛓️ [${this.protocol}/${this.network}/${this.poolType}] Starting on-chain crawl`);
+
+        for (;;) {
+            const { api, endpoint } = await this.getApi(tried);
+            tried.add(endpoint);
+
+            try {
+                const raw = await withTimeout(this.queryChain(api), this.queryTimeoutMs, `Querying ${endpoint}`);
+                const data = raw.map((item) => this.toSnapshot(item));
+                const duration = Date.now() - startTime;
+                this.lastGoodEndpoint = endpoint;
+                this.stalledEndpoints.delete(endpoint);
+
+                this.logger.log(`✅ On-chain crawl done in ${duration}ms via ${endpoint} — ${data.length} items`);
+
+                return {
+                    protocol: this.protocol,
+                    network: this.network,
+                    poolType: this.poolType,
+                    timestamp: new Date().toISOString(),
+                    duration,
+                    itemsFound: data.length,
+                    endpoint,
+                    data,
+                };
+            } catch (error) {
+                // Only connection loss or a stall is worth another endpoint — logic errors would repeat
+                const connectionLost = !api.isConnected;
+                const stalled = isTimeout(error);
+                if (stalled) {
+                    this.stalledEndpoints.add(endpoint);
+                    if (this.lastGoodEndpoint === endpoint) this.lastGoodEndpoint = null;
+                }
+                const remaining = this.endpoints().filter((e) => !tried.has(e));
+                if ((!connectionLost && !stalled) || !remaining.length) {
+                    this.logger.error(`❌ On-chain crawl failed via ${endpoint}: ${errorMessage(error)}`);
+                    if (stalled) await this.dropApi();
+                    throw error;
+                }
+                this.logger.warn(`⚠️ ${stalled ? 'Stalled on' : 'Lost'} ${endpoint} mid-crawl (${errorMessage(error)}) — failing over`);
+                await this.dropApi();
+            }
+        }
+    }
+
+    /**
+     * Probe every configured endpoint on a fresh, short-lived connection.
+     * Does not touch the cached connection used by `crawl()`.
+     */
+    async checkEndpoints(): Promise<RpcEndpointHealth[]> {
+        const results: RpcEndpointHealth[] = [];
+        for (const endpoint of this.endpoints()) {
+            const startTime = Date.now();
+            let api: ApiPromise | null = null;
+            try {
+                api = await this.connect(endpoint);
+                const [chain, health] = await withTimeout(
+                    Promise.all([api.rpc.system.chain(), api.rpc.system.health()]),
+                    this.healthCheckTimeoutMs,
+                    `Health check of ${endpoint}`,
+                );
+                results.push({
+                    endpoint,
+                    healthy: !health.isSyncing.isTrue,
+                    latencyMs: Date.now() - startTime,
+                    chain: chain.toString(),
+                    peers: health.peers.toNumber(),
+                    isSyncing: health.isSyncing.isTrue,
+                });
+            } catch (error) {
+                results.push({ endpoint, healthy: false, error: errorMessage(error) });
+            } finally {
+                await api?.disconnect().catch(() => undefined);
+            }
+        }
+        return results;
+    }
+
+    async onModuleDestroy() {
+        await this.dropApi();
+    }
+
+    // ─── Connection ───────────────────────────────────────────────────────────
+
+    /**
+     * Returns the cached connection when it passes a health check, otherwise
+     * connects to the first reachable endpoint not in `exclude`.
+     */
+    protected async getApi(exclude: Set<string> = new Set()): Promise<{ api: ApiPromise; endpoint: string }> {
+        if (this.api && this.activeEndpoint && !exclude.has(this.activeEndpoint)) {
+            if (await this.isHealthy(this.api)) return { api: this.api, endpoint: this.activeEndpoint };
+            this.logger.warn(`⚠️ ${this.activeEndpoint} failed its health check — reconnecting`);
+        }
+        await this.dropApi();
+
+        const candidates = this.orderedEndpoints().filter((e) => !exclude.has(e));
+        const failures: string[] = [];
+        for (const endpoint of candidates) {
+            try {
+                this.logger.log(`🔗 Connecting to ${endpoint}...`);
+                const api = await this.connect(endpoint);
+                this.api = api;
+                this.activeEndpoint = endpoint;
+                this.logger.log(`✅ Connected to ${(await api.rpc.system.chain()).toString()} via ${endpoint}`);
+                return { api, endpoint };
+            } catch (error) {
+                failures.push(`${endpoint}: ${errorMessage(error)}`);
+                this.logger.warn(`⚠️ ${endpoint} unavailable: ${errorMessage(error)}`);
+            }
+        }
+
+        throw new Error(
+            `All RPC endpoints failed for ${this.protocol}/${this.network}` +
+            (failures.length ? ` — ${failures.join('; ')}` : ' — no endpoints configured'),
+        );
+    }
+
+    /** Last endpoint that served a crawl first, then configured order, stalled endpoints last. */
+    private orderedEndpoints(): string[] {
+        const endpoints = this.endpoints();
+        const ordered = this.lastGoodEndpoint && endpoints.includes(this.lastGoodEndpoint)
+            ? [this.lastGoodEndpoint, ...endpoints.filter((e) => e !== this.lastGoodEndpoint)]
+            : endpoints;
+        return [
+            ...ordered.filter((e) => !this.stalledEndpoints.has(e)),
+            ...ordered.filter((e) => this.stalledEndpoints.has(e)),
+        ];
+    }
+
+    private async connect(endpoint: string): Promise<ApiPromise> {
+        // No auto-reconnect: a dead endpoint must fail fast so we can rotate
+        const provider = new WsProvider(endpoint, false, {}, this.requestTimeoutMs);
+        try {
+            await withTimeout(provider.connect(), this.connectTimeoutMs, `Connecting to ${endpoint}`);
+            return await withTimeout(
+                ApiPromise.create({ provider, throwOnConnect: true }),
+                this.connectTimeoutMs,
+                `Initialising API on ${endpoint}`,
+            );
+        } catch (error) {
+            await provider.disconnect().catch(() => undefined);
+            throw error;
+        }
+    }
+
+    private async isHealthy(api: ApiPromise): Promise<boolean> {
+        if (!api.isConnected) return false;
+        try {
+            const health = await withTimeout(api.rpc.system.health(), this.healthCheckTimeoutMs, 'Health check');
+            return !health.isSyncing.isTrue;
+        } catch {
+            return false;
+        }
+    }
 
-    abstract crawl(): Promise<CrawlResult<ProtocolSnapshot>>;
+    private async dropApi(): Promise<void> {
+        const api = this.api;
+        const endpoint = this.activeEndpoint;
+        this.api = null;
+        this.activeEndpoint = null;
+        if (api) {
+            await api.disconnect().catch(() => undefined);
+            this.logger.log(`🔌 Disconnected from ${endpoint}`);
+        }
+    }
 }
@@ -13,6 +13,8 @@ export interface CrawlerOptions {
     timeout?: number;
     retries?: number;
     retryDelayMs?: number;
+    /** API crawlers: ceiling for backoff delays and Retry-After waits. */
+    maxRetryDelayMs?: number;
 }
 
 const DEFAULT_OPTIONS: Required<CrawlerOptions> = {
@@ -25,6 +27,7 @@ const DEFAULT_OPTIONS: Required<CrawlerOptions> = {
     timeout: 30000,
     retries: 2,
     retryDelayMs: 2000,
+    maxRetryDelayMs: 30000,
 };
 
 /**
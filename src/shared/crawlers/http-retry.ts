@@ -0,0 +1,110 @@
+import { Logger } from '@nestjs/common';
+
+// ─── Policy ──────────────────────────────────────────────────────────────────
+
+/** Retry/timeout policy for one HTTP request (see `fetchWithRetry`). */
+export interface HttpRetryPolicy {
+    /** Per-attempt timeout in ms (AbortSignal). */
+    timeout: number;
+    /** Extra attempts after the first one. */
+    retries: number;
+    /** Base delay of the exponential backoff: retryDelayMs × 2^attempt. */
+    retryDelayMs: number;
+    /** Ceiling for backoff delays and for honoured Retry-After values. */
+    maxRetryDelayMs: number;
+}
+
+/** Status codes worth retrying: rate limiting and server-side failures. */
+export function isRetryableStatus(status: number): boolean {
+    return status === 429 || status === 408 || status >= 500;
+}
+
+// ─── Errors ──────────────────────────────────────────────────────────────────
+
+/** Non-2xx response that was not (or no longer) retried. */
+export class HttpRequestError extends Error {
+    constructor(
+        readonly url: string,
+        readonly status: number,
+        readonly statusText: string,
+        readonly attempts: number,
+    ) {
+        super(`HTTP ${status} ${statusText} for ${url} after ${attempts} attempt(s)`);
+        this.name = 'HttpRequestError';
+    }
+}
+
+// ─── Delays ──────────────────────────────────────────────────────────────────
+
+/**
+ * Exponential backoff with "equal jitter": half the exponential delay is
+ * fixed, the other half random, so concurrent clients spread out.
+ */
+export function backoffDelay(attempt: number, policy: HttpRetryPolicy, random: () => number = Math.random): number {
+    const exponential = Math.min(policy.maxRetryDelayMs, policy.retryDelayMs * 2 ** attempt);
+    return exponential / 2 + random() * (exponential / 2);
+}
+
+/**
+ * Parses a Retry-After header — either delta-seconds ("120") or an HTTP date.
+ * Returns the delay in ms, or undefined when absent or unparseable.
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | undefined {
+    if (!header) return undefined;
+    const trimmed = header.trim();
+    if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000;
+    const at = Date.parse(trimmed);
+    return Number.isNaN(at) ? undefined : Math.max(0, at - now);
+}
+
+// ─── Request ─────────────────────────────────────────────────────────────────
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * `fetch` with a per-attempt timeout and retries on 5xx/429/408, timeouts and
+ * network errors. A Retry-After header (capped at `maxRetryDelayMs`) takes
+ * precedence over the backoff delay. Other 4xx responses fail immediately.
+ *
+ * Resolves with the first 2xx response; throws HttpRequestError (bad status)
+ * or the last network/timeout error once attempts are exhausted.
+ */
+export async function fetchWithRetry(
+    url: string,
+    init: RequestInit,
+    policy: HttpRetryPolicy,
+    logger?: Logger,
+): Promise<Response> {
+    const attempts = policy.retries + 1;
+
+    for (let attempt = 0; attempt < attempts; attempt++) {
+        const isLast = attempt === attempts - 1;
+        let delay: number;
+
+        try {
+            const response = await fetch(url, { ...init, signal: AbortSignal.timeout(policy.timeout) });
+            if (response.ok) return response;
+
+            if (!isRetryableStatus(response.status) || isLast) {
+                throw new HttpRequestError(url, response.status, response.statusText, attempt + 1);
+            }
+            const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+            delay = retryAfter != null
+                ? Math.min(retryAfter, policy.maxRetryDelayMs)
+                : backoffDelay(attempt, policy);
+            logger?.warn(`⚠️ HTTP ${response.status} for ${url} — retry ${attempt + 1}/${policy.retries} in ${Math.round(delay)}ms`);
+        } catch (error) {
+            if (error instanceof HttpRequestError || isLast) throw error;
+            delay = backoffDelay(attempt, policy);
+            const reason = error instanceof Error && error.name === 'TimeoutError'
+                ? `timed out after ${policy.timeout}ms`
+                : error instanceof Error ? error.message : String(error);
+            logger?.warn(`⚠️ ${url} ${reason} — retry ${attempt + 1}/${policy.retries} in ${Math.round(delay)}ms`);
+        }
+
+        await sleep(delay);
+    }
+
+    // Unreachable: the last attempt either returns or throws
+    throw new Error(`fetchWithRetry: no attempts made for ${url}`);
+}
@@ -1,6 +1,12 @@
 import { Entity, ObjectIdColumn, Column, CreateDateColumn } from 'typeorm';
 import { ObjectId } from 'mongodb';
 
+/** One item (token, market, pool) a crawl failed to produce, and why. */
+export interface CrawlItemFailure {
+    symbol: string;
+    error: string;
+}
+
 /**
  * CrawlLog — activity record written once per crawl run.
  *
@@ -9,6 +15,8 @@ import { ObjectId } from 'mongodb';
  *
  * One document is created per crawl invocation regardless of how many pool
  * snapshots were found, giving a lightweight audit trail of crawl history.
+ * Failed runs are logged too (`success: false`), and a run that succeeded
+ * only in part lists the items it missed under `failedItems`.
  */
 @Entity('crawl_logs')
 export class CrawlLog {
@@ -43,6 +51,18 @@ export class CrawlLog {
     @Column({ nullable: true })
     errorMessage?: string;
 
+    /** Asset symbols of the snapshots produced */
+    @Column({ nullable: true })
+    succeededItems?: string[];
+
+    /** Items skipped because their fetch failed or came back empty */
+    @Column('simple-json', { nullable: true })
+    failedItems?: CrawlItemFailure[];
+
+    /** RPC endpoint that served the crawl (on-chain crawlers only) */
+    @Column({ nullable: true })
+    endpoint?: string;
+
     /** ISO timestamp when the crawl was triggered */
     @Column()
     crawledAt: Date;
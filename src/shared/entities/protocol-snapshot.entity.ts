@@ -42,6 +42,7 @@ export enum Network {
     ASTAR = 'astar',
     BIFROST = 'bifrost',
     HYDRATION = 'hydration',
+    ACALA = 'acala',
     OPTIMISM = 'optimism',
 }
 
@@ -123,6 +124,12 @@ export class MoonwellSnapshot extends BaseProtocolSnapshot { }
 @Entity('hydration_snapshots')
 export class HydrationSnapshot extends BaseProtocolSnapshot { }
 
+@Entity('acala_snapshots')
+export class AcalaSnapshot extends BaseProtocolSnapshot { }
+
+@Entity('stellaswap_snapshots')
+export class StellaSwapSnapshot extends BaseProtocolSnapshot { }
+
 // Re-export ProtocolSnapshot as a type for compatibility if needed, 
 // though we should use specific ones now.
 export type ProtocolSnapshot = BaseProtocolSnapshot;
@@ -3,7 +3,8 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { MongoRepository } from 'typeorm';
 import * as fs from 'fs';
 import * as path from 'path';
-import { CrawlLog } from '../entities/crawl-log.entity';
+import { CrawlItemFailure, CrawlLog } from '../entities/crawl-log.entity';
+import { CrawlResult } from '../crawlers/base-api.crawler';
 
 export interface CrawlActivity {
     protocol: string;
@@ -13,6 +14,22 @@ export interface CrawlActivity {
     durationMs: number;
     success: boolean;
     errorMessage?: string;
+    endpoint?: string;
+    succeededItems?: string[];
+    failedItems?: CrawlItemFailure[];
+}
+
+/** Where a crawl runs — the fields a failure is logged under. */
+export type CrawlContext = Pick<CrawlActivity, 'protocol' | 'network' | 'poolType'>;
+
+/** Per-item fields of a CrawlActivity, taken from a crawl result. */
+export function itemOutcomes(
+    result: CrawlResult<{ assetSymbol: string }>,
+): Pick<CrawlActivity, 'succeededItems' | 'failedItems'> {
+    return {
+        succeededItems: result.data.map(item => item.assetSymbol),
+        failedItems: result.failedItems?.length ? result.failedItems : undefined,
+    };
 }
 
 /**
@@ -59,13 +76,15 @@ export class ActivityLogService {
         }
 
         // ── 2. Append one line to logs/server.log ─────────────────────────────
-        const status = activity.success ? '✅' : '❌';
+        const status = !activity.success ? '❌' : activity.failedItems?.length ? '⚠️' : '✅';
         const line = [
             `[${crawledAt.toISOString()}]`,
             status,
             `${activity.protocol}/${activity.network}/${activity.poolType}`,
             `items=${activity.itemsFound}`,
             `duration=${activity.durationMs}ms`,
+            activity.endpoint ? `endpoint=${activity.endpoint}` : null,
+            activity.failedItems?.length ? `failed=${activity.failedItems.map(f => f.symbol).join(',')}` : null,
             activity.errorMessage ? `error="${activity.errorMessage}"` : null,
         ]
             .filter(Boolean)
@@ -83,7 +102,8 @@ export class ActivityLogService {
     }
 
     /**
-     * Convenience wrapper for a successful crawl result.
+     * Convenience wrapper for a successful crawl result (possibly with some
+     * `failedItems`).
      */
     async recordSuccess(params: Omit<CrawlActivity, 'success'>): Promise<void> {
         return this.record({ ...params, success: true });
@@ -103,4 +123,32 @@ export class ActivityLogService {
             errorMessage: error instanceof Error ? error.message : String(error),
         });
     }
+
+    /**
+     * Runs `crawl` (fetch + persist) and records its outcome: a success with
+     * the result's item outcomes, or a failure under `ctx` with the elapsed
+     * time, after which the error is rethrown.
+     */
+    async track<R extends CrawlResult<{ assetSymbol: string }>>(
+        ctx: CrawlContext,
+        crawl: () => Promise<R>,
+    ): Promise<R> {
+        const startTime = Date.now();
+        let result: R;
+        try {
+            result = await crawl();
+        } catch (error) {
+            await this.recordFailure({ ...ctx, durationMs: Date.now() - startTime }, error);
+            throw error;
+        }
+        await this.recordSuccess({
+            ...ctx,
+            network: result.network,
+            itemsFound: result.itemsFound,
+            durationMs: result.duration,
+            endpoint: result.endpoint,
+            ...itemOutcomes(result),
+        });
+        return result;
+    }
 }
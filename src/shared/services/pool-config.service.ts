@@ -2,6 +2,7 @@ import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as yaml from 'js-yaml';
+import { CrawlerOptions } from '../crawlers/base.crawler';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -15,12 +16,34 @@ export type PoolConfig = Record<string, unknown> & {
     chainId?: number;
     apiBase?: string;
     pageWaitMs?: number;
+    /** vStaking only: token → redemption (unbonding) days, plus a `default`. */
+    redemptionDays?: Record<string, number>;
+    /** API crawlers: overrides for the HTTP timeout/retry policy. */
+    http?: Pick<CrawlerOptions, 'timeout' | 'retries' | 'retryDelayMs' | 'maxRetryDelayMs'>;
+    /** On-chain crawlers: WSS endpoints in failover order. */
+    rpcEndpoints?: string[];
 };
 
 export type NetworkConfig = Record<string, PoolConfig | undefined>;
 export type ProtocolConfig = Record<string, NetworkConfig>;
 export type PoolsConfig = Record<string, ProtocolConfig>;
 
+// ─── Env expansion ────────────────────────────────────────────────────────────
+
+const ENV_REFERENCE = /\$\{([A-Z0-9_]+)(?::-([^}]*))?\}/g;
+
+/** Replaces `${NAME}` / `${NAME:-fallback}` in every string; unset without fallback becomes empty. */
+function expandEnv(value: unknown): unknown {
+    if (typeof value === 'string') {
+        return value.replace(ENV_REFERENCE, (_, name: string, fallback?: string) => process.env[name] || fallback || '');
+    }
+    if (Array.isArray(value)) return value.map(expandEnv);
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, expandEnv(v)]));
+    }
+    return value;
+}
+
 // ─── Service ──────────────────────────────────────────────────────────────────
 
 /**
@@ -37,8 +60,14 @@ export type PoolsConfig = Record<string, ProtocolConfig>;
  *       tokens: [...]    # optional
  *       chainId: 1284    # optional
  *       apiBase: ...     # optional
+ *       http:            # optional, API crawlers only
+ *         timeout: 15000
+ *         retries: 3
  * ```
  *
+ * String values may reference environment variables as `${NAME}` or
+ * `${NAME:-fallback}`, so per-environment endpoints need no YAML edits.
+ *
  * Usage:
  *   this.poolConfig.getTokens('bifrost', 'polkadot', 'vstaking')
  *   this.poolConfig.get<{ chainId: number }>('moonwell', 'moonbeam', 'markets')
@@ -82,6 +111,42 @@ export class PoolConfigService implements OnModuleInit {
         return this.get(protocol, network, poolType).url as string;
     }
 
+    /**
+     * Networks under `protocol` that configure `poolType`, in YAML order.
+     * Lets multi-network crawlers pick up a new network from config alone.
+     */
+    getNetworks(protocol: string, poolType: string): string[] {
+        return Object.entries(this.config?.[protocol] ?? {})
+            .filter(([, networkConfig]) => networkConfig?.[poolType] != null)
+            .map(([network]) => network);
+    }
+
+    /**
+     * Convenience: redemption period in days for a vStaking token, falling
+     * back to the pool's `default`. Undefined when neither is configured.
+     */
+    getRedemptionDays(protocol: string, network: string, poolType: string, token: string): number | undefined {
+        const days = this.config?.[protocol]?.[network]?.[poolType]?.redemptionDays;
+        return days?.[token] ?? days?.['default'];
+    }
+
+    /**
+     * Convenience: HTTP policy overrides for an API crawler. Returns `{}` when
+     * the pool or its `http` block is missing — crawlers fall back to defaults.
+     */
+    getHttpOptions(protocol: string, network: string, poolType: string): CrawlerOptions {
+        return { ...(this.config?.[protocol]?.[network]?.[poolType]?.http ?? {}) };
+    }
+
+    /**
+     * Convenience: RPC endpoints for an on-chain crawler, in failover order.
+     * Empty when not configured — crawlers fall back to their built-in list.
+     */
+    getRpcEndpoints(protocol: string, network: string, poolType: string): string[] {
+        const endpoints = this.config?.[protocol]?.[network]?.[poolType]?.rpcEndpoints;
+        return Array.isArray(endpoints) ? endpoints.filter((e) => typeof e === 'string' && e.length > 0) : [];
+    }
+
     /** Re-read the YAML from disk (useful in dev without restart). */
     reloadConfig(): void {
         this.loadConfig();
@@ -94,7 +159,7 @@ export class PoolConfigService implements OnModuleInit {
                 return;
             }
             const raw = fs.readFileSync(this.configPath, 'utf-8');
-            this.config = yaml.load(raw) as PoolsConfig;
+            this.config = expandEnv(yaml.load(raw)) as PoolsConfig;
             this.logger.log(`✅ Pool config loaded: ${this.configPath}`);
         } catch (error) {
             this.logger.error(`❌ Failed to load pool config: ${(error as Error).message}`);
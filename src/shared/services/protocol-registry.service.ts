@@ -0,0 +1,62 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { MongoRepository } from 'typeorm';
+import { BaseProtocolSnapshot } from '../entities/protocol-snapshot.entity';
+
+/** One crawl the scheduler runs on every tick. */
+export interface CrawlEntrypoint {
+    /** Shown in scheduler logs, e.g. 'Bifrost' or 'Bifrost vToken rates'. */
+    label: string;
+    run: () => Promise<unknown>;
+}
+
+/**
+ * What a protocol module contributes to the shared services: where its daily
+ * snapshots live, how to crawl it, and which `metadata` keys surface as
+ * PoolSummary fields in the pools API.
+ */
+export interface ProtocolRegistration {
+    /** Protocol id as stored on snapshots, e.g. 'bifrost'. */
+    protocol: string;
+    /** Display name, e.g. 'Bifrost'. */
+    label: string;
+    repository: MongoRepository<BaseProtocolSnapshot>;
+    crawls: CrawlEntrypoint[];
+    /** PoolSummary field → `metadata` key, e.g. `{ marketAddress: 'marketTokenAddress' }`. */
+    summaryFields?: Record<string, string>;
+}
+
+/**
+ * ProtocolRegistryService — protocols register themselves here on module init
+ * (see e.g. BifrostService.onModuleInit), and the pools API, backtest series
+ * and scheduler discover them from here instead of injecting every snapshot
+ * repository. Adding a protocol module is then enough to have it listed,
+ * aggregated and crawled.
+ */
+@Injectable()
+export class ProtocolRegistryService {
+    private readonly logger = new Logger(ProtocolRegistryService.name);
+    private readonly protocols = new Map<string, ProtocolRegistration>();
+
+    register(registration: ProtocolRegistration): void {
+        if (this.protocols.has(registration.protocol)) {
+            throw new Error(`Protocol "${registration.protocol}" is already registered`);
+        }
+        this.protocols.set(registration.protocol, registration);
+        this.logger.log(`🧩 Registered ${registration.label} (${registration.crawls.length} crawl entrypoints)`);
+    }
+
+    /** Registrations in module init order. */
+    all(): ProtocolRegistration[] {
+        return [...this.protocols.values()];
+    }
+
+    get(protocol: string): ProtocolRegistration | undefined {
+        return this.protocols.get(protocol);
+    }
+
+    /** Snapshot repository of `protocol`, or of every protocol when omitted or unknown. */
+    repositories(protocol?: string): MongoRepository<BaseProtocolSnapshot>[] {
+        const registration = protocol ? this.protocols.get(protocol) : undefined;
+        return registration ? [registration.repository] : this.all().map(r => r.repository);
+    }
+}
@@ -2,21 +2,24 @@ import { Global, Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { PoolConfigService } from './services/pool-config.service';
 import { ActivityLogService } from './services/activity-log.service';
-import { BifrostSnapshot, MoonwellSnapshot, HydrationSnapshot } from './entities/protocol-snapshot.entity';
+import { ProtocolRegistryService } from './services/protocol-registry.service';
+import { BifrostSnapshot, MoonwellSnapshot, HydrationSnapshot, AcalaSnapshot, StellaSwapSnapshot } from './entities/protocol-snapshot.entity';
 import { CrawlLog } from './entities/crawl-log.entity';
 
 @Global()
 @Module({
     imports: [
-        TypeOrmModule.forFeature([BifrostSnapshot, MoonwellSnapshot, HydrationSnapshot, CrawlLog]),
+        TypeOrmModule.forFeature([BifrostSnapshot, MoonwellSnapshot, HydrationSnapshot, AcalaSnapshot, StellaSwapSnapshot, CrawlLog]),
     ],
     providers: [
         PoolConfigService,
         ActivityLogService,
+        ProtocolRegistryService,
     ],
     exports: [
         PoolConfigService,
         ActivityLogService,
+        ProtocolRegistryService,
         TypeOrmModule,
     ],
 })
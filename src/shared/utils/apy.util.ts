@@ -0,0 +1,17 @@
+export interface ApyFields {
+    totalApy?: number;
+    supplyApy?: number;
+    rewardApy?: number;
+}
+
+/** Sanity cap applied to every APY we serve or simulate with (500%). */
+export const APY_SANITY_CAP = 500;
+
+/**
+ * The single APY figure used for ranking, risk scoring and simulation.
+ * Falls back totalApy → supplyApy → rewardApy, since each protocol fills a
+ * different subset of those fields.
+ */
+export function getEffectiveApy(fields: ApyFields): number | undefined {
+    return fields.totalApy ?? fields.supplyApy ?? fields.rewardApy;
+}
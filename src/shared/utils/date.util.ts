@@ -10,3 +10,20 @@ export function getUtcDateKey(date: Date = new Date()): string {
     const day = String(date.getUTCDate()).padStart(2, '0');
     return `${year}-${month}-${day}`;
 }
+
+/**
+ * Returns every UTC date key from `from` to `to` (inclusive), one per day.
+ * Both bounds are normalised to their UTC day, so time-of-day is ignored.
+ *
+ * Example: ("2026-02-27", "2026-03-01") → ["2026-02-27", "2026-02-28", "2026-03-01"]
+ */
+export function enumerateDateKeys(from: Date, to: Date): string[] {
+    const keys: string[] = [];
+    const cursor = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()));
+    const end = Date.UTC(to.getUTCFullYear(), to.getUTCMonth(), to.getUTCDate());
+    while (cursor.getTime() <= end) {
+        keys.push(getUtcDateKey(cursor));
+        cursor.setUTCDate(cursor.getUTCDate() + 1);
+    }
+    return keys;
+}
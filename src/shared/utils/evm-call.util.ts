@@ -0,0 +1,63 @@
+import { keccakAsHex } from '@polkadot/util-crypto';
+
+/**
+ * Minimal ABI helpers for read-only `eth_call`s with static arguments —
+ * enough for MasterChef-style and ERC20 getters, without pulling in an EVM
+ * client library.
+ */
+
+/** 4-byte selector of a function signature, e.g. `poolLength()`. */
+export function selector(signature: string): string {
+    return keccakAsHex(signature).slice(0, 10);
+}
+
+/** Calldata for a function taking only uint256 and address (hex string) arguments. */
+export function encodeCall(signature: string, args: Array<number | bigint | string> = []): string {
+    const word = (a: number | bigint | string) => typeof a === 'string'
+        ? a.replace(/^0x/, '').toLowerCase().padStart(64, '0')
+        : BigInt(a).toString(16).padStart(64, '0');
+    return selector(signature) + args.map(word).join('');
+}
+
+/** Splits return data into 32-byte words. */
+export function decodeWords(data: string): string[] {
+    const hex = data.startsWith('0x') ? data.slice(2) : data;
+    const words: string[] = [];
+    for (let i = 0; i + 64 <= hex.length; i += 64) words.push(hex.slice(i, i + 64));
+    return words;
+}
+
+export function wordToBigInt(word: string): bigint {
+    return BigInt(`0x${word || '0'}`);
+}
+
+/** Address held in the low 20 bytes of a word, lower-cased. */
+export function wordToAddress(word: string): string {
+    return `0x${word.slice(24)}`.toLowerCase();
+}
+
+/** A single returned `address[]`: offset word, length word, then one address per word. */
+export function decodeAddressArray(data: string): string[] {
+    const words = decodeWords(data);
+    const start = Number(wordToBigInt(words[0])) / 32;
+    const length = Number(wordToBigInt(words[start]));
+    return words.slice(start + 1, start + 1 + length).map(wordToAddress);
+}
+
+/** A single returned `string`: offset word, length word, then UTF-8 bytes. */
+export function decodeString(data: string): string {
+    const hex = data.startsWith('0x') ? data.slice(2) : data;
+    const words = decodeWords(hex);
+    const start = Number(wordToBigInt(words[0])) * 2;
+    const length = Number(wordToBigInt(hex.slice(start, start + 64)));
+    return Buffer.from(hex.slice(start + 64, start + 64 + length * 2), 'hex').toString('utf8');
+}
+
+/** JSON-RPC request body for `eth_call` at the latest block. */
+export function ethCallRequest(to: string, data: string, id = 1): RequestInit {
+    return {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id, method: 'eth_call', params: [{ to, data }, 'latest'] }),
+    };
+}
@@ -0,0 +1,23 @@
+import { createHash } from 'crypto';
+
+/** Fields that identify one pool across all protocol collections. */
+export interface PoolKeyFields {
+    protocol: string;
+    network: string;
+    poolType: string;
+    assetSymbol: string;
+}
+
+/** Composite key identifying one pool across all protocol collections. */
+export function toPoolKey(p: PoolKeyFields): string {
+    return `${p.protocol}|${p.network}|${p.poolType}|${p.assetSymbol}`;
+}
+
+/**
+ * URL-safe pool id: the first 16 hex chars of SHA-256 over `toPoolKey`.
+ * Stable for as long as the key fields are, whatever characters the asset
+ * symbol contains (e.g. Hydration's "USDT/USDC/DAI").
+ */
+export function toPoolId(p: PoolKeyFields): string {
+    return createHash('sha256').update(toPoolKey(p)).digest('hex').slice(0, 16);
+}
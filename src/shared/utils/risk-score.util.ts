@@ -5,9 +5,17 @@ export interface RiskInput {
     poolType?: string;
 }
 
+/** One factor of the score: its 0–10 sub-score and weight in the total. */
+export interface RiskComponent {
+    factor: 'tvl' | 'volatility' | 'apy' | 'poolType';
+    score: number;
+    weight: number;
+}
+
 export interface RiskResult {
     riskScore: number;
     riskLabel: 'Low' | 'Medium' | 'High';
+    breakdown: RiskComponent[];
 }
 
 function tvlScore(tvl?: number): number {
@@ -45,15 +53,17 @@ function poolTypeScore(poolType?: string): number {
 }
 
 export function calculateRiskScore(input: RiskInput): RiskResult {
-    const weighted =
-        tvlScore(input.tvlUsd) * 0.35 +
-        volatilityScore(input.apyVolatility) * 0.25 +
-        apyScore(input.totalApy) * 0.25 +
-        poolTypeScore(input.poolType) * 0.15;
+    const breakdown: RiskComponent[] = [
+        { factor: 'tvl', score: tvlScore(input.tvlUsd), weight: 0.35 },
+        { factor: 'volatility', score: volatilityScore(input.apyVolatility), weight: 0.25 },
+        { factor: 'apy', score: apyScore(input.totalApy), weight: 0.25 },
+        { factor: 'poolType', score: poolTypeScore(input.poolType), weight: 0.15 },
+    ];
+    const weighted = breakdown.reduce((sum, c) => sum + c.score * c.weight, 0);
 
     const riskScore = Math.max(1, Math.min(10, Math.round(weighted)));
     const riskLabel: RiskResult['riskLabel'] =
         riskScore <= 3 ? 'Low' : riskScore <= 6 ? 'Medium' : 'High';
 
-    return { riskScore, riskLabel };
+    return { riskScore, riskLabel, breakdown };
 }